@@ -0,0 +1,20 @@
+// Built from src/engine/budgetSolver.ts by `npm run build:engine`
+import { fitBudgetForDesign, parseBudgetRequest } from '../dist-engine/budgetSolver.js';
+
+export default function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const parsed = parseBudgetRequest(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    res.json(fitBudgetForDesign(parsed.request));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error';
+    res.status(500).json({ error: msg });
+  }
+}
@@ -2,29 +2,61 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import Anthropic from '@anthropic-ai/sdk';
+import PRICING from './src/engine/pricing.json' with { type: 'json' };
+// Built from src/engine/budgetSolver.ts by `npm run build:engine`
+import { fitBudgetForDesign, parseBudgetRequest } from './dist-engine/budgetSolver.js';
 
 const app = express();
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 
-const SYSTEM_PROMPT = `You are an expert design assistant for the M|R Walls Perf Panel Maker — an architectural perforated panel configurator. You have deep expertise in perforated panel design, image processing, lighting design, and CNC fabrication.
+// ── Pricing ──────────────────────────────────────────────────────────
+// Rates in the prompt come from the rule table the app prices with
+const usd = (v) => `$${v.toLocaleString('en-US')}`;
+const rateOf = (...ids) => {
+  const rates = ids.map(id => PRICING.materialRates[id]);
+  const lo = Math.min(...rates), hi = Math.max(...rates);
+  return lo === hi ? `${usd(lo)}/SF` : `${usd(lo)}-${hi}/SF`;
+};
+const PRICING_TEXT = [
+  "- Panels: panel area (SF) × the selected material's rate (listed with each material above). Panel area (SF) = sum of (panel_width × panel_height / 144) for all panels.",
+  `- Backlight adds ${usd(PRICING.backlightRates.solid)}/SF of panel area for solid (backlightMode "solid") and ${usd(PRICING.backlightRates.programmable)}/SF for programmable (backlightMode "gradient")`,
+  PRICING.machining.perHole > 0 && `- Machining: ${usd(PRICING.machining.perHole)} per hole`,
+  PRICING.machining.perMachineMinute > 0 && `- Machine time: ${usd(PRICING.machining.perMachineMinute)} per minute at ${PRICING.machining.holesPerMinute} holes per minute — more holes cost more`,
+  `- Each custom-cut filler panel adds a ${usd(PRICING.customCutSurcharge)} cut surcharge`,
+  '- Material waste: the unused share of the stock sheets the panels are nested on is added at sheet cost, so layouts with poor yield cost more',
+  PRICING.volumeTiers.length > 0 && `- Volume discount on fabrication: ${PRICING.volumeTiers.map(t => `${t.discountPct}% from ${t.minSF} SF`).join(', ')}`,
+  `- Minimum order: fabrication is billed at no less than ${usd(PRICING.minimumOrder)} after volume and quote discounts`,
+  `- Crating ${usd(PRICING.crating.perCrate)} per crate of ${PRICING.crating.panelsPerCrate} panels; shipping ${usd(PRICING.shipping.base)} + ${usd(PRICING.shipping.perPanel)} per panel`,
+  PRICING.taxPct > 0 && `- Sales tax ${PRICING.taxPct}% on the total`,
+].filter(Boolean).join('\n');
+
+const SYSTEM_PROMPT = `You are an expert design assistant for the M|R Walls Perf Panel Maker — an architectural perforated panel configurator (Corian solid surface, aluminum, steel, brass and acoustic felt). You have deep expertise in perforated panel design, image processing, lighting design, and CNC fabrication.
 
 ## Your Behavior:
 1. **Be brief.** For configuration changes, reply with ONE short sentence confirming what you did. No preamble ("Perfect!" "Great choice!"), no headers, no bullet lists, no breakdowns. Just "Set to 30' × 12' with a hot pink → blue gradient and hex grid." The user can see the JSON and the live viewport.
 2. **Be proactive — configure first.** Make smart defaults for anything unspecified, don't ask questions. If the request is truly ambiguous, pick the most likely interpretation and mention it in half a sentence.
 3. **Only go long when asked.** If the user asks "how does X work" or "why", give a focused 2-3 sentence explanation. Never lecture when the user just wanted a change.
-4. When the user specifies a **BUDGET**, reverse-engineer the parameters to hit that target. Reply with one line.
+4. When the user specifies a **BUDGET**, call the fit_budget tool — never work the price out yourself — and apply the design it returns. Reply with one line: "Sized to fit — Y × Z wall with [style]."
 
 ## Available Parameters (respond with JSON using these keys):
 
 ### Wall & Panel Layout
 - wallW: Wall width in feet (1-200, default 20)
 - wallH: Wall height in feet (1-200, default 10)
+- wallShape: "rect" | "raked" | "arch" | "polygon" (default "rect"). Non-rectangular walls: panels are tiled over the wallW × wallH bounding box, then panels crossing the outline are trimmed to custom shapes and holes outside the outline are dropped.
+- rakeLeftH, rakeRightH: For "raked" (sloped ceiling / shed wall): wall height in feet at the left and right edges (each ≤ wallH).
+- archRise: For "arch": rise of the arched top in feet (up to wallW/2 for a full semicircle).
+- wallPolygon: For "polygon" (gable ends, stair walls, soffits): array of [x, y] vertices in feet from the top-left corner, y measured DOWN. E.g. a gable on a 20'×12' wall: [[0,5],[10,0],[20,5],[20,12],[0,12]]. A stair wall: [[0,5],[20,0],[20,7],[0,12]].
 - panelGap: Gap between panels in inches (0-4, default 0.25)
 - margin: Clear zone around panel edges in inches (0-6, default 1). This is the unperforated border around each panel — needed for structural mounting. Larger margin = fewer holes near edges = cleaner look but less image coverage.
 - enabledWidths: Array of enabled panel widths in inches, from [24, 36, 48] (default [24, 48])
 - enabledHeights: Array of enabled panel heights in inches, from [48, 60, 72, 96, 120, 144] (default [96, 120, 144])
   **IMPORTANT**: The layout solver tiles panels to fill the wall. Choose heights that evenly divide the wall height in inches. For example: 20' wall = 240" → enable [120] (2x120=240), NOT [144] (1x144=144 leaves 96" empty). Always do the math: wallH_ft × 12 ÷ panel_height = number of rows (should be a whole number or close to it).
+- layoutMode: "grid" | "running-bond" | "vertical-stack" (default "grid"). Joint pattern. "grid" = every row shares the same seams. "running-bond" = every other row is shifted by half a panel like brickwork, with cut pieces at the row ends. "vertical-stack" = full-height columns where neighbouring columns use different height splits so horizontal seams step instead of lining up (needs at least two panel heights that combine to the wall height).
+- fillerMode: "none" | "single" | "symmetric" (default "none"). Stock panel sizes rarely add up to the wall exactly; fillers are custom-cut panels that close the leftover strip so coverage reaches 100%. "single" = one filler at the right/bottom end of each axis, "symmetric" = matching fillers at both ends (looks balanced, costs two cuts). Each custom-cut panel adds a cut surcharge.
+- fillerMin, fillerMax: Allowed filler size in inches (defaults 6 and 24). Fillers outside this range are not offered.
+- layoutRanking: "coverage" | "yield" (default "coverage"). How layout options are ordered. "yield" prefers layouts that nest onto the stock sheets (30×144, 48×96, 60×144 Corian) with the least drop, even if coverage is slightly lower.
 
 ### Grid & Spacing
 - spacingMode: "spacing" or "count" (default "spacing"). "spacing" = define hole-to-hole distance in inches. "count" = define total grid columns/rows.
@@ -33,10 +65,19 @@ const SYSTEM_PROMPT = `You are an expert design assistant for the M|R Walls Perf
 - lockRatio: true/false — lock X/Y spacing ratio (default true)
 - gridCols: Number of columns when in count mode (2-500, default 46)
 - gridRows: Number of rows when in count mode (2-500, default 118)
-- gridPattern: "rect" or "hex" (default "rect"). Hex (staggered) creates a more organic, natural look — each odd row is offset by half a spacing. Rect is more geometric and uniform. Hex generally looks better for photographic images; rect works well for geometric/abstract designs.
+- gridPattern: "rect", "hex", "stochastic", "concentric", "spiral" or "radial" (default "rect"). Hex (staggered) creates a more organic, natural look — each odd row is offset by half a spacing. Rect is more geometric and uniform. Hex generally looks better for photographic images; rect works well for geometric/abstract designs. Stochastic scatters holes with blue-noise (Poisson-disk) placement: dark areas pack holes at the normal spacing, light areas spread them out, so the wall no longer reads as a lattice. Good for organic imagery like clouds, foliage or water.
+- gridAnchor: "panel" or "wall" (default "panel"). Only affects rect/hex grids. "panel" restarts the grid inside each panel's margin. "wall" anchors one grid to the wall origin so hole rows and columns line up across panel joints — use it whenever panel widths are mixed (e.g. 24" next to 48") or the seams look busy.
+- stochasticSeed: Integer seed for the stochastic scatter (default 1). Change it to get a different but repeatable arrangement.
+  "concentric" = rings of holes around a center point. "spiral" = phyllotaxis (sunflower-seed) spiral. "radial" = sunburst spokes radiating from the center. These three are laid out across the whole wall, so they stay continuous over panel seams. Use "radial" for starburst / light-ray images.
+- patternCenterU, patternCenterV: Center of the concentric/spiral/radial pattern as a fraction of wall width/height, 0-1 (default 0.5, 0.5 = wall center). E.g. 0.5, 1.0 puts a sunburst rising from the bottom edge.
 
 ### Hole Sizes
 - enabledHoleSizes: Array of enabled hole diameters in inches, from [1.5, 1.25, 1.0, 0.75, 0.625, 0.5, 0.25] (default all enabled). More sizes = smoother tonal gradations (like more gray levels in an image). Fewer sizes = more graphic/posterized look. Using only large sizes (1.0-1.5) = bold, punchy. Using only small sizes (0.25-0.625) = delicate, subtle.
+- holeShape: "circle" | "square" | "slot" | "hexagon" | "triangle" (default "circle"). The hole size sets the circle diameter, square side, hexagon/triangle across-corners size, or slot width.
+- slotRatio: Slot length as a multiple of its width, 1-6 (default 3). Only used when holeShape is "slot".
+- slotAngle: Slot angle in degrees, -90 to 90 (default 0 = horizontal).
+- slotFollowGradient: true/false (default false). Rotates each slot along the local image gradient so slots trace the image's edges and flow; slotAngle is used where the image is flat.
+- ditherMode: "none" | "floyd-steinberg" | "jarvis" | "atkinson" (default "none"). Error-diffusion quantization: instead of snapping each hole to the nearest size independently, the open-area error is pushed to neighbouring holes. Removes visible banding in smooth gradients when only 2-3 hole sizes are enabled. Jarvis is smoothest, Atkinson is crisper and slightly lighter.
 
 ### Image Processing Controls — HOW THEY WORK AND INTERPLAY:
 
@@ -63,6 +104,14 @@ const SYSTEM_PROMPT = `You are an expert design assistant for the M|R Walls Perf
 
 ### Visualization & Lighting
 
+- material: Panel material id (default "corian-dove"). Sets thickness, weight, fabrication limits, price per SF and the 3D finish; also resets panelColor to the material's own color unless panelColor is given too.
+  - "corian-dove" (grey), "corian-glacier-white", "corian-deep-nocturne" (black), "corian-sandalwood" (beige): 1/2" solid surface, min hole 0.25", min web 0.625", max 50% open, ${rateOf('corian-dove', 'corian-glacier-white', 'corian-deep-nocturne', 'corian-sandalwood')}. The default for backlit feature walls.
+  - "aluminum-125": 1/8" brushed aluminum, min hole 0.125", min web 0.125", max 55% open, ${rateOf('aluminum-125')}. Light, exterior-rated.
+  - "steel-14ga": 14 ga powder-coated steel, min hole 0.125", min web 0.125", max 60% open, ${rateOf('steel-14ga')}. Cheapest, heaviest per thickness.
+  - "brass-063": 1/16" satin brass, min hole 0.125", min web 0.125", max 50% open, ${rateOf('brass-063')}. Luxury accent walls.
+  - "felt-375": 3/8" acoustic PET felt, min hole 0.25", min web 0.75", max 40% open, ${rateOf('felt-375')}. Sound absorption; keep holes widely spaced.
+  Every design is run through a fabrication check: holes below the min hole, webs between neighbouring holes or from a hole to the panel edge (margin minus the hole radius) narrower than the min web, panels over the max open area, and panels with more than 3000 holes are flagged, and shop drawings exported with errors are stamped NOT FOR FABRICATION. Pick hole sizes, spacing and margin that pass: the web between two of the largest holes is spacing minus the largest hole size (e.g. 1.5" holes on a 2" pitch leave only 0.5" — too thin for Corian; drop 1.5" or open the spacing to 2.25").
+- discount: Quote discount id, or "" for none (default ""). Only set it when the user says they qualify: ${PRICING.discounts.map(d => `"${d.id}" (${d.label}, ${d.pct}% off fabrication)`).join(', ')}.
 - panelColor: Hex color for the panel material (default "#808080"). Dark panels (#333333) = more contrast with backlight. Light panels (#cccccc) = softer, modern look.
 - bgColor: Hex color for background/wall behind panels (default "#111111")
 
@@ -94,15 +143,15 @@ Set backlightMode to "solid". Do NOT turn off backlightEnabled. The user wants s
 - floorEnabled: true/false — show floor in 3D view (default false)
 - showLabels: true/false — show panel labels like "A1", "B2" (default true)
 
-## Pricing Formula:
-- Rate: $42 per square foot of panel area
-- Panel area (SF) = sum of (panel_width × panel_height / 144) for all panels
-- Total = panel area × $42
+## Pricing (from the pricing rules the app uses):
+${PRICING_TEXT}
 
-### How to reverse-engineer from a budget:
-1. Wall area ≈ wallW_ft × wallH_ft (in SF)
-2. Budget ÷ $42 = max panel area in SF
-3. Adjust wall dimensions or panel coverage to fit
+### Fitting a budget — use the fit_budget tool:
+The tool prices every wall size that fits inside the current wall with the app's own pricing (material, backlight, fillers, waste) and returns the designs under budget, best coverage first. Pass:
+- budget: the all-in budget in USD
+- fixedHeightFt: only if the user says the height cannot change
+- backlight: "none" | "solid" | "programmable", only if the user insists on one; leave it out to let the tool weigh lighting against coverage
+Apply the first option unless another one matches what the user asked for better: return its wallW and wallH (feet) and its backlight as backlightEnabled / backlightMode ("programmable" = "gradient"). If a material change was requested, change the material first and call the tool again — rates differ. If no option fits, say the budget does not cover even the smallest panel field and suggest a cheaper material or dropping the backlight.
 
 The real-time price is shown in the app, so do NOT include dollar amounts in your chat response. Mention trade-offs instead.
 
@@ -198,6 +247,23 @@ Response: "Wall mode."
 }
 \`\`\``;
 
+const BUDGET_TOOL = {
+  name: 'fit_budget',
+  description: 'Find the wall designs that fit a budget. Prices every wall size that fits inside the current wall with the app\'s own pricing and returns the options under budget, best coverage first, with wall size in feet, backlight type, coverage and price.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      budget: { type: 'number', description: 'All-in budget in USD' },
+      fixedHeightFt: { type: 'number', description: 'Wall height in feet that must not change' },
+      backlight: { type: 'string', enum: ['none', 'solid', 'programmable'], description: 'Backlight type the user insists on' },
+    },
+    required: ['budget'],
+  },
+};
+
+// Tool calls answered per chat message before the model has to reply
+const MAX_TOOL_ROUNDS = 2;
+
 // ── Config ───────────────────────────────────────────────────────────
 app.get('/api/config', (req, res) => {
   res.json({
@@ -213,7 +279,7 @@ app.post('/api/chat', async (req, res) => {
     return res.status(401).json({ error: 'Missing API key.' });
   }
 
-  const { message, history } = req.body;
+  const { message, history, design } = req.body;
   if (!message) {
     return res.status(400).json({ error: 'No message provided.' });
   }
@@ -236,23 +302,48 @@ app.post('/api/chat', async (req, res) => {
   const send = (evt) => res.write(`data: ${JSON.stringify(evt)}\n\n`);
 
   try {
-    const stream = await client.messages.stream({
-      model: 'claude-haiku-4-5-20251001',
-      max_tokens: 1024,
-      system: SYSTEM_PROMPT,
-      messages,
-    });
-
     let fullText = '';
     let inJsonBlock = false;
 
-    for await (const event of stream) {
-      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
-        const chunk = event.delta.text;
-        fullText += chunk;
-        if (!inJsonBlock && /```json/.test(fullText)) inJsonBlock = true;
-        if (!inJsonBlock) send({ type: 'delta', text: chunk });
+    for (let round = 0; ; round++) {
+      const stream = client.messages.stream({
+        model: 'claude-haiku-4-5-20251001',
+        max_tokens: 1024,
+        system: SYSTEM_PROMPT,
+        tools: [BUDGET_TOOL],
+        // Out of lookups: the last round sees every tool result and has to answer in text
+        ...(round >= MAX_TOOL_ROUNDS ? { tool_choice: { type: 'none' } } : {}),
+        messages,
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          const chunk = event.delta.text;
+          fullText += chunk;
+          if (!inJsonBlock && /```json/.test(fullText)) inJsonBlock = true;
+          if (!inJsonBlock) send({ type: 'delta', text: chunk });
+        }
+      }
+
+      const reply = await stream.finalMessage();
+      if (reply.stop_reason !== 'tool_use' || round >= MAX_TOOL_ROUNDS) break;
+
+      // Answer the budget lookups and let the model continue from the results
+      const results = [];
+      for (const block of reply.content) {
+        if (block.type !== 'tool_use') continue;
+        const parsed = parseBudgetRequest({ ...block.input, design });
+        const { options, note } = 'error' in parsed
+          ? { options: [], note: parsed.error }
+          : fitBudgetForDesign(parsed.request);
+        results.push({
+          type: 'tool_result',
+          tool_use_id: block.id,
+          content: JSON.stringify({ options: options.map(({ params, ...o }) => o), note }),
+        });
       }
+      messages.push({ role: 'assistant', content: reply.content });
+      messages.push({ role: 'user', content: results });
     }
 
     const jsonMatch = fullText.match(/```json\s*([\s\S]*?)\s*```/);
@@ -271,6 +362,21 @@ app.post('/api/chat', async (req, res) => {
   }
 });
 
+// ── Budget API ───────────────────────────────────────────────────────
+app.post('/api/budget', (req, res) => {
+  const parsed = parseBudgetRequest(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    res.json(fitBudgetForDesign(parsed.request));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : 'Unknown error';
+    res.status(500).json({ error: msg });
+  }
+});
+
 // ── Render API (FAL) ─────────────────────────────────────────────────
 app.post('/api/render', async (req, res) => {
   const falKey = req.headers['x-fal-key'] || process.env.FAL_API_KEY;
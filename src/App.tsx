@@ -1,20 +1,118 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { PanelState, LightingPreset } from './engine/types';
-import { DEFAULT_PANEL_STATE } from './engine/types';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { PanelState, LightingPreset, ChatMessage } from './engine/types';
+import { DEFAULT_PANEL_STATE, MARA_GREETING } from './engine/types';
 import { processImage, solveAndBuildPanels, computeAllHoles } from './engine/panelEngine';
+import { checkDesignRules } from './engine/drc';
+import { buildProjectFile, openProjectFile, parseProjectFile, projectFileName, type ProjectFile } from './engine/project';
+import { AUTOSAVE_DELAY_MS, autosaveErrorMessage, loadLastSession, saveSnapshot, type SavedSession } from './engine/autosave';
+import { downloadFile } from './engine/exportEngine';
+import { CONTROL_CHANGE, EMPTY_HISTORY, changedFields, historyPatch, recordChange, type ChangeOrigin, type DesignHistory } from './engine/history';
+import { keepIssuedQuote } from './engine/quote';
 import AskMaraDrawer from './components/AskMaraDrawer';
 import ControlPanel from './components/ControlPanel';
 import MainViewport from './components/MainViewport';
 import OnboardingWizard from './components/OnboardingWizard';
+import RestoreSessionPrompt from './components/RestoreSessionPrompt';
+
+// Fields that trigger each recompute stage
+const IMAGE_KEYS = new Set(['brightness', 'contrast', 'invert']);
+const LAYOUT_KEYS = new Set([
+  'wallW', 'wallH', 'wallShape', 'rakeLeftH', 'rakeRightH', 'archRise', 'wallPolygon',
+  'panelGap', 'enabledWidths', 'enabledHeights', 'layoutMode',
+  'fillerMode', 'fillerMin', 'fillerMax', 'layoutRanking', 'stockSheets', 'sawKerf', 'selectedLayoutIdx',
+]);
+const HOLE_KEYS = new Set([
+  'spacingMode', 'spacingX', 'spacingY', 'gridCols', 'gridRows', 'gridPattern', 'gridAnchor', 'stochasticSeed',
+  'patternCenterU', 'patternCenterV',
+  'enabledHoleSizes', 'ditherMode', 'threshold', 'gamma', 'margin', 'keepOuts',
+  'holeShape', 'slotAngle', 'slotFollowGradient',
+]);
+
+// Full recompute (used for initial load and image load)
+function recomputeFull(state: PanelState): PanelState {
+  let s = { ...state };
+  if (s.sourceImage) {
+    const imgData = processImage(s);
+    if (imgData) s = { ...s, ...imgData };
+  }
+  const { layoutOptions, panels, colWidths, rowHeights } = solveAndBuildPanels(s);
+  s = { ...s, layoutOptions, panels, colWidths, rowHeights,
+    selectedLayoutIdx: Math.min(s.selectedLayoutIdx, Math.max(0, layoutOptions.length - 1)) };
+  if (s.grayPixels) {
+    const { panels: ph, gridInfo } = computeAllHoles(s);
+    s = { ...s, panels: ph, gridInfo };
+  }
+  return s;
+}
+
+// Smart recompute — only runs the stages needed based on which keys changed
+function applyUpdates(prev: PanelState, updates: Partial<PanelState>): PanelState {
+  const next = { ...prev, ...updates };
+  const keys = Object.keys(updates);
+
+  // A new or cleared source image rebuilds everything
+  if ('sourceImage' in updates) {
+    return recomputeFull(next.sourceImage ? next : { ...next, grayPixels: null, imgWidth: 0, imgHeight: 0 });
+  }
+
+  const needsImage = keys.some(k => IMAGE_KEYS.has(k));
+  const needsLayout = keys.some(k => LAYOUT_KEYS.has(k));
+  const needsHoles = keys.some(k => HOLE_KEYS.has(k));
+
+  // Visual-only change — no recompute needed
+  if (!needsImage && !needsLayout && !needsHoles) return next;
+
+  let s = { ...next };
+
+  if (needsImage && s.sourceImage) {
+    const imgData = processImage(s);
+    if (imgData) s = { ...s, ...imgData };
+  }
+
+  if (needsImage || needsLayout) {
+    const { layoutOptions, panels, colWidths, rowHeights } = solveAndBuildPanels(s);
+    s = { ...s, layoutOptions, panels, colWidths, rowHeights,
+      selectedLayoutIdx: Math.min(s.selectedLayoutIdx, Math.max(0, layoutOptions.length - 1)) };
+  }
+
+  if ((needsImage || needsLayout || needsHoles) && s.grayPixels) {
+    const { panels: ph, gridInfo } = computeAllHoles(s);
+    s = { ...s, panels: ph, gridInfo };
+  }
+
+  return s;
+}
+
+// Text fields keep the browser's own undo; sliders, toggles and the canvas use the design history
+function isTextEditing(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'color'].includes(target.type);
+}
+
+// Decode an image file to an element ready for processImage
+function readImageFile(file: File, onLoad: (img: HTMLImageElement) => void) {
+  const reader = new FileReader();
+  reader.onload = (e) => {
+    const img = new Image();
+    img.onload = () => onLoad(img);
+    img.src = e.target?.result as string;
+  };
+  reader.readAsDataURL(file);
+}
 
 export default function App() {
   const [panelState, setPanelState] = useState<PanelState>({ ...DEFAULT_PANEL_STATE });
+  const [history, setHistory] = useState<DesignHistory>(EMPTY_HISTORY);
   const [lightingPreset, setLightingPreset] = useState<LightingPreset>('standard');
   const [floorEnabled, setFloorEnabled] = useState(false);
   const [scaleFigureEnabled, setScaleFigureEnabled] = useState(true);
   const [activeTab, setActiveTab] = useState<'2d' | '3d' | 'guide'>('3d');
   const [ceilingMode, setCeilingMode] = useState(false);
   const [askMaraOpen, setAskMaraOpen] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([MARA_GREETING]);
+  const [lastSession, setLastSession] = useState<SavedSession | null>(null);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
   const [onboarded, setOnboarded] = useState(() =>
     typeof window !== 'undefined' ? localStorage.getItem('perfpanel_onboarded') === 'true' : false,
   );
@@ -25,115 +123,96 @@ export default function App() {
   const cameraRef = useRef<unknown>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  // Fields that trigger each recompute stage
-  const IMAGE_KEYS = new Set(['brightness', 'contrast', 'invert']);
-  const LAYOUT_KEYS = new Set(['wallW', 'wallH', 'panelGap', 'enabledWidths', 'enabledHeights', 'selectedLayoutIdx']);
-  const HOLE_KEYS = new Set([
-    'spacingMode', 'spacingX', 'spacingY', 'gridCols', 'gridRows', 'gridPattern',
-    'enabledHoleSizes', 'threshold', 'gamma', 'margin',
-  ]);
-
-  // Full recompute (used for initial load and image load)
-  const recomputeFull = useCallback((state: PanelState): PanelState => {
-    let s = { ...state };
-    if (s.sourceImage) {
-      const imgData = processImage(s);
-      if (imgData) s = { ...s, ...imgData };
-    }
-    const { layoutOptions, panels, colWidths, rowHeights } = solveAndBuildPanels(s);
-    s = { ...s, layoutOptions, panels, colWidths, rowHeights,
-      selectedLayoutIdx: Math.min(s.selectedLayoutIdx, Math.max(0, layoutOptions.length - 1)) };
-    if (s.grayPixels) {
-      const { panels: ph, gridInfo } = computeAllHoles(s);
-      s = { ...s, panels: ph, gridInfo };
-    }
-    return s;
-  }, []);
-
-  // Smart recompute — only runs the stages needed based on which keys changed
-  const handleStateChange = useCallback((updates: Partial<PanelState>) => {
-    setPanelState(prev => {
-      const next = { ...prev, ...updates };
-      const keys = Object.keys(updates);
-
-      const needsImage = keys.some(k => IMAGE_KEYS.has(k));
-      const needsLayout = keys.some(k => LAYOUT_KEYS.has(k));
-      const needsHoles = keys.some(k => HOLE_KEYS.has(k));
+  // The design with every change so far applied, including ones React hasn't rendered
+  // yet, so back-to-back changes each record the values they really replaced
+  const latestRef = useRef(panelState);
+  useEffect(() => { latestRef.current = panelState; }, [panelState]);
 
-      // Visual-only change — no recompute needed
-      if (!needsImage && !needsLayout && !needsHoles) return next;
+  // Set once the design has been edited or loaded; the untouched default is never autosaved
+  const dirtyRef = useRef(false);
 
-      let s = { ...next };
-
-      if (needsImage && s.sourceImage) {
-        const imgData = processImage(s);
-        if (imgData) s = { ...s, ...imgData };
-      }
+  // Apply a patch without recording it (undo/redo)
+  const applyChange = useCallback((updates: Partial<PanelState>) => {
+    dirtyRef.current = true;
+    latestRef.current = { ...latestRef.current, ...updates };
+    setPanelState(prev => applyUpdates(prev, updates));
+  }, []);
 
-      if (needsImage || needsLayout) {
-        const { layoutOptions, panels, colWidths, rowHeights } = solveAndBuildPanels(s);
-        s = { ...s, layoutOptions, panels, colWidths, rowHeights,
-          selectedLayoutIdx: Math.min(s.selectedLayoutIdx, Math.max(0, layoutOptions.length - 1)) };
-      }
+  // Every user, AI and onboarding edit goes through here and lands in the history
+  const handleStateChange = useCallback((updates: Partial<PanelState>, origin: ChangeOrigin = CONTROL_CHANGE) => {
+    const before = changedFields(latestRef.current, updates);
+    applyChange(updates);
+    if (!before || origin.untracked) return;
+    const time = Date.now();
+    setHistory(h => recordChange(h, origin, before, updates, time));
+  }, [applyChange]);
 
-      if ((needsImage || needsLayout || needsHoles) && s.grayPixels) {
-        const { panels: ph, gridInfo } = computeAllHoles(s);
-        s = { ...s, panels: ph, gridInfo };
-      }
+  const handleHistoryJump = useCallback((target: number) => {
+    const t = Math.max(0, Math.min(history.entries.length, target));
+    if (t === history.index) return;
+    applyChange(keepIssuedQuote(historyPatch(history, t), latestRef.current));
+    setHistory({ ...history, index: t });
+  }, [history, applyChange]);
 
-      return s;
-    });
-  }, []);
+  // ⌘Z / Ctrl+Z undo, ⇧⌘Z / Ctrl+Y redo
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || isTextEditing(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleHistoryJump(history.index - 1);
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handleHistoryJump(history.index + 1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [history.index, handleHistoryJump]);
 
   // Handle image load
-  const handleImageLoad = useCallback((file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        setPanelState(prev => {
-          const next = { ...prev, sourceImage: img };
-          return recomputeFull(next);
-        });
-      };
-      img.src = e.target?.result as string;
-    };
-    reader.readAsDataURL(file);
-  }, [recomputeFull]);
+  const handleImageLoad = useCallback((file: File, imageName: string) => {
+    readImageFile(file, img => handleStateChange({ sourceImage: img, imageName }));
+  }, [handleStateChange]);
 
-  // Handle image clear
+  // Handle image clear — holes go, the layout stays
   const handleImageClear = useCallback(() => {
-    setPanelState(prev => {
-      const next = {
-        ...prev,
-        sourceImage: null,
-        grayPixels: null,
-        imgWidth: 0,
-        imgHeight: 0,
-      };
-      // Clear holes but keep layout
-      const { layoutOptions, panels, colWidths, rowHeights } = solveAndBuildPanels(next);
-      return {
-        ...next,
-        layoutOptions,
-        panels: panels.map(p => ({ ...p, holes: [] })),
-        colWidths,
-        rowHeights,
-      };
-    });
-  }, []);
+    handleStateChange({ sourceImage: null });
+  }, [handleStateChange]);
 
   // Initial layout solve
   useEffect(() => {
     setPanelState(prev => recomputeFull(prev));
-  }, [recomputeFull]);
+  }, []);
 
-  // Auto-load default sample image on mount — only for returning users
-  const autoLoadedRef = useRef(false);
-  useEffect(() => {
-    if (!onboarded) return;
-    if (autoLoadedRef.current) return;
-    autoLoadedRef.current = true;
+  // Project files — the saved design, image, scene and conversation; computed fields are rebuilt
+  const handleProjectSave = useCallback(() => {
+    const file = buildProjectFile(panelState, { lightingPreset, floorEnabled, scaleFigureEnabled, ceilingMode }, chatMessages);
+    downloadFile(projectFileName(panelState), JSON.stringify(file), 'application/json');
+  }, [panelState, lightingPreset, floorEnabled, scaleFigureEnabled, ceilingMode, chatMessages]);
+
+  // An opened or restored project starts its own history
+  const loadProject = useCallback(async (file: ProjectFile) => {
+    const project = await openProjectFile(file);
+    const state = recomputeFull(project.state);
+    dirtyRef.current = true;
+    latestRef.current = state;
+    setPanelState(state);
+    setHistory(EMPTY_HISTORY);
+    setLightingPreset(project.scene.lightingPreset);
+    setFloorEnabled(project.scene.floorEnabled);
+    setScaleFigureEnabled(project.scene.scaleFigureEnabled);
+    setCeilingMode(project.scene.ceilingMode);
+    setChatMessages(project.chat);
+    setLastSession(null);
+  }, []);
+
+  const handleProjectOpen = useCallback(async (file: File) => {
+    await loadProject(parseProjectFile(await file.text()));
+  }, [loadProject]);
+
+  // The sample wall returning users start from when they don't restore a session. It is
+  // the starting point rather than an edit, so it stays out of the history and autosave,
+  // and it is dropped if the design was edited or restored while the image loaded.
+  const loadSample = useCallback(() => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.onload = () => {
@@ -146,11 +225,44 @@ export default function App() {
       canvas.toBlob(blob => {
         if (!blob) return;
         const file = new File([blob], 'gradient_sunset_skyline_colorful.jpg', { type: 'image/jpeg' });
-        handleImageLoad(file);
+        readImageFile(file, loaded => {
+          if (dirtyRef.current) return;
+          latestRef.current = { ...latestRef.current, sourceImage: loaded };
+          setPanelState(prev => applyUpdates(prev, { sourceImage: loaded }));
+        });
       }, 'image/jpeg', 0.92);
     };
     img.src = '/samples/gradient_sunset_skyline_colorful.jpg';
-  }, [handleImageLoad, onboarded]);
+  }, []);
+
+  // Returning users are offered the last autosaved session, or get the sample wall
+  const sessionCheckedRef = useRef(false);
+  useEffect(() => {
+    if (sessionCheckedRef.current) return;
+    sessionCheckedRef.current = true;
+    if (!onboarded) return;
+    loadLastSession()
+      .then(session => (session ? setLastSession(session) : loadSample()))
+      .catch(loadSample);
+  }, [onboarded, loadSample]);
+
+  // Autosave — debounced after each change to the design, scene or conversation
+  useEffect(() => {
+    if (!dirtyRef.current) return;
+    const timer = setTimeout(() => {
+      saveSnapshot(panelState, { lightingPreset, floorEnabled, scaleFigureEnabled, ceilingMode }, chatMessages)
+        .then(() => setAutosaveError(null))
+        .catch(err => setAutosaveError(autosaveErrorMessage(err)));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [panelState, lightingPreset, floorEnabled, scaleFigureEnabled, ceilingMode, chatMessages]);
+
+  // Fabrication design rules, shared by the 2D markers and the control panel list
+  const { panels, holeShape, slotRatio, material, keepOuts } = panelState;
+  const drc = useMemo(
+    () => checkDesignRules({ panels, holeShape, slotRatio, material, keepOuts }),
+    [panels, holeShape, slotRatio, material, keepOuts],
+  );
 
   // Onboarding completion — atomic apply of size + image, unlock UI only when image is ready
   const handleOnboardingComplete = useCallback(
@@ -158,21 +270,12 @@ export default function App() {
       localStorage.setItem('perfpanel_onboarded', 'true');
 
       const applyAndUnlock = (img: HTMLImageElement | null, imageName: string) => {
-        setPanelState(prev => {
-          const next = { ...prev, wallW, wallH, imageName, ...(img ? { sourceImage: img } : {}) };
-          return recomputeFull(next);
-        });
+        handleStateChange({ wallW, wallH, imageName, ...(img ? { sourceImage: img } : {}) }, { source: 'onboarding' });
         setTimeout(() => setOnboarded(true), 400);
       };
 
       if (uploadedFile) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const img = new Image();
-          img.onload = () => applyAndUnlock(img, uploadedFile.name.replace(/\.[^.]+$/, ''));
-          img.src = e.target?.result as string;
-        };
-        reader.readAsDataURL(uploadedFile);
+        readImageFile(uploadedFile, img => applyAndUnlock(img, uploadedFile.name.replace(/\.[^.]+$/, '')));
       } else if (sampleFile) {
         const img = new Image();
         img.crossOrigin = 'anonymous';
@@ -183,7 +286,7 @@ export default function App() {
         applyAndUnlock(null, '');
       }
     },
-    [recomputeFull],
+    [handleStateChange],
   );
 
   return (
@@ -193,6 +296,8 @@ export default function App() {
         activeTab={activeTab}
         onTabChange={setActiveTab}
         panelState={panelState}
+        onStateChange={handleStateChange}
+        drc={drc}
         lightingPreset={lightingPreset}
         floorEnabled={floorEnabled}
         scaleFigureEnabled={scaleFigureEnabled}
@@ -215,6 +320,7 @@ export default function App() {
         <ControlPanel
           panelState={panelState}
           onStateChange={handleStateChange}
+          drc={drc}
           onImageLoad={handleImageLoad}
           onImageClear={handleImageClear}
           floorEnabled={floorEnabled}
@@ -229,6 +335,11 @@ export default function App() {
           cameraRef={cameraRef}
           activeTab={activeTab}
           onOpenAskMara={() => setAskMaraOpen(true)}
+          onProjectSave={handleProjectSave}
+          onProjectOpen={handleProjectOpen}
+          history={history}
+          onHistoryJump={handleHistoryJump}
+          autosaveError={autosaveError}
         />
 
         {/* Ask Mara drawer — slides over ControlPanel */}
@@ -236,7 +347,10 @@ export default function App() {
           <AskMaraDrawer
             isOpen={askMaraOpen}
             onClose={() => setAskMaraOpen(false)}
+            panelState={panelState}
             onStateChange={handleStateChange}
+            messages={chatMessages}
+            onMessagesChange={setChatMessages}
             onLightingPresetChange={setLightingPreset}
             onScaleFigureEnabledChange={setScaleFigureEnabled}
             onFloorEnabledChange={setFloorEnabled}
@@ -245,6 +359,15 @@ export default function App() {
         )}
       </div>
 
+      {/* Last autosaved session — returning users only */}
+      {lastSession && (
+        <RestoreSessionPrompt
+          session={lastSession}
+          onRestore={() => loadProject(lastSession.file)}
+          onDismiss={() => { setLastSession(null); loadSample(); }}
+        />
+      )}
+
       {/* Onboarding — first visit only */}
       {!onboarded && <OnboardingWizard onComplete={handleOnboardingComplete} />}
     </div>
@@ -1,10 +1,8 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { PanelState, LightingPreset } from '../engine/types';
-
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-}
+import type { PanelState, LightingPreset, ChatMessage } from '../engine/types';
+import { getMaterial } from '../engine/materials';
+import { BUDGET_DESIGN_KEYS } from '../engine/budgetSolver';
+import type { ChangeOrigin } from '../engine/history';
 
 const SUGGESTIONS = [
   'Denser pattern, more contrast',
@@ -15,7 +13,10 @@ const SUGGESTIONS = [
 interface AskMaraDrawerProps {
   isOpen: boolean;
   onClose: () => void;
-  onStateChange: (updates: Partial<PanelState>) => void;
+  panelState: PanelState;
+  onStateChange: (updates: Partial<PanelState>, origin?: ChangeOrigin) => void;
+  messages: ChatMessage[];  // owned by App so the conversation is saved with the project
+  onMessagesChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
   onLightingPresetChange: (preset: LightingPreset) => void;
   onScaleFigureEnabledChange: (enabled: boolean) => void;
   onFloorEnabledChange: (enabled: boolean) => void;
@@ -30,7 +31,10 @@ function getSavedKey(key: string): string {
 export default function AskMaraDrawer({
   isOpen,
   onClose,
+  panelState,
   onStateChange,
+  messages,
+  onMessagesChange: setMessages,
   onLightingPresetChange,
   onScaleFigureEnabledChange,
   onFloorEnabledChange,
@@ -39,12 +43,6 @@ export default function AskMaraDrawer({
   const [apiKey, setApiKey] = useState(() => getSavedKey('perfpanel_api_key'));
   const [serverHasAnthropicKey, setServerHasAnthropicKey] = useState(true);
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      role: 'assistant',
-      content: "I'm Mara. Tell me how to tune your panels — size, density, lighting — and I'll adjust the sliders live.",
-    },
-  ]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -71,28 +69,55 @@ export default function AskMaraDrawer({
     localStorage.setItem('perfpanel_api_key', val);
   }, []);
 
-  const applyParams = useCallback((aiParams: Record<string, unknown>) => {
+  const applyParams = useCallback((aiParams: Record<string, unknown>, request: string) => {
     const updates: Partial<PanelState> = {};
     if (aiParams.wallW !== undefined) updates.wallW = Number(aiParams.wallW) * 12;
     if (aiParams.wallH !== undefined) updates.wallH = Number(aiParams.wallH) * 12;
+    if (aiParams.wallShape !== undefined) updates.wallShape = aiParams.wallShape as PanelState['wallShape'];
+    if (aiParams.rakeLeftH !== undefined) updates.rakeLeftH = Number(aiParams.rakeLeftH) * 12;
+    if (aiParams.rakeRightH !== undefined) updates.rakeRightH = Number(aiParams.rakeRightH) * 12;
+    if (aiParams.archRise !== undefined) updates.archRise = Number(aiParams.archRise) * 12;
+    if (Array.isArray(aiParams.wallPolygon)) {
+      updates.wallPolygon = (aiParams.wallPolygon as [number, number][]).map(([x, y]) => [Number(x) * 12, Number(y) * 12]);
+    }
     if (aiParams.panelGap !== undefined) updates.panelGap = Number(aiParams.panelGap);
     if (aiParams.margin !== undefined) updates.margin = Number(aiParams.margin);
     if (aiParams.enabledWidths !== undefined) updates.enabledWidths = aiParams.enabledWidths as number[];
     if (aiParams.enabledHeights !== undefined) updates.enabledHeights = aiParams.enabledHeights as number[];
+    if (aiParams.layoutMode !== undefined) updates.layoutMode = aiParams.layoutMode as PanelState['layoutMode'];
+    if (aiParams.fillerMode !== undefined) updates.fillerMode = aiParams.fillerMode as PanelState['fillerMode'];
+    if (aiParams.fillerMin !== undefined) updates.fillerMin = Number(aiParams.fillerMin);
+    if (aiParams.fillerMax !== undefined) updates.fillerMax = Number(aiParams.fillerMax);
+    if (aiParams.layoutRanking !== undefined) updates.layoutRanking = aiParams.layoutRanking as PanelState['layoutRanking'];
     if (aiParams.spacingMode !== undefined) updates.spacingMode = aiParams.spacingMode as 'spacing' | 'count';
     if (aiParams.spacingX !== undefined) updates.spacingX = Number(aiParams.spacingX);
     if (aiParams.spacingY !== undefined) updates.spacingY = Number(aiParams.spacingY);
     if (aiParams.lockRatio !== undefined) updates.lockRatio = Boolean(aiParams.lockRatio);
     if (aiParams.gridCols !== undefined) updates.gridCols = Number(aiParams.gridCols);
     if (aiParams.gridRows !== undefined) updates.gridRows = Number(aiParams.gridRows);
-    if (aiParams.gridPattern !== undefined) updates.gridPattern = aiParams.gridPattern as 'rect' | 'hex';
+    if (aiParams.gridPattern !== undefined) updates.gridPattern = aiParams.gridPattern as PanelState['gridPattern'];
+    if (aiParams.gridAnchor !== undefined) updates.gridAnchor = aiParams.gridAnchor as PanelState['gridAnchor'];
+    if (aiParams.stochasticSeed !== undefined) updates.stochasticSeed = Number(aiParams.stochasticSeed);
+    if (aiParams.patternCenterU !== undefined) updates.patternCenterU = Number(aiParams.patternCenterU);
+    if (aiParams.patternCenterV !== undefined) updates.patternCenterV = Number(aiParams.patternCenterV);
     if (aiParams.enabledHoleSizes !== undefined) updates.enabledHoleSizes = aiParams.enabledHoleSizes as number[];
-    if (aiParams.holeShape !== undefined) updates.holeShape = aiParams.holeShape as 'circle' | 'square';
+    if (aiParams.holeShape !== undefined) updates.holeShape = aiParams.holeShape as PanelState['holeShape'];
+    if (aiParams.slotRatio !== undefined) updates.slotRatio = Number(aiParams.slotRatio);
+    if (aiParams.slotAngle !== undefined) updates.slotAngle = Number(aiParams.slotAngle);
+    if (aiParams.slotFollowGradient !== undefined) updates.slotFollowGradient = Boolean(aiParams.slotFollowGradient);
+    if (aiParams.ditherMode !== undefined) updates.ditherMode = aiParams.ditherMode as PanelState['ditherMode'];
     if (aiParams.threshold !== undefined) updates.threshold = Number(aiParams.threshold);
     if (aiParams.gamma !== undefined) updates.gamma = Number(aiParams.gamma);
     if (aiParams.brightness !== undefined) updates.brightness = Number(aiParams.brightness);
     if (aiParams.contrast !== undefined) updates.contrast = Number(aiParams.contrast);
     if (aiParams.invert !== undefined) updates.invert = Boolean(aiParams.invert);
+    if (aiParams.material !== undefined) {
+      // A new material brings its own finish unless a color was asked for too
+      const m = getMaterial(String(aiParams.material));
+      updates.material = m.id;
+      updates.panelColor = m.appearance.color;
+    }
+    if (aiParams.discount !== undefined) updates.discount = String(aiParams.discount);
     if (aiParams.panelColor !== undefined) updates.panelColor = String(aiParams.panelColor);
     if (aiParams.bgColor !== undefined) updates.bgColor = String(aiParams.bgColor);
     if (aiParams.backlightEnabled !== undefined) updates.backlight = Boolean(aiParams.backlightEnabled);
@@ -102,7 +127,7 @@ export default function AskMaraDrawer({
     if (aiParams.backlightGradientAngle !== undefined) updates.backlightGradientAngle = Number(aiParams.backlightGradientAngle);
     if (aiParams.backlightIntensity !== undefined) updates.backlightIntensity = Number(aiParams.backlightIntensity);
     if (aiParams.showLabels !== undefined) updates.showLabels = Boolean(aiParams.showLabels);
-    if (Object.keys(updates).length > 0) onStateChange(updates);
+    if (Object.keys(updates).length > 0) onStateChange(updates, { source: 'ai', note: request });
     if (aiParams.lighting !== undefined) onLightingPresetChange(aiParams.lighting as LightingPreset);
     if (aiParams.scaleFigure !== undefined) onScaleFigureEnabledChange(Boolean(aiParams.scaleFigure));
     if (aiParams.floorEnabled !== undefined) onFloorEnabledChange(Boolean(aiParams.floorEnabled));
@@ -122,12 +147,14 @@ export default function AskMaraDrawer({
     setError(null);
     try {
       const history = messages.slice(1).map(m => ({ role: m.role, content: m.content }));
+      // What the server needs to run the budget solver on the current wall
+      const design = Object.fromEntries(BUDGET_DESIGN_KEYS.map(k => [k, panelState[k]]));
       const chatHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
       if (apiKey) chatHeaders['x-api-key'] = apiKey;
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: chatHeaders,
-        body: JSON.stringify({ message: input.trim(), history }),
+        body: JSON.stringify({ message: input.trim(), history, design }),
       });
       if (!res.ok || !res.body) {
         const t = await res.text();
@@ -167,7 +194,7 @@ export default function AskMaraDrawer({
               });
             }
             if (evt.params && typeof evt.params === 'object' && Object.keys(evt.params as object).length > 0) {
-              applyParams(evt.params as Record<string, unknown>);
+              applyParams(evt.params as Record<string, unknown>, userMsg.content);
             }
           } else if (evt.type === 'error') {
             streamError = (evt.error as string) || 'Stream error';
@@ -186,7 +213,7 @@ export default function AskMaraDrawer({
     } finally {
       setLoading(false);
     }
-  }, [input, apiKey, serverHasAnthropicKey, messages, applyParams]);
+  }, [input, apiKey, serverHasAnthropicKey, messages, setMessages, panelState, applyParams]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import type { PanelState } from '../engine/types';
+import { fitBudget, BUDGET_BACKLIGHT_LABELS } from '../engine/budgetSolver';
+import type { BudgetBacklight, BudgetFit } from '../engine/budgetSolver';
+
+interface BudgetSolverPanelProps {
+  panelState: PanelState;
+  onStateChange: (updates: Partial<PanelState>) => void;
+}
+
+const fmtFt = (inches: number) => `${+(inches / 12).toFixed(1)}'`;
+const fmtUsd = (v: number) => '$' + v.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+export default function BudgetSolverPanel({ panelState, onStateChange }: BudgetSolverPanelProps) {
+  const [budget, setBudget] = useState(25000);
+  const [fixHeight, setFixHeight] = useState(false);
+  const [backlight, setBacklight] = useState<BudgetBacklight | null>(null);
+  const [solving, setSolving] = useState(false);
+  const [fit, setFit] = useState<BudgetFit | null>(null);
+
+  // Results are sized against the wall they were solved for
+  useEffect(() => { setFit(null); }, [budget, fixHeight, backlight, panelState.enabledWidths, panelState.enabledHeights, panelState.material, panelState.layoutMode, panelState.fillerMode]);
+
+  const handleSolve = () => {
+    setSolving(true);
+    setTimeout(() => {
+      setFit(fitBudget(panelState, {
+        budget,
+        fixedHeight: fixHeight ? panelState.wallH : undefined,
+        backlight: backlight ?? undefined,
+      }));
+      setSolving(false);
+    }, 30);
+  };
+
+  const isCurrent = (p: Partial<PanelState>) =>
+    p.wallW === panelState.wallW && p.wallH === panelState.wallH &&
+    p.backlight === panelState.backlight && (!p.backlight || p.backlightMode === panelState.backlightMode);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 text-[12px]">
+        <span className="text-[#888]">$</span>
+        <input
+          type="number"
+          className="w-24 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[12px] text-right"
+          value={budget}
+          min={0}
+          step={1000}
+          onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) setBudget(v); }}
+        />
+        <span className="text-[#888]">budget</span>
+        <button
+          className={`ml-auto px-2 py-1 text-[11px] border rounded transition-all ${fixHeight ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+          onClick={() => setFixHeight(!fixHeight)}
+          title="Keep the wall height and only narrow the panel field"
+        >
+          Fix {fmtFt(panelState.wallH)} height
+        </button>
+      </div>
+      <div className="flex gap-1 mb-2">
+        {([null, 'none', 'solid', 'programmable'] as const).map(b => (
+          <button
+            key={b ?? 'any'}
+            className={`flex-1 py-1 text-[11px] border rounded transition-all ${backlight === b ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+            onClick={() => setBacklight(b)}
+          >
+            {b ? BUDGET_BACKLIGHT_LABELS[b] : 'Any light'}
+          </button>
+        ))}
+      </div>
+
+      <button
+        className="w-full py-2 text-[13px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all disabled:opacity-50"
+        onClick={handleSolve}
+        disabled={solving || budget <= 0}
+      >
+        {solving ? 'Searching…' : `Find designs under ${fmtUsd(budget)}`}
+      </button>
+
+      {fit && (
+        <div className="mt-2">
+          {fit.note && <div className="mb-1 text-[10px] text-[#ff6b6b]">{fit.note}</div>}
+          {fit.options.map((o, i) => (
+            <div key={i} className="flex items-center gap-2 mb-1 p-1.5 bg-[rgba(74,158,255,0.06)] border border-[#3a3a3e] rounded text-[11px]">
+              <div className="flex-1 min-w-0">
+                <div className="text-[#e0e0e0]">
+                  {fmtFt(o.params.wallW!)} × {fmtFt(o.params.wallH!)}
+                  <span className="text-[#888]"> · {BUDGET_BACKLIGHT_LABELS[o.backlight]}</span>
+                </div>
+                <div className="text-[10px] text-[#888] font-mono">
+                  {o.coveragePct.toFixed(0)}% of wall · {o.layout} · {fmtUsd(o.estimatedTotal)}
+                </div>
+              </div>
+              <button
+                className="px-2 py-1 text-[11px] border border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0] rounded hover:bg-[rgba(74,158,255,0.25)] transition-all disabled:opacity-50"
+                onClick={() => onStateChange(o.params)}
+                disabled={isCurrent(o.params)}
+              >
+                {isCurrent(o.params) ? 'Current' : 'Apply'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,24 @@
 import { useEffect, useRef, useCallback } from 'react';
-import type { PanelState } from '../engine/types';
-import { render2d } from '../engine/render2d';
+import type { PanelState, KeepOut } from '../engine/types';
+import { render2d, renderDrcMarkers } from '../engine/render2d';
+import type { DrcReport } from '../engine/drc';
+import { keepOutContains } from '../engine/keepOuts';
 
 interface Canvas2DProps {
   panelState: PanelState;
+  onStateChange: (updates: Partial<PanelState>) => void;
+  drc: DrcReport;
 }
 
-export default function Canvas2D({ panelState }: Canvas2DProps) {
+export default function Canvas2D({ panelState, onStateChange, drc }: Canvas2DProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const camRef = useRef({ x: 0, y: 0, zoom: 1 });
   const panRef = useRef({ isPanning: false, startX: 0, startY: 0, camX: 0, camY: 0 });
   const zoomInfoRef = useRef<HTMLDivElement>(null);
+  // Keep-out drag: zones move locally while dragging and commit (and recompute holes) on release
+  const dragRef = useRef<{ id: string; startX: number; startY: number; zoneX: number; zoneY: number } | null>(null);
+  const draftKeepOutsRef = useRef<KeepOut[] | null>(null);
 
   const resetView = useCallback(() => {
     const container = containerRef.current;
@@ -37,8 +44,11 @@ export default function Canvas2D({ panelState }: Canvas2DProps) {
     canvas.width = container.clientWidth;
     canvas.height = container.clientHeight;
     const cam = camRef.current;
-    render2d(canvas, panelState, cam.x, cam.y, cam.zoom);
-  }, [panelState]);
+    const draft = draftKeepOutsRef.current;
+    render2d(canvas, draft ? { ...panelState, keepOuts: draft } : panelState, cam.x, cam.y, cam.zoom);
+    // Markers belong to the committed holes, so hide them while a zone is being dragged
+    if (!draft) renderDrcMarkers(canvas, panelState, drc, cam.x, cam.y, cam.zoom);
+  }, [panelState, drc]);
 
   // Reset view on wall dimension change
   useEffect(() => {
@@ -71,11 +81,25 @@ export default function Canvas2D({ panelState }: Canvas2DProps) {
     return () => canvas.removeEventListener('wheel', handleWheel);
   }, [doRender]);
 
-  // Pan
+  // Pan, or drag a keep-out zone when the press lands on one
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const zoneAt = (e: MouseEvent): KeepOut | undefined => {
+      const rect = canvas.getBoundingClientRect();
+      const cam = camRef.current;
+      const wx = (e.clientX - rect.left - cam.x) / cam.zoom;
+      const wy = (e.clientY - rect.top - cam.y) / cam.zoom;
+      const tolerance = 4 / cam.zoom;
+      return [...panelState.keepOuts].reverse().find(z => keepOutContains(z, wx, wy, tolerance));
+    };
     const handleDown = (e: MouseEvent) => {
+      const zone = zoneAt(e);
+      if (zone) {
+        dragRef.current = { id: zone.id, startX: e.clientX, startY: e.clientY, zoneX: zone.x, zoneY: zone.y };
+        draftKeepOutsRef.current = panelState.keepOuts;
+        return;
+      }
       panRef.current = {
         isPanning: true,
         startX: e.clientX,
@@ -85,13 +109,33 @@ export default function Canvas2D({ panelState }: Canvas2DProps) {
       };
     };
     const handleMove = (e: MouseEvent) => {
-      if (!panRef.current.isPanning) return;
+      const drag = dragRef.current;
+      if (drag) {
+        const zoom = camRef.current.zoom;
+        // Snap to 1/4" so dimensions stay shop-friendly
+        const snap = (v: number) => Math.round(v * 4) / 4;
+        const x = snap(drag.zoneX + (e.clientX - drag.startX) / zoom);
+        const y = snap(drag.zoneY + (e.clientY - drag.startY) / zoom);
+        draftKeepOutsRef.current = panelState.keepOuts.map(z => (z.id === drag.id ? { ...z, x, y } : z));
+        doRender();
+        return;
+      }
+      if (!panRef.current.isPanning) {
+        if (e.target === canvas) canvas.style.cursor = zoneAt(e) ? 'move' : '';
+        return;
+      }
       camRef.current.x = panRef.current.camX + (e.clientX - panRef.current.startX);
       camRef.current.y = panRef.current.camY + (e.clientY - panRef.current.startY);
       doRender();
     };
     const handleUp = () => {
       panRef.current.isPanning = false;
+      if (dragRef.current) {
+        dragRef.current = null;
+        const draft = draftKeepOutsRef.current;
+        draftKeepOutsRef.current = null;
+        if (draft && draft !== panelState.keepOuts) onStateChange({ keepOuts: draft });
+      }
     };
     canvas.addEventListener('mousedown', handleDown);
     window.addEventListener('mousemove', handleMove);
@@ -101,7 +145,7 @@ export default function Canvas2D({ panelState }: Canvas2DProps) {
       window.removeEventListener('mousemove', handleMove);
       window.removeEventListener('mouseup', handleUp);
     };
-  }, [doRender]);
+  }, [doRender, panelState.keepOuts, onStateChange]);
 
   // Resize
   useEffect(() => {
@@ -1,13 +1,30 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { PanelState } from '../engine/types';
-import { STANDARD_WIDTHS, STANDARD_HEIGHTS, STANDARD_HOLE_SIZES } from '../engine/types';
-import { computeStats, buildRenderPrompt, RATE_PANEL_PER_SF } from '../engine/panelEngine';
-import { exportDXF, exportPNG, exportShopDrawingPDF } from '../engine/exportEngine';
+import type { PanelState, KeepOut, StockSheet } from '../engine/types';
+import { STANDARD_WIDTHS, STANDARD_HEIGHTS, STANDARD_HOLE_SIZES, DEFAULT_STOCK_SHEETS } from '../engine/types';
+import { computeStats, buildRenderPrompt, describePanelCount } from '../engine/panelEngine';
+import { PRICING, materialRate } from '../engine/pricing';
+import { MATERIALS, getMaterial, materialWeightPerSF } from '../engine/materials';
+import { DRC_RULE_LABELS, type DrcReport } from '../engine/drc';
+import { exportDXF, exportSVG, exportSheetSVGs, exportPNG, exportShopDrawingPDF, exportBatchZip, exportBomCSV, exportBomXlsx, DEFAULT_SVG_OPTIONS } from '../engine/exportEngine';
+import type { SvgOptions } from '../engine/exportEngine';
+import { KEEP_OUT_PRESETS, createKeepOut } from '../engine/keepOuts';
+import { WALL_POLYGON_PRESETS } from '../engine/wallOutline';
+import { PROJECT_EXTENSION } from '../engine/project';
+import { CONTINUOUS_CHANGE, type ChangeOrigin, type DesignHistory } from '../engine/history';
+import { nestPanels } from '../engine/nesting';
+import type { NestedSheet } from '../engine/nesting';
+import GcodePanel from './GcodePanel';
+import TargetSolverPanel from './TargetSolverPanel';
+import BudgetSolverPanel from './BudgetSolverPanel';
+import QuotePanel from './QuotePanel';
+import HistoryPanel from './HistoryPanel';
+import type { DxfVersion } from '../engine/dxf';
 
 interface ControlPanelProps {
   panelState: PanelState;
-  onStateChange: (updates: Partial<PanelState>) => void;
-  onImageLoad: (file: File) => void;
+  onStateChange: (updates: Partial<PanelState>, origin?: ChangeOrigin) => void;
+  drc: DrcReport;
+  onImageLoad: (file: File, imageName: string) => void;
   onImageClear: () => void;
   floorEnabled: boolean;
   onFloorEnabledChange: (enabled: boolean) => void;
@@ -21,6 +38,11 @@ interface ControlPanelProps {
   cameraRef: React.RefObject<unknown>;
   activeTab: '2d' | '3d' | 'guide';
   onOpenAskMara: () => void;
+  onProjectSave: () => void;
+  onProjectOpen: (file: File) => Promise<void>;
+  history: DesignHistory;
+  onHistoryJump: (index: number) => void;
+  autosaveError: string | null;
 }
 
 function Section({ title, children, defaultOpen = true }: { title: string; children: React.ReactNode; defaultOpen?: boolean }) {
@@ -87,6 +109,31 @@ function Toggle({ label, checked, onChange }: { label: string; checked: boolean;
   );
 }
 
+// A, B … Z, then AA, AB …
+function nextRevisionLabel(count: number): string {
+  return count < 26 ? String.fromCharCode(65 + count) : String.fromCharCode(64 + Math.floor(count / 26)) + String.fromCharCode(65 + (count % 26));
+}
+
+function NumberField({
+  label, value, step = 0.25, min, onChange,
+}: {
+  label: string; value: number; step?: number; min?: number; onChange: (v: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-[11px]">
+      <span className="text-[#888] w-4 shrink-0">{label}</span>
+      <input
+        type="number"
+        className="w-full min-w-0 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1 py-0.5 text-[11px] text-right"
+        value={+value.toFixed(3)}
+        step={step}
+        min={min}
+        onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) onChange(v); }}
+      />
+    </label>
+  );
+}
+
 function SizeToggleGroup({
   sizes, enabled, onChange, formatLabel,
 }: {
@@ -130,6 +177,57 @@ function SizeToggleGroup({
   );
 }
 
+// Thumbnail of one nested stock sheet: panels in blue, drops left dark
+function SheetPreview({ nested }: { nested: NestedSheet }) {
+  const { sheet, placements } = nested;
+  const scale = 56 / Math.max(sheet.w, sheet.h);
+  return (
+    <svg width={sheet.w * scale} height={sheet.h * scale} className="shrink-0 bg-[#1c1c20] border border-[#3a3a3e]">
+      {placements.map(p => (
+        <g key={p.index}>
+          <rect
+            x={p.x * scale} y={p.y * scale} width={p.w * scale} height={p.h * scale}
+            fill="rgba(74,158,255,0.25)" stroke="#4a9eff" strokeWidth={0.5}
+          />
+          {p.w * scale > 14 && p.h * scale > 8 && (
+            <text x={(p.x + p.w / 2) * scale} y={(p.y + p.h / 2) * scale} fontSize={6} fill="#ccc" textAnchor="middle" dominantBaseline="middle">
+              {p.label}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+const LAYOUT_MODE_LABELS: Record<PanelState['layoutMode'], string> = {
+  grid: 'Grid',
+  'running-bond': 'Running Bond',
+  'vertical-stack': 'Stacked',
+};
+
+const FILLER_MODE_LABELS: Record<PanelState['fillerMode'], string> = {
+  none: 'Off',
+  single: 'One End',
+  symmetric: 'Both Ends',
+};
+
+const WALL_SHAPE_LABELS: Record<PanelState['wallShape'], string> = {
+  rect: 'Rectangle',
+  raked: 'Raked',
+  arch: 'Arch',
+  polygon: 'Polygon',
+};
+
+const GRID_PATTERN_LABELS: Record<PanelState['gridPattern'], string> = {
+  rect: 'Rectangular',
+  hex: 'Staggered',
+  stochastic: 'Scatter',
+  concentric: 'Rings',
+  spiral: 'Spiral',
+  radial: 'Sunburst',
+};
+
 // Density slider: 0 (sparse, 5" spacing) → 100 (dense, 1.25" spacing)
 const DENSITY_MIN_SPACING = 1.25;
 const DENSITY_MAX_SPACING = 5;
@@ -140,6 +238,7 @@ const spacingToDensity = (s: number) =>
 export default function ControlPanel({
   panelState,
   onStateChange,
+  drc,
   onImageLoad,
   onImageClear,
   floorEnabled,
@@ -154,20 +253,37 @@ export default function ControlPanel({
   cameraRef,
   activeTab,
   onOpenAskMara,
+  onProjectSave,
+  onProjectOpen,
+  history,
+  onHistoryJump,
+  autosaveError,
 }: ControlPanelProps) {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [exportTarget, setExportTarget] = useState('all');
+  const [dxfVersion, setDxfVersion] = useState<DxfVersion>('R2000');
+  const [svgOptions, setSvgOptions] = useState<SvgOptions>(DEFAULT_SVG_OPTIONS);
+  const [svgPerSheet, setSvgPerSheet] = useState(false);
+  const [zipping, setZipping] = useState(false);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [pdfBlocked, setPdfBlocked] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [revisionNote, setRevisionNote] = useState('');
+  const [showQuote, setShowQuote] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showSamples, setShowSamples] = useState(false);
+  const [projectError, setProjectError] = useState<string | null>(null);
 
   // FAL render state (moved from ChatPanel)
   const [rendering, setRendering] = useState(false);
   const [renderResult, setRenderResult] = useState<string | null>(null);
+  const [lastRender, setLastRender] = useState<string | null>(null);  // outlives the modal, for the client quote
   const [renderError, setRenderError] = useState<string | null>(null);
   const [renderProgress, setRenderProgress] = useState(0);
   const [renderStartTime, setRenderStartTime] = useState<number | null>(null);
   const [renderExtraPrompt, setRenderExtraPrompt] = useState('');
   const [showRenderOptions, setShowRenderOptions] = useState(false);
+  const [showGcode, setShowGcode] = useState(false);
   const renderTimerRef = useRef<ReturnType<typeof setInterval>>(undefined);
 
   const RENDER_PRESETS = [
@@ -200,6 +316,8 @@ export default function ControlPanel({
   }, [rendering, renderStartTime]);
 
   const stats = computeStats(panelState);
+  const material = getMaterial(panelState.material);
+  const nesting = nestPanels(panelState.panels, panelState.stockSheets, panelState.sawKerf);
 
   const handleImageUpload = useCallback(async (file: File) => {
     const dataUrl = await new Promise<string>((resolve) => {
@@ -208,9 +326,18 @@ export default function ControlPanel({
       reader.readAsDataURL(file);
     });
     setImagePreview(dataUrl);
-    onStateChange({ imageName: file.name.replace(/\.[^.]+$/, '') });
-    onImageLoad(file);
-  }, [onImageLoad, onStateChange]);
+    onImageLoad(file, file.name.replace(/\.[^.]+$/, ''));
+  }, [onImageLoad]);
+
+  const handleProjectFile = useCallback(async (file: File) => {
+    setProjectError(null);
+    try {
+      await onProjectOpen(file);
+      setImagePreview(null);
+    } catch (err: unknown) {
+      setProjectError(err instanceof Error ? err.message : 'Could not open project');
+    }
+  }, [onProjectOpen]);
 
   const handleClearImage = useCallback(() => {
     setImagePreview(null);
@@ -235,15 +362,14 @@ export default function ControlPanel({
         if (!blob) return;
         const file = new File([blob], filename, { type: 'image/jpeg' });
         setImagePreview(`/samples/${filename}`);
-        onStateChange({ imageName: label });
-        onImageLoad(file);
+        onImageLoad(file, label);
       }, 'image/jpeg', 0.92);
     };
     img.src = `/samples/${filename}`;
-  }, [onImageLoad, onStateChange]);
+  }, [onImageLoad]);
 
   const fmtPrice = (n: number) =>
-    '$' + n.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+    (n < 0 ? '−$' : '$') + Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
 
   const getExportPanels = () => {
     return exportTarget === 'all'
@@ -265,10 +391,38 @@ export default function ControlPanel({
     }
   };
 
-  const handleExportPDF = () => {
+  // Designs with fabrication errors need an explicit second click; the set is then stamped
+  const handleExportPDF = (force = false) => {
+    if (drc.errors > 0 && !force) {
+      setPdfBlocked(true);
+      return;
+    }
+    setPdfBlocked(false);
     exportShopDrawingPDF(panelState);
   };
 
+  const addRevision = () => {
+    const description = revisionNote.trim();
+    if (!description) return;
+    const date = new Date().toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' });
+    onStateChange({
+      revisions: [...panelState.revisions, { rev: nextRevisionLabel(panelState.revisions.length), date, description }],
+    });
+    setRevisionNote('');
+  };
+
+  const handleExportZip = async () => {
+    setZipping(true);
+    setZipError(null);
+    try {
+      await exportBatchZip(panelState, dxfVersion);
+    } catch (err: unknown) {
+      setZipError(err instanceof Error ? err.message : 'ZIP export failed');
+    } finally {
+      setZipping(false);
+    }
+  };
+
   // Capture screenshot of 3D viewport for FAL
   const captureScreenshot = useCallback((): string | null => {
     const renderer = rendererRef.current as { render: (s: unknown, c: unknown) => void; domElement: HTMLCanvasElement } | null;
@@ -327,6 +481,7 @@ export default function ControlPanel({
       if (!res.ok) throw new Error((data.error as string) || 'Render failed');
       setRenderProgress(100);
       setRenderResult(data.imageUrl as string);
+      setLastRender(data.imageUrl as string);
     } catch (err: unknown) {
       setRenderError(err instanceof Error ? err.message : 'Render failed');
     } finally {
@@ -335,10 +490,13 @@ export default function ControlPanel({
     }
   }, [falKey, serverHasFalKey, panelState, captureScreenshot, renderExtraPrompt]);
 
+  // Slider drags, colour picks and typing land in the history as one step per gesture
+  const onContinuousChange = (updates: Partial<PanelState>) => onStateChange(updates, CONTINUOUS_CHANGE);
+
   const density = spacingToDensity(panelState.spacingX);
   const handleDensityChange = (d: number) => {
     const sp = densityToSpacing(d);
-    onStateChange({ spacingMode: 'spacing', spacingX: sp, spacingY: sp, lockRatio: true });
+    onContinuousChange({ spacingMode: 'spacing', spacingX: sp, spacingY: sp, lockRatio: true });
   };
 
   return (
@@ -362,6 +520,43 @@ export default function ControlPanel({
       </div>
 
       <div className="flex-1 overflow-y-auto">
+        {/* Project file */}
+        <Section title="Project">
+          <div className="flex gap-2">
+            <button
+              className="flex-1 py-1.5 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
+              onClick={() => document.getElementById('perf-project-input')?.click()}
+              title="Open a .perfpanel project"
+            >
+              Open…
+            </button>
+            <button
+              className="flex-1 py-1.5 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
+              onClick={onProjectSave}
+              title="Design, source image, scene and Ask Mara chat in one .perfpanel file"
+            >
+              Save
+            </button>
+          </div>
+          <input
+            type="file"
+            id="perf-project-input"
+            accept={`${PROJECT_EXTENSION},application/json`}
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.length) handleProjectFile(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+          {projectError && <div className="mt-2 text-[11px] text-[#ff6b6b]">{projectError}</div>}
+          {autosaveError && <div className="mt-2 text-[11px] text-[#ffb020]">{autosaveError}</div>}
+        </Section>
+
+        {/* Undo history */}
+        <Section title="History" defaultOpen={false}>
+          <HistoryPanel history={history} onJump={onHistoryJump} />
+        </Section>
+
         {/* Source Image */}
         <Section title="Source Image">
           <div
@@ -447,7 +642,7 @@ export default function ControlPanel({
                 className="w-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[13px] text-right"
                 value={panelState.wallW / 12}
                 min={1} max={200} step={0.5}
-                onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v) && v > 0) onStateChange({ wallW: v * 12 }); }}
+                onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v) && v > 0) onContinuousChange({ wallW: v * 12 }); }}
               />
             </label>
             <label className="flex items-center justify-between flex-1 text-[13px]">
@@ -457,10 +652,76 @@ export default function ControlPanel({
                 className="w-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[13px] text-right"
                 value={panelState.wallH / 12}
                 min={1} max={200} step={0.5}
-                onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v) && v > 0) onStateChange({ wallH: v * 12 }); }}
+                onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v) && v > 0) onContinuousChange({ wallH: v * 12 }); }}
               />
             </label>
           </div>
+          <div className="flex items-center justify-between mt-3 mb-1 text-[13px]">
+            <span className="text-[#e0e0e0]">Shape</span>
+            <div className="flex gap-1">
+              {(['rect', 'raked', 'arch', 'polygon'] as const).map(shape => (
+                <button
+                  key={shape}
+                  className={`px-2 py-1 text-[11px] border rounded transition-all ${
+                    panelState.wallShape === shape
+                      ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]'
+                      : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'
+                  }`}
+                  onClick={() => onStateChange(
+                    shape === 'polygon' && panelState.wallPolygon.length < 3
+                      ? { wallShape: shape, wallPolygon: WALL_POLYGON_PRESETS[0].points(panelState.wallW, panelState.wallH) }
+                      : { wallShape: shape },
+                  )}
+                >
+                  {WALL_SHAPE_LABELS[shape]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {panelState.wallShape === 'raked' && (
+            <>
+              <Slider label="Left Height (ft)" value={panelState.rakeLeftH / 12} min={0} max={panelState.wallH / 12} step={0.25}
+                format={v => `${v.toFixed(2)}'`}
+                onChange={v => onContinuousChange({ rakeLeftH: v * 12 })} />
+              <Slider label="Right Height (ft)" value={panelState.rakeRightH / 12} min={0} max={panelState.wallH / 12} step={0.25}
+                format={v => `${v.toFixed(2)}'`}
+                onChange={v => onContinuousChange({ rakeRightH: v * 12 })} />
+            </>
+          )}
+          {panelState.wallShape === 'arch' && (
+            <Slider label="Arch Rise (ft)" value={panelState.archRise / 12} min={0}
+              max={Math.min(panelState.wallH, panelState.wallW / 2) / 12} step={0.25}
+              format={v => `${v.toFixed(2)}'`}
+              onChange={v => onContinuousChange({ archRise: v * 12 })} />
+          )}
+          {panelState.wallShape === 'polygon' && (
+            <div className="mt-1">
+              <div className="flex gap-1 mb-1.5">
+                {WALL_POLYGON_PRESETS.map(preset => (
+                  <button
+                    key={preset.name}
+                    className="px-2 py-1 text-[11px] border border-[#3a3a3e] bg-[#2a2a2e] text-[#888] rounded hover:text-[#e0e0e0] hover:border-[#4a9eff] transition-all"
+                    onClick={() => onStateChange({ wallPolygon: preset.points(panelState.wallW, panelState.wallH) })}
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                key={panelState.wallPolygon.join(';')}
+                className="w-full h-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#ccc] rounded px-1.5 py-1 text-[10px] font-mono outline-none resize-none"
+                defaultValue={panelState.wallPolygon.map(([x, y]) => `${+x.toFixed(2)},${+y.toFixed(2)}`).join('; ')}
+                title="Outline vertices in inches from the top-left corner: x,y; x,y; …"
+                onBlur={e => {
+                  const points = e.target.value.split(';')
+                    .map(pair => pair.split(',').map(Number) as [number, number])
+                    .filter(pt => pt.length === 2 && pt.every(n => !isNaN(n)));
+                  if (points.length >= 3) onStateChange({ wallPolygon: points });
+                }}
+              />
+              <p className="text-[10px] text-[#666]">Inches from the top-left corner, y down. Panels crossing the outline are trimmed.</p>
+            </div>
+          )}
         </Section>
 
         {/* Pattern — density + grid pattern */}
@@ -473,10 +734,10 @@ export default function ControlPanel({
             onChange={handleDensityChange}
             info={`Hole spacing: ${densityToSpacing(density).toFixed(2)}"`}
           />
-          <div className="flex items-center justify-between mt-3 mb-1 text-[13px]">
-            <span className="text-[#e0e0e0]">Grid</span>
-            <div className="flex gap-1">
-              {(['rect', 'hex'] as const).map(p => (
+          <div className="flex items-start justify-between mt-3 mb-1 text-[13px]">
+            <span className="text-[#e0e0e0] pt-1">Grid</span>
+            <div className="flex gap-1 flex-wrap justify-end max-w-[240px]">
+              {(['rect', 'hex', 'stochastic', 'concentric', 'spiral', 'radial'] as const).map(p => (
                 <button
                   key={p}
                   className={`px-2.5 py-1 text-[11px] border rounded transition-all ${
@@ -486,11 +747,99 @@ export default function ControlPanel({
                   }`}
                   onClick={() => onStateChange({ gridPattern: p })}
                 >
-                  {p === 'rect' ? 'Rectangular' : 'Staggered'}
+                  {GRID_PATTERN_LABELS[p]}
                 </button>
               ))}
             </div>
           </div>
+          {(panelState.gridPattern === 'rect' || panelState.gridPattern === 'hex') && (
+            <div className="mt-2">
+              <Toggle
+                label="Continuous across seams"
+                checked={panelState.gridAnchor === 'wall'}
+                onChange={v => onStateChange({ gridAnchor: v ? 'wall' : 'panel' })}
+              />
+            </div>
+          )}
+          {(panelState.gridPattern === 'concentric' || panelState.gridPattern === 'spiral' || panelState.gridPattern === 'radial') && (
+            <div className="mt-2">
+              <Slider label="Center X" value={Math.round(panelState.patternCenterU * 100)} min={0} max={100} step={1}
+                format={v => `${v}%`} onChange={v => onContinuousChange({ patternCenterU: v / 100 })} />
+              <Slider label="Center Y" value={Math.round(panelState.patternCenterV * 100)} min={0} max={100} step={1}
+                format={v => `${v}%`} onChange={v => onContinuousChange({ patternCenterV: v / 100 })} />
+            </div>
+          )}
+          {panelState.gridPattern === 'stochastic' && (
+            <div className="flex items-center justify-between mt-2 text-[13px]">
+              <span className="text-[#888]">Seed</span>
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="number"
+                  className="w-20 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[13px] text-right"
+                  value={panelState.stochasticSeed}
+                  min={0} step={1}
+                  onChange={e => { const v = parseInt(e.target.value); if (!isNaN(v)) onContinuousChange({ stochasticSeed: v }); }}
+                />
+                <button
+                  className="px-2 py-1 text-[11px] border border-[#3a3a3e] bg-[#2a2a2e] text-[#888] rounded hover:text-[#e0e0e0] hover:border-[#4a9eff] transition-all"
+                  onClick={() => onStateChange({ stochasticSeed: Math.floor(Math.random() * 100000) })}
+                  title="Pick a new random scatter"
+                >
+                  Reseed
+                </button>
+              </div>
+            </div>
+          )}
+        </Section>
+
+        {/* Material — sheet good, fabrication limits and rate */}
+        <Section title="Material">
+          <select
+            className="w-full mb-2 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-2 py-1.5 text-[13px]"
+            value={material.id}
+            onChange={e => onStateChange({ material: e.target.value, panelColor: getMaterial(e.target.value).appearance.color })}
+          >
+            {MATERIALS.map(m => (
+              <option key={m.id} value={m.id}>{m.name} — ${materialRate(m.id)}/SF</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[11px] font-mono text-[#888]">
+            <span>Thickness {material.thickness}"</span>
+            <span>{materialWeightPerSF(material).toFixed(2)} lb/SF</span>
+            <span>Min hole {material.minHole}"</span>
+            <span>Min web {material.minWeb}"</span>
+            <span>Max open {material.maxOpenAreaPct}%</span>
+            <span>${materialRate(material.id)}/SF</span>
+          </div>
+        </Section>
+
+        {/* Fabrication Check — design rules against the selected material */}
+        <Section title="Fabrication Check">
+          {drc.violations.length === 0 ? (
+            <div className="text-[12px] text-[#888]">
+              {stats.totalHoles ? `✓ All ${stats.totalHoles.toLocaleString()} holes pass the ${material.name} rules` : 'No holes to check'}
+            </div>
+          ) : (
+            <>
+              <div className="mb-2 text-[12px]">
+                {drc.errors > 0 && <span className="text-[#ff6b6b]">{drc.errors} error{drc.errors === 1 ? '' : 's'}</span>}
+                {drc.errors > 0 && drc.warnings > 0 && <span className="text-[#666]"> · </span>}
+                {drc.warnings > 0 && <span className="text-[#ffb020]">{drc.warnings} warning{drc.warnings === 1 ? '' : 's'}</span>}
+                <span className="text-[#666]"> · marked in the 2D view</span>
+              </div>
+              <div className="max-h-48 overflow-y-auto space-y-1.5">
+                {drc.violations.map((v, i) => (
+                  <div key={i} className="flex gap-2 text-[11px] leading-snug">
+                    <span className={`mt-1 w-1.5 h-1.5 rounded-full shrink-0 ${v.severity === 'error' ? 'bg-[#ff6b6b]' : 'bg-[#ffb020]'}`} />
+                    <div className="min-w-0">
+                      <div className="text-[#e0e0e0]">{v.panel} · {DRC_RULE_LABELS[v.rule]}</div>
+                      <div className="text-[#888]">{v.message}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
         </Section>
 
         {/* Appearance — colors + backlight */}
@@ -501,7 +850,7 @@ export default function ControlPanel({
               type="color"
               className="w-8 h-6 border border-[#3a3a3e] rounded cursor-pointer bg-transparent p-0.5"
               value={panelState.panelColor}
-              onChange={e => onStateChange({ panelColor: e.target.value })}
+              onChange={e => onContinuousChange({ panelColor: e.target.value })}
             />
           </label>
           <label className="flex items-center justify-between mb-2 text-[13px]">
@@ -510,7 +859,7 @@ export default function ControlPanel({
               type="color"
               className="w-8 h-6 border border-[#3a3a3e] rounded cursor-pointer bg-transparent p-0.5"
               value={panelState.bgColor}
-              onChange={e => onStateChange({ bgColor: e.target.value })}
+              onChange={e => onContinuousChange({ bgColor: e.target.value })}
             />
           </label>
           <Toggle label="Backlight" checked={panelState.backlight} onChange={v => onStateChange({ backlight: v })} />
@@ -522,11 +871,11 @@ export default function ControlPanel({
                   type="color"
                   className="w-8 h-6 border border-[#3a3a3e] rounded cursor-pointer bg-transparent p-0.5"
                   value={panelState.backlightColor}
-                  onChange={e => onStateChange({ backlightColor: e.target.value })}
+                  onChange={e => onContinuousChange({ backlightColor: e.target.value })}
                 />
               </label>
               <Slider label="Intensity" value={panelState.backlightIntensity} min={0} max={2} step={0.05}
-                format={v => v.toFixed(1)} onChange={v => onStateChange({ backlightIntensity: v })} />
+                format={v => v.toFixed(1)} onChange={v => onContinuousChange({ backlightIntensity: v })} />
             </>
           )}
         </Section>
@@ -548,38 +897,37 @@ export default function ControlPanel({
               <span className="text-[10px] font-mono text-[#555]">{stats.panelSF > 0 ? `${stats.panelSF.toFixed(0)} SF` : '—'}</span>
             </div>
 
-            {/* Line items */}
+            {/* Line items — straight from the pricing rules */}
             <div className="divide-y divide-[#2a2a2e]">
-              <div className="px-3 py-2 flex items-baseline justify-between text-[12px]">
-                <div className="flex flex-col">
-                  <span className="text-[#e0e0e0]">Perforated panels</span>
-                  <span className="text-[10px] font-mono text-[#666]">
-                    {stats.panelSF > 0 ? `${stats.panelSF.toFixed(0)} SF × $${RATE_PANEL_PER_SF}/SF` : `$${RATE_PANEL_PER_SF}/SF`}
-                  </span>
-                </div>
-                <span className="text-[#e0e0e0] font-mono font-semibold shrink-0">
-                  {stats.panelCost > 0 ? fmtPrice(stats.panelCost) : '—'}
-                </span>
-              </div>
-
-              {panelState.backlight && (
-                <div className="px-3 py-2 flex items-baseline justify-between text-[12px]">
+              {stats.priceLines.map(line => (
+                <div key={line.label} className="px-3 py-2 flex items-baseline justify-between text-[12px]">
                   <div className="flex flex-col">
-                    <span className="text-[#e0e0e0]">
-                      {stats.backlightType === 'programmable' ? 'Programmable RGB backlight' : 'RGB backlight'}
-                    </span>
-                    <span className="text-[10px] font-mono text-[#666]">
-                      {stats.panelSF > 0 ? `${stats.panelSF.toFixed(0)} SF × $${stats.backlightRate}/SF` : `$${stats.backlightRate}/SF`}
-                      {stats.backlightType === 'programmable' ? ' · gradient/DMX' : ' · solid'}
-                    </span>
+                    <span className="text-[#e0e0e0]">{line.label}</span>
+                    <span className="text-[10px] font-mono text-[#666]">{line.detail}</span>
                   </div>
                   <span className="text-[#e0e0e0] font-mono font-semibold shrink-0">
-                    {stats.backlightCost > 0 ? fmtPrice(stats.backlightCost) : '—'}
+                    {line.amount !== 0 ? fmtPrice(line.amount) : '—'}
                   </span>
                 </div>
-              )}
+              ))}
             </div>
 
+            {PRICING.discounts.length > 0 && (
+              <div className="px-3 py-1.5 border-t border-[#2a2a2e] flex items-center justify-between text-[11px] text-[#888]">
+                <span>Discount</span>
+                <select
+                  className="bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-0.5 text-[11px]"
+                  value={panelState.discount}
+                  onChange={e => onStateChange({ discount: e.target.value })}
+                >
+                  <option value="">None</option>
+                  {PRICING.discounts.map(d => (
+                    <option key={d.id} value={d.id}>{d.label} ({d.pct}%)</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Total */}
             <div className="px-3 py-2.5 bg-[rgba(74,158,255,0.06)] border-t border-[#3a3a3e] flex items-center justify-between">
               <span className="text-[12px] font-semibold text-[#e0e0e0]">Estimated Total</span>
@@ -594,7 +942,7 @@ export default function ControlPanel({
           </p>
         </div>
 
-        {/* Export — DXF / PNG / PDF + Render */}
+        {/* Export — DXF / SVG / PNG / PDF + Render */}
         <Section title="Export">
           <select
             className="w-full mb-2 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-2 py-1.5 text-[13px]"
@@ -606,13 +954,53 @@ export default function ControlPanel({
               <option key={p.label} value={p.label}>Panel {p.label} ({p.sizeLabel})</option>
             ))}
           </select>
+          <div className="flex items-center gap-1 mb-2">
+            <span className="text-[11px] text-[#888] w-16 shrink-0">SVG kerf</span>
+            <div className="w-16">
+              <NumberField label="" value={svgOptions.kerf} step={0.002} min={0} onChange={kerf => setSvgOptions({ ...svgOptions, kerf: Math.max(0, kerf) })} />
+            </div>
+            <span className="text-[11px] text-[#666] mr-1">in</span>
+            <button
+              className={`px-2 py-1 text-[11px] border rounded transition-all ${svgOptions.centerMarks ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+              onClick={() => setSvgOptions({ ...svgOptions, centerMarks: !svgOptions.centerMarks })}
+              title="Crosshairs at hole centers for drilling instead of cut outlines"
+            >
+              Center marks
+            </button>
+            <button
+              className={`px-2 py-1 text-[11px] border rounded transition-all ${svgPerSheet ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+              onClick={() => setSvgPerSheet(!svgPerSheet)}
+              title="One SVG per stock sheet from the nesting plan, with engraved labels"
+            >
+              Per sheet
+            </button>
+          </div>
+          <div className="flex items-center gap-1 mb-2">
+            <span className="text-[11px] text-[#888] w-16 shrink-0">DXF format</span>
+            {(['R2000', 'R12'] as const).map(v => (
+              <button
+                key={v}
+                className={`px-2 py-1 text-[11px] border rounded transition-all ${dxfVersion === v ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+                onClick={() => setDxfVersion(v)}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
           <div className="flex gap-2 mb-2">
             <button
               className="flex-1 py-2 text-[13px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
-              onClick={() => exportDXF(panelState, getExportPanels())}
+              onClick={() => exportDXF(panelState, getExportPanels(), dxfVersion)}
             >
               DXF
             </button>
+            <button
+              className="flex-1 py-2 text-[13px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
+              onClick={() => svgPerSheet ? exportSheetSVGs(panelState, svgOptions) : exportSVG(panelState, getExportPanels(), svgOptions)}
+              title={svgPerSheet ? 'One SVG per stock sheet (all panels)' : undefined}
+            >
+              SVG
+            </button>
             <button
               className="flex-1 py-2 text-[13px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
               onClick={handleExportPNG}
@@ -621,12 +1009,119 @@ export default function ControlPanel({
             </button>
             <button
               className="flex-1 py-2 text-[13px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
-              onClick={handleExportPDF}
-              title="Shop Drawing PDF (coming soon)"
+              onClick={() => handleExportPDF()}
+              title="Shop drawing set: elevation, panel key and one detail sheet per panel"
             >
               PDF
             </button>
           </div>
+          {pdfBlocked && drc.errors > 0 && (
+            <div className="mb-2 px-2 py-1.5 rounded bg-[#4a2a2a] text-[11px] text-[#ff6b6b]">
+              {drc.errors} fabrication error{drc.errors === 1 ? '' : 's'} — see Fabrication Check.{' '}
+              <button className="underline hover:text-[#e0e0e0]" onClick={() => handleExportPDF(true)}>
+                Export anyway
+              </button>{' '}
+              <span className="text-[#888]">(stamped NOT FOR FABRICATION)</span>
+            </div>
+          )}
+          <button
+            className="w-full mb-2 py-2 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all disabled:opacity-50"
+            onClick={handleExportZip}
+            disabled={zipping || !panelState.panels.some(p => p.holes.length)}
+            title="One DXF + SVG per panel, the full wall, hole schedule CSV and manifest"
+          >
+            {zipping ? 'Building ZIP…' : `ZIP — all ${panelState.panels.length} panels`}
+          </button>
+          {zipError && <div className="mb-2 text-[11px] text-[#ff6b6b]">{zipError}</div>}
+          <div className="flex gap-2 mb-2">
+            <button
+              className="flex-1 py-1.5 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
+              onClick={() => exportBomCSV(panelState)}
+              title="Bill of materials and hole schedule"
+            >
+              BOM CSV
+            </button>
+            <button
+              className="flex-1 py-1.5 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all"
+              onClick={() => exportBomXlsx(panelState)}
+              title="Line items, panels and hole schedule on separate tabs"
+            >
+              BOM XLSX
+            </button>
+          </div>
+          {/* Shop drawing revisions */}
+          <div className="mt-3 mb-2">
+            <button
+              onClick={() => setShowRevisions(!showRevisions)}
+              className="w-full flex items-center justify-between text-[10px] font-semibold text-[#888] uppercase tracking-wider mb-2 hover:text-[#ccc] transition-colors"
+            >
+              <span>Drawing Revisions {panelState.revisions.length > 0 && <span className="text-[#4a9eff] normal-case font-normal ml-1">· rev {panelState.revisions[panelState.revisions.length - 1].rev}</span>}</span>
+              <span className="text-[#666] text-[9px]">{showRevisions ? '\u25B2' : '\u25BC'}</span>
+            </button>
+            {showRevisions && (
+              <div>
+                {panelState.revisions.map((r, i) => (
+                  <div key={i} className="flex items-center gap-2 mb-1 text-[11px]">
+                    <span className="w-4 font-semibold text-[#e0e0e0]">{r.rev}</span>
+                    <span className="text-[#888] font-mono text-[10px]">{r.date}</span>
+                    <span className="flex-1 min-w-0 truncate text-[#ccc]" title={r.description}>{r.description}</span>
+                    <button
+                      className="w-4 text-[#888] hover:text-[#ff6b6b] text-sm leading-none"
+                      onClick={() => onStateChange({ revisions: panelState.revisions.filter((_, j) => j !== i) })}
+                      title="Remove revision"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <div className="flex gap-1 mt-1">
+                  <input
+                    className="flex-1 min-w-0 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-2 py-1 text-[11px] outline-none focus:border-[#4a9eff]"
+                    placeholder="Describe this revision…"
+                    value={revisionNote}
+                    onChange={e => setRevisionNote(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') addRevision(); }}
+                  />
+                  <button
+                    className="px-2 py-1 text-[11px] border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded hover:border-[#4a9eff] disabled:opacity-50"
+                    onClick={addRevision}
+                    disabled={!revisionNote.trim()}
+                  >
+                    Add rev {nextRevisionLabel(panelState.revisions.length)}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+          {/* Client quote */}
+          <div className="mt-3 mb-2">
+            <button
+              onClick={() => setShowQuote(!showQuote)}
+              className="w-full flex items-center justify-between text-[10px] font-semibold text-[#888] uppercase tracking-wider mb-2 hover:text-[#ccc] transition-colors"
+            >
+              <span>Client Quote {panelState.quote.issues.length > 0 && <span className="text-[#4a9eff] normal-case font-normal ml-1">· R{panelState.quote.issues[panelState.quote.issues.length - 1].revision}</span>}</span>
+              <span className="text-[#666] text-[9px]">{showQuote ? '\u25B2' : '\u25BC'}</span>
+            </button>
+            {showQuote && (
+              <QuotePanel
+                panelState={panelState}
+                onStateChange={onStateChange}
+                captureHero={captureScreenshot}
+                renderUrl={lastRender}
+              />
+            )}
+          </div>
+          {/* CNC G-code */}
+          <div className="mt-3 mb-2">
+            <button
+              onClick={() => setShowGcode(!showGcode)}
+              className="w-full flex items-center justify-between text-[10px] font-semibold text-[#888] uppercase tracking-wider mb-2 hover:text-[#ccc] transition-colors"
+            >
+              <span>CNC G-code</span>
+              <span className="text-[#666] text-[9px]">{showGcode ? '\u25B2' : '\u25BC'}</span>
+            </button>
+            {showGcode && <GcodePanel panelState={panelState} exportTarget={exportTarget} />}
+          </div>
           {/* Render scene options */}
           <div className="mt-3 mb-2">
             <button
@@ -723,7 +1218,7 @@ export default function ControlPanel({
                   className="w-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[13px] text-right"
                   value={panelState.panelGap}
                   min={0} max={4} step={0.0625}
-                  onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) onStateChange({ panelGap: v }); }}
+                  onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) onContinuousChange({ panelGap: v }); }}
                 />
               </label>
             </Section>
@@ -742,35 +1237,261 @@ export default function ControlPanel({
                 enabled={panelState.enabledHeights}
                 onChange={enabledHeights => onStateChange({ enabledHeights })}
               />
+              <div className="flex items-center justify-between mb-2 text-[12px]">
+                <span className="text-[#888]">Joints</span>
+                <div className="flex gap-1">
+                  {(['grid', 'running-bond', 'vertical-stack'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      className={`px-2 py-1 text-[11px] border rounded transition-all ${
+                        panelState.layoutMode === mode
+                          ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]'
+                          : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'
+                      }`}
+                      onClick={() => onStateChange({ layoutMode: mode, selectedLayoutIdx: 0 })}
+                    >
+                      {LAYOUT_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between mb-2 text-[12px]">
+                <span className="text-[#888]">Fillers</span>
+                <div className="flex gap-1">
+                  {(['none', 'single', 'symmetric'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      className={`px-2 py-1 text-[11px] border rounded transition-all ${
+                        panelState.fillerMode === mode
+                          ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]'
+                          : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'
+                      }`}
+                      onClick={() => onStateChange({ fillerMode: mode, selectedLayoutIdx: 0 })}
+                    >
+                      {FILLER_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {panelState.fillerMode !== 'none' && (
+                <>
+                  <Slider label="Filler Min (in)" value={panelState.fillerMin} min={1} max={24} step={0.5}
+                    onChange={v => onContinuousChange({ fillerMin: v, fillerMax: Math.max(v, panelState.fillerMax) })} />
+                  <Slider label="Filler Max (in)" value={panelState.fillerMax} min={1} max={48} step={0.5}
+                    onChange={v => onContinuousChange({ fillerMax: v, fillerMin: Math.min(v, panelState.fillerMin) })} />
+                  <p className="text-[10px] text-[#666] mb-2">Custom-cut panels close the strip left by stock sizes. Each carries a ${PRICING.customCutSurcharge} cut surcharge.</p>
+                </>
+              )}
               <div className="text-[11px] text-[#888] mb-1">Layout option</div>
               <select
                 className="w-full mb-2 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-2 py-1 text-[12px]"
                 value={panelState.selectedLayoutIdx}
                 onChange={e => onStateChange({ selectedLayoutIdx: parseInt(e.target.value) })}
               >
-                {panelState.layoutOptions.map((opt, i) => (
-                  <option key={i} value={i}>
-                    {opt.desc} — {opt.totalPanels} panels, {(opt.totalCoverage * 100).toFixed(1)}%
-                  </option>
-                ))}
+                {panelState.layoutOptions.map((opt, i) => {
+                  // Without yield ranking only the selected layout has been nested
+                  const yieldPct = opt.yieldPct ?? (i === panelState.selectedLayoutIdx ? nesting.yieldPct : undefined);
+                  return (
+                    <option key={i} value={i}>
+                      {opt.desc} — {opt.totalPanels} panels, {(opt.totalCoverage * 100).toFixed(1)}%{yieldPct !== undefined && `, ${yieldPct.toFixed(0)}% yield`}
+                    </option>
+                  );
+                })}
               </select>
               <Slider label="Margin (in)" value={panelState.margin} min={0} max={6} step={0.25}
-                onChange={v => onStateChange({ margin: v })} />
+                onChange={v => onContinuousChange({ margin: v })} />
               {panelState.panels.length > 0 && (
                 <div className="text-[11px] text-[#e0e0e0] mt-1.5 p-2 bg-[rgba(74,158,255,0.06)] border border-[#3a3a3e] rounded leading-relaxed">
-                  <span className="text-[#888]">Cols:</span> {panelState.colWidths.map(w => `${w}"`).join(' | ')}<br/>
-                  <span className="text-[#888]">Rows:</span> {panelState.rowHeights.map(h => `${h}"`).join(' | ')}<br/>
-                  <span className="text-[#4a9eff] font-semibold">{panelState.colWidths.length} x {panelState.rowHeights.length} = {panelState.panels.length} panels</span>
+                  <span className="text-[#888]">{panelState.layoutMode === 'running-bond' ? 'Cols (row A):' : 'Cols:'}</span> {panelState.colWidths.map(w => `${w}"`).join(' | ')}<br/>
+                  <span className="text-[#888]">{panelState.layoutMode === 'vertical-stack' ? 'Rows (col 1):' : 'Rows:'}</span> {panelState.rowHeights.map(h => `${h}"`).join(' | ')}<br/>
+                  <span className="text-[#4a9eff] font-semibold">
+                    {panelState.layoutMode === 'grid'
+                      ? `${panelState.colWidths.length} x ${panelState.rowHeights.length} = ${panelState.panels.length} panels`
+                      : `${panelState.panels.length} panels · ${LAYOUT_MODE_LABELS[panelState.layoutMode]}`}
+                  </span>
                 </div>
               )}
             </Section>
 
+            {/* Advanced: Material Yield — stock sheet library + nesting plan */}
+            <Section title="Material Yield" defaultOpen={false}>
+              <div className="flex items-center justify-between mb-2 text-[12px]">
+                <span className="text-[#888]">Rank layouts by</span>
+                <div className="flex gap-1">
+                  {(['coverage', 'yield'] as const).map(rank => (
+                    <button
+                      key={rank}
+                      className={`px-2 py-1 text-[11px] border rounded transition-all ${
+                        panelState.layoutRanking === rank
+                          ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]'
+                          : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'
+                      }`}
+                      onClick={() => onStateChange({ layoutRanking: rank, selectedLayoutIdx: 0 })}
+                    >
+                      {rank === 'coverage' ? 'Coverage' : 'Yield'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <Slider label="Saw Kerf (in)" value={panelState.sawKerf} min={0} max={0.5} step={0.0625}
+                format={v => `${v.toFixed(3)}"`}
+                onChange={v => onContinuousChange({ sawKerf: v })} />
+
+              <div className="flex items-center justify-between mt-2 mb-1">
+                <span className="text-[11px] text-[#888]">Stock sheets</span>
+                <button
+                  className="text-[10px] text-[#666] hover:text-[#4a9eff]"
+                  onClick={() => onStateChange({ stockSheets: DEFAULT_STOCK_SHEETS.map(sh => ({ ...sh })) })}
+                >
+                  Reset
+                </button>
+              </div>
+              {panelState.stockSheets.map(sheet => {
+                const update = (patch: Partial<StockSheet>, origin?: ChangeOrigin) => onStateChange({
+                  stockSheets: panelState.stockSheets.map(sh => (sh.id === sheet.id ? { ...sh, ...patch } : sh)),
+                }, origin);
+                return (
+                  <div key={sheet.id} className="flex items-center gap-1.5 mb-1">
+                    <input type="checkbox" checked={sheet.enabled} onChange={e => update({ enabled: e.target.checked })} />
+                    <div className="grid grid-cols-3 gap-1.5 flex-1">
+                      <NumberField label="W" value={sheet.w} step={1} min={1} onChange={w => update({ w: Math.max(1, w) }, CONTINUOUS_CHANGE)} />
+                      <NumberField label="H" value={sheet.h} step={1} min={1} onChange={h => update({ h: Math.max(1, h) }, CONTINUOUS_CHANGE)} />
+                      <NumberField label="$" value={sheet.cost} step={10} min={0} onChange={cost => update({ cost: Math.max(0, cost) }, CONTINUOUS_CHANGE)} />
+                    </div>
+                    <button
+                      className="w-4 text-[#888] hover:text-[#ff6b6b] text-sm leading-none"
+                      onClick={() => onStateChange({ stockSheets: panelState.stockSheets.filter(sh => sh.id !== sheet.id) })}
+                      title="Remove sheet size"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                className="w-full mt-1 mb-2 py-1 text-[11px] border border-dashed border-[#3a3a3e] text-[#888] rounded hover:text-[#e0e0e0] hover:border-[#4a9eff] transition-all"
+                onClick={() => onStateChange({
+                  stockSheets: [...panelState.stockSheets, {
+                    id: `sheet-${Date.now().toString(36)}`, name: 'Sheet 48×120', w: 48, h: 120, cost: 760, enabled: true,
+                  }],
+                })}
+              >
+                + Sheet size
+              </button>
+
+              {nesting.sheets.length > 0 && (
+                <div className="text-[11px] text-[#e0e0e0] p-2 bg-[rgba(74,158,255,0.06)] border border-[#3a3a3e] rounded">
+                  <div className="flex justify-between mb-1.5">
+                    <span>{nesting.sheets.length} sheets · <span className="text-[#4a9eff] font-semibold">{nesting.yieldPct.toFixed(1)}% yield</span></span>
+                    <span className="font-mono text-[#888]">{(nesting.wasteArea / 144).toFixed(1)} SF drop</span>
+                  </div>
+                  <div className="max-h-64 overflow-y-auto">
+                    {nesting.sheets.map((nested, i) => (
+                      <div key={i} className="flex items-center gap-2 py-1 border-t border-[#2a2a2e]">
+                        <SheetPreview nested={nested} />
+                        <div className="min-w-0 leading-snug">
+                          <div>#{i + 1} · {nested.sheet.w}×{nested.sheet.h} · {nested.yieldPct.toFixed(0)}%</div>
+                          <div className="text-[10px] text-[#888] truncate">{nested.placements.map(p => p.label).join(', ')}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {nesting.unplaced.length > 0 && (
+                    <div className="mt-1.5 text-[10px] text-[#ff6b6b]">
+                      No stock sheet fits: {nesting.unplaced.join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+            </Section>
+
+            {/* Advanced: Keep-Out Zones */}
+            <Section title="Keep-Out Zones" defaultOpen={false}>
+              <div className="text-[11px] text-[#888] mb-1">Add</div>
+              <div className="flex gap-1 flex-wrap mb-2">
+                {KEEP_OUT_PRESETS.map(p => (
+                  <button
+                    key={p.name}
+                    className="px-2 py-1 text-[11px] border border-[#3a3a3e] bg-[#2a2a2e] text-[#888] rounded hover:text-[#e0e0e0] hover:border-[#4a9eff] transition-all"
+                    onClick={() => onStateChange({
+                      keepOuts: [...panelState.keepOuts, createKeepOut(p.zone, panelState.wallW, panelState.wallH)],
+                    })}
+                  >
+                    + {p.name}
+                  </button>
+                ))}
+              </div>
+              {panelState.keepOuts.length === 0 && (
+                <p className="text-[10px] text-[#666]">No zones. Holes are cleared inside each zone plus its clearance; cutouts also remove panel material. Drag zones in the 2D view.</p>
+              )}
+              {panelState.keepOuts.map(zone => {
+                const update = (patch: Partial<KeepOut>, origin?: ChangeOrigin) => onStateChange({
+                  keepOuts: panelState.keepOuts.map(z => (z.id === zone.id ? { ...z, ...patch } : z)),
+                }, origin);
+                return (
+                  <div key={zone.id} className="mb-2 p-2 bg-[#1c1c20] border border-[#3a3a3e] rounded">
+                    <div className="flex items-center gap-1.5 mb-1.5">
+                      <input
+                        className="flex-1 min-w-0 bg-transparent border-b border-[#3a3a3e] text-[#e0e0e0] text-[12px] outline-none focus:border-[#4a9eff]"
+                        value={zone.label}
+                        onChange={e => update({ label: e.target.value }, CONTINUOUS_CHANGE)}
+                      />
+                      <span className="text-[9px] font-mono text-[#666] uppercase">{zone.kind}</span>
+                      <button
+                        className="w-5 h-5 text-[#888] hover:text-[#ff6b6b] text-sm leading-none"
+                        onClick={() => onStateChange({ keepOuts: panelState.keepOuts.filter(z => z.id !== zone.id) })}
+                        title="Remove zone"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-1.5 mb-1.5">
+                      <NumberField label="X" value={zone.x} onChange={x => update({ x }, CONTINUOUS_CHANGE)} />
+                      <NumberField label="Y" value={zone.y} onChange={y => update({ y }, CONTINUOUS_CHANGE)} />
+                      {zone.kind === 'rect' && (
+                        <>
+                          <NumberField label="W" value={zone.w} min={0} onChange={w => update({ w: Math.max(0, w) }, CONTINUOUS_CHANGE)} />
+                          <NumberField label="H" value={zone.h} min={0} onChange={h => update({ h: Math.max(0, h) }, CONTINUOUS_CHANGE)} />
+                        </>
+                      )}
+                      {zone.kind === 'circle' && (
+                        <NumberField label="R" value={zone.r} min={0} onChange={r => update({ r: Math.max(0, r) }, CONTINUOUS_CHANGE)} />
+                      )}
+                    </div>
+                    {zone.kind === 'polygon' && (
+                      <input
+                        key={zone.points.join(';')}
+                        className="w-full mb-1.5 bg-[#2a2a2e] border border-[#3a3a3e] text-[#ccc] rounded px-1.5 py-0.5 text-[10px] font-mono outline-none"
+                        defaultValue={zone.points.map(([x, y]) => `${x},${y}`).join('; ')}
+                        title="Vertices relative to X/Y, in inches: x,y; x,y; …"
+                        onBlur={e => {
+                          const points = e.target.value.split(';')
+                            .map(pair => pair.split(',').map(Number) as [number, number])
+                            .filter(pt => pt.length === 2 && pt.every(n => !isNaN(n)));
+                          if (points.length >= 3) update({ points });
+                        }}
+                      />
+                    )}
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="w-24">
+                        <NumberField label="+" value={zone.clearance} min={0} onChange={clearance => update({ clearance: Math.max(0, clearance) }, CONTINUOUS_CHANGE)} />
+                      </div>
+                      <label className="flex items-center gap-1.5 text-[11px] text-[#ccc] cursor-pointer">
+                        <input type="checkbox" checked={zone.cutout} onChange={e => update({ cutout: e.target.checked })} />
+                        Cutout
+                      </label>
+                    </div>
+                  </div>
+                );
+              })}
+            </Section>
+
             {/* Advanced: Image Adjustments */}
             <Section title="Image Adjustments" defaultOpen={false}>
               <Slider label="Brightness" value={panelState.brightness} min={-100} max={100} step={1}
-                onChange={v => onStateChange({ brightness: v })} />
+                onChange={v => onContinuousChange({ brightness: v })} />
               <Slider label="Contrast" value={panelState.contrast} min={-100} max={100} step={1}
-                onChange={v => onStateChange({ contrast: v })} />
+                onChange={v => onContinuousChange({ contrast: v })} />
             </Section>
 
             {/* Advanced: Grid Settings */}
@@ -806,7 +1527,7 @@ export default function ControlPanel({
                         const v = Math.max(panelState.minSpacing, parseFloat(e.target.value) || 2);
                         const updates: Partial<PanelState> = { spacingX: v };
                         if (panelState.lockRatio) updates.spacingY = v;
-                        onStateChange(updates);
+                        onContinuousChange(updates);
                       }}
                     />
                   </label>
@@ -829,7 +1550,7 @@ export default function ControlPanel({
                         const v = Math.max(panelState.minSpacing, parseFloat(e.target.value) || 2);
                         const updates: Partial<PanelState> = { spacingY: v };
                         if (panelState.lockRatio) updates.spacingX = v;
-                        onStateChange(updates);
+                        onContinuousChange(updates);
                       }}
                     />
                   </label>
@@ -842,7 +1563,7 @@ export default function ControlPanel({
                       type="number"
                       className="w-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[13px] text-right"
                       value={panelState.gridCols} min={2} max={500} step={1}
-                      onChange={e => onStateChange({ gridCols: parseInt(e.target.value) || 46 })}
+                      onChange={e => onContinuousChange({ gridCols: parseInt(e.target.value) || 46 })}
                     />
                   </label>
                   <label className="flex items-center gap-1 flex-1 text-[13px]">
@@ -851,7 +1572,7 @@ export default function ControlPanel({
                       type="number"
                       className="w-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[13px] text-right"
                       value={panelState.gridRows} min={2} max={500} step={1}
-                      onChange={e => onStateChange({ gridRows: parseInt(e.target.value) || 118 })}
+                      onChange={e => onContinuousChange({ gridRows: parseInt(e.target.value) || 118 })}
                     />
                   </label>
                 </div>
@@ -866,10 +1587,77 @@ export default function ControlPanel({
                 enabled={panelState.enabledHoleSizes}
                 onChange={enabledHoleSizes => onStateChange({ enabledHoleSizes })}
               />
+              <div className="flex items-center justify-between mb-2 text-[13px]">
+                <span className="text-[#e0e0e0]">Shape</span>
+                <div className="flex gap-1">
+                  {([
+                    ['circle', 'Circle'],
+                    ['square', 'Square'],
+                    ['slot', 'Slot'],
+                    ['hexagon', 'Hex'],
+                    ['triangle', 'Tri'],
+                  ] as const).map(([shape, label]) => (
+                    <button
+                      key={shape}
+                      className={`px-2 py-1 text-[11px] border rounded transition-all ${
+                        panelState.holeShape === shape
+                          ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]'
+                          : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'
+                      }`}
+                      onClick={() => onStateChange({ holeShape: shape })}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {panelState.holeShape === 'slot' && (
+                <>
+                  <Slider label="Slot length (× width)" value={panelState.slotRatio} min={1} max={6} step={0.25}
+                    format={v => v.toFixed(2)} onChange={v => onContinuousChange({ slotRatio: v })} />
+                  <Toggle label="Follow image gradient" checked={panelState.slotFollowGradient}
+                    onChange={v => onStateChange({ slotFollowGradient: v })} />
+                  <Slider label={panelState.slotFollowGradient ? 'Angle (flat areas)' : 'Angle'} value={panelState.slotAngle}
+                    min={-90} max={90} step={5} format={v => `${v}°`} onChange={v => onContinuousChange({ slotAngle: v })} />
+                </>
+              )}
+              <div className="flex items-center justify-between mb-2 text-[13px]">
+                <span className="text-[#e0e0e0]">Dither</span>
+                <div className="flex gap-1">
+                  {([
+                    ['none', 'Off'],
+                    ['floyd-steinberg', 'F–S'],
+                    ['jarvis', 'Jarvis'],
+                    ['atkinson', 'Atkinson'],
+                  ] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      className={`px-2 py-1 text-[11px] border rounded transition-all ${
+                        panelState.ditherMode === mode
+                          ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]'
+                          : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'
+                      }`}
+                      onClick={() => onStateChange({ ditherMode: mode })}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <Slider label="Threshold" value={panelState.threshold} min={0} max={255} step={1}
-                onChange={v => onStateChange({ threshold: v })} />
+                onChange={v => onContinuousChange({ threshold: v })} />
               <Slider label="Gamma" value={panelState.gamma} min={0.2} max={5} step={0.1}
-                format={v => v.toFixed(1)} onChange={v => onStateChange({ gamma: v })} />
+                format={v => v.toFixed(1)} onChange={v => onContinuousChange({ gamma: v })} />
+            </Section>
+
+            {/* Advanced: Target Solver — open area, hole count or price */}
+            <Section title="Target Solver" defaultOpen={false}>
+              <TargetSolverPanel panelState={panelState} onStateChange={onStateChange} />
+            </Section>
+
+            {/* Advanced: Budget Fit — wall size and backlight for a budget */}
+            <Section title="Budget Fit" defaultOpen={false}>
+              <BudgetSolverPanel panelState={panelState} onStateChange={onStateChange} />
             </Section>
 
             {/* Advanced: Backlight Extras */}
@@ -897,14 +1685,14 @@ export default function ControlPanel({
                           type="color"
                           className="w-8 h-6 border border-[#3a3a3e] rounded cursor-pointer bg-transparent p-0.5"
                           value={panelState.backlightColor}
-                          onChange={e => onStateChange({ backlightColor: e.target.value })}
+                          onChange={e => onContinuousChange({ backlightColor: e.target.value })}
                         />
                         <span className="text-[10px] text-[#666]">to</span>
                         <input
                           type="color"
                           className="w-8 h-6 border border-[#3a3a3e] rounded cursor-pointer bg-transparent p-0.5"
                           value={panelState.backlightColor2}
-                          onChange={e => onStateChange({ backlightColor2: e.target.value })}
+                          onChange={e => onContinuousChange({ backlightColor2: e.target.value })}
                         />
                       </div>
                     </div>
@@ -913,7 +1701,7 @@ export default function ControlPanel({
                       style={{ background: `linear-gradient(${90 + panelState.backlightGradientAngle}deg, ${panelState.backlightColor}, ${panelState.backlightColor2})` }}
                     />
                     <Slider label="Angle" value={panelState.backlightGradientAngle} min={-180} max={180} step={5}
-                      format={v => `${v}°`} onChange={v => onStateChange({ backlightGradientAngle: v })} />
+                      format={v => `${v}°`} onChange={v => onContinuousChange({ backlightGradientAngle: v })} />
                   </>
                 )}
               </Section>
@@ -934,7 +1722,7 @@ export default function ControlPanel({
                 <span className="text-right font-mono">{(panelState.wallW / 12).toFixed(1)}' × {(panelState.wallH / 12).toFixed(1)}'</span>
                 <span className="text-[#888]">Panels</span>
                 <span className="text-right font-mono">
-                  {panelState.panels.length ? `${panelState.colWidths.length} × ${panelState.rowHeights.length} = ${panelState.panels.length}` : '\u2014'}
+                  {panelState.panels.length ? describePanelCount(panelState) : '\u2014'}
                 </span>
                 <span className="text-[#888]">Panel Area</span>
                 <span className="text-right font-mono">{stats.panelSF > 0 ? stats.panelSF.toFixed(1) + ' SF' : '\u2014'}</span>
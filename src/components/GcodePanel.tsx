@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import type { PanelState } from '../engine/types';
+import { DEFAULT_POST_PROFILES, generateGcode, fmtDuration } from '../engine/gcode';
+import type { PostProfile, GcodeProgram } from '../engine/gcode';
+import { exportGcode } from '../engine/exportEngine';
+
+const PROFILES_KEY = 'perfpanel_post_profiles';
+
+const PROFILE_KEYS = Object.keys(DEFAULT_POST_PROFILES[0]) as (keyof PostProfile)[];
+
+function loadSavedProfiles(): PostProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const list = raw ? (JSON.parse(raw) as Partial<PostProfile>[]) : [];
+    // Older saves may predate newer fields. Feeds and depths differ by machine, router
+    // strategy and units, so gaps are only filled from the default that matches all
+    // three; a profile without one is kept only if nothing is missing.
+    return list.flatMap(p => {
+      const base = DEFAULT_POST_PROFILES.find(d =>
+        d.machine === p.machine && d.units === p.units &&
+        (d.machine === 'punch' || d.routerStrategy === (p.routerStrategy ?? 'helical')));
+      if (base) return [{ ...base, ...p }];
+      return PROFILE_KEYS.every(k => p[k] !== undefined) ? [p as PostProfile] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+interface GcodePanelProps {
+  panelState: PanelState;
+  exportTarget: string;  // 'all' or a panel label
+}
+
+type NumericKey = {
+  [K in keyof PostProfile]: PostProfile[K] extends number ? K : never;
+}[keyof PostProfile];
+
+const FIELDS: { key: NumericKey; label: string; router?: boolean; punch?: boolean; step: number }[] = [
+  { key: 'feedRate', label: 'Feed', router: true, step: 1 },
+  { key: 'plungeRate', label: 'Plunge', router: true, step: 1 },
+  { key: 'rapidRate', label: 'Rapid', step: 10 },
+  { key: 'spindleRpm', label: 'RPM', router: true, step: 500 },
+  { key: 'safeZ', label: 'Safe Z', router: true, step: 0.05 },
+  { key: 'retractZ', label: 'Retract Z', router: true, step: 0.05 },
+  { key: 'cutDepth', label: 'Cut depth', router: true, step: 0.01 },
+  { key: 'stepDown', label: 'Step down', router: true, step: 0.01 },
+  { key: 'toolDiameter', label: 'Tool Ø', router: true, step: 0.01 },
+  { key: 'hitSeconds', label: 'Hit (s)', punch: true, step: 0.05 },
+  { key: 'toolChangeSeconds', label: 'Tool chg (s)', step: 1 },
+];
+
+export default function GcodePanel({ panelState, exportTarget }: GcodePanelProps) {
+  const [saved, setSaved] = useState<PostProfile[]>(loadSavedProfiles);
+  const all = [...DEFAULT_POST_PROFILES.filter(d => !saved.some(s => s.name === d.name)), ...saved];
+  const [profile, setProfile] = useState<PostProfile>(() => ({ ...all[0] }));
+  const [editing, setEditing] = useState(false);
+  const [planning, setPlanning] = useState(false);
+  const [programs, setPrograms] = useState<GcodeProgram[] | null>(null);
+
+  // Any change to the panels, target or post settings invalidates the plan
+  useEffect(() => { setPrograms(null); }, [panelState.panels, exportTarget, profile]);
+
+  const update = (patch: Partial<PostProfile>) => setProfile(p => ({ ...p, ...patch }));
+
+  const persist = (list: PostProfile[]) => {
+    setSaved(list);
+    try {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(list));
+    } catch {
+      // Storage full or disabled — the profile still applies for this session
+    }
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Save post-processor profile as:', profile.name)?.trim();
+    if (!name) return;
+    const next = { ...profile, name };
+    persist([...saved.filter(p => p.name !== name), next]);
+    setProfile(next);
+  };
+
+  const handleDelete = () => {
+    persist(saved.filter(p => p.name !== profile.name));
+    const fallback = DEFAULT_POST_PROFILES.find(d => d.name === profile.name) ?? DEFAULT_POST_PROFILES[0];
+    setProfile({ ...fallback });
+  };
+
+  const handlePlan = () => {
+    setPlanning(true);
+    // Let the button repaint before the ordering pass blocks the thread
+    setTimeout(() => {
+      const panels = exportTarget === 'all'
+        ? panelState.panels
+        : panelState.panels.filter(p => p.label === exportTarget);
+      setPrograms(generateGcode(panelState, panels, profile));
+      setPlanning(false);
+    }, 30);
+  };
+
+  const totals = programs?.reduce(
+    (t, p) => ({
+      holes: t.holes + p.stats.holes,
+      skipped: t.skipped + p.stats.skipped,
+      rapid: t.rapid + p.stats.rapidTravel,
+      seconds: t.seconds + p.stats.seconds,
+    }),
+    { holes: 0, skipped: 0, rapid: 0, seconds: 0 },
+  );
+  const unit = profile.units === 'mm' ? 'mm' : 'in';
+  const isSaved = saved.some(p => p.name === profile.name);
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-2">
+        <select
+          className="flex-1 min-w-0 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-2 py-1 text-[12px]"
+          value={profile.name}
+          onChange={e => {
+            const next = all.find(p => p.name === e.target.value);
+            if (next) setProfile({ ...next });
+          }}
+        >
+          {all.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          {!all.some(p => p.name === profile.name) && <option value={profile.name}>{profile.name} (unsaved)</option>}
+        </select>
+        <button
+          className={`px-2 text-[11px] border rounded transition-all ${editing ? 'border-[#4a9eff] text-[#e0e0e0]' : 'border-[#3a3a3e] text-[#888]'}`}
+          onClick={() => setEditing(!editing)}
+        >
+          Edit
+        </button>
+      </div>
+
+      {editing && (
+        <div className="mb-2 p-2 bg-[#1c1c20] border border-[#3a3a3e] rounded text-[11px]">
+          <div className="flex gap-1 mb-1.5">
+            {(['punch', 'router'] as const).map(m => (
+              <button
+                key={m}
+                className={`flex-1 py-1 border rounded ${profile.machine === m ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+                onClick={() => update({ machine: m })}
+              >
+                {m === 'punch' ? 'Punch' : 'Router'}
+              </button>
+            ))}
+            {(['inch', 'mm'] as const).map(u => (
+              <button
+                key={u}
+                className={`px-2 py-1 border rounded ${profile.units === u ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+                onClick={() => update({ units: u })}
+              >
+                {u}
+              </button>
+            ))}
+          </div>
+          {profile.machine === 'router' && (
+            <div className="flex gap-1 mb-1.5">
+              {(['helical', 'peck'] as const).map(s => (
+                <button
+                  key={s}
+                  className={`flex-1 py-1 border rounded ${profile.routerStrategy === s ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+                  onClick={() => update({ routerStrategy: s })}
+                >
+                  {s === 'helical' ? 'Helical interpolation' : 'Peck drill'}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-x-2 gap-y-1 mb-1.5">
+            {FIELDS.filter(fd => (profile.machine === 'router' ? !fd.punch : !fd.router)).map(fd => (
+              <label key={fd.key} className="flex items-center justify-between gap-1">
+                <span className="text-[#888] whitespace-nowrap">{fd.label}</span>
+                <input
+                  type="number"
+                  className="w-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1 py-0.5 text-[11px] text-right"
+                  value={profile[fd.key]}
+                  step={fd.step}
+                  onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) update({ [fd.key]: v }); }}
+                />
+              </label>
+            ))}
+            {profile.machine === 'punch' && (
+              <label className="flex items-center justify-between gap-1">
+                <span className="text-[#888]">Hit code</span>
+                <input
+                  className="w-16 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1 py-0.5 text-[11px] font-mono"
+                  value={profile.punchHitCode}
+                  onChange={e => update({ punchHitCode: e.target.value })}
+                />
+              </label>
+            )}
+          </div>
+          <div className="text-[#888] mb-0.5">Header <span className="text-[#555]">{'{program} {panel} {size} {date} {units}'}</span></div>
+          <textarea
+            className="w-full h-14 mb-1 bg-[#2a2a2e] border border-[#3a3a3e] text-[#ccc] rounded px-1.5 py-1 text-[10px] font-mono outline-none resize-none"
+            value={profile.header}
+            onChange={e => update({ header: e.target.value })}
+          />
+          <div className="text-[#888] mb-0.5">Footer</div>
+          <textarea
+            className="w-full h-12 mb-1.5 bg-[#2a2a2e] border border-[#3a3a3e] text-[#ccc] rounded px-1.5 py-1 text-[10px] font-mono outline-none resize-none"
+            value={profile.footer}
+            onChange={e => update({ footer: e.target.value })}
+          />
+          <div className="flex gap-1">
+            <button className="flex-1 py-1 border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded hover:border-[#4a9eff]" onClick={handleSave}>
+              Save profile…
+            </button>
+            {isSaved && (
+              <button className="px-2 py-1 border border-[#3a3a3e] bg-[#2a2a2e] text-[#888] rounded hover:text-[#ff6b6b]" onClick={handleDelete}>
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!programs ? (
+        <button
+          className="w-full py-2 text-[13px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all disabled:opacity-50"
+          onClick={handlePlan}
+          disabled={planning || !panelState.panels.some(p => p.holes.length)}
+        >
+          {planning ? 'Optimizing toolpaths…' : 'Plan G-code'}
+        </button>
+      ) : (
+        <div className="p-2 bg-[rgba(74,158,255,0.06)] border border-[#3a3a3e] rounded text-[11px] text-[#e0e0e0]">
+          <div className="grid grid-cols-2 gap-y-0.5 mb-2">
+            <span className="text-[#888]">Programs</span><span className="text-right font-mono">{programs.length}</span>
+            <span className="text-[#888]">Holes</span><span className="text-right font-mono">{totals!.holes.toLocaleString()}</span>
+            <span className="text-[#888]">Rapid travel</span>
+            <span className="text-right font-mono">
+              {profile.units === 'mm' ? `${(totals!.rapid / 1000).toFixed(1)} m` : `${(totals!.rapid / 12).toFixed(0)} ft`}
+            </span>
+            <span className="text-[#888]">Machine time</span><span className="text-right font-mono text-[#4a9eff]">{fmtDuration(totals!.seconds)}</span>
+          </div>
+          {totals!.skipped > 0 && (
+            <div className="mb-2 text-[10px] text-[#ff6b6b]">
+              {totals!.skipped} holes are smaller than the {profile.toolDiameter}{unit} tool and were left out.
+            </div>
+          )}
+          <button
+            className="w-full py-1.5 text-[12px] font-semibold border border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0] rounded-md hover:bg-[rgba(74,158,255,0.25)] transition-all"
+            onClick={() => exportGcode(programs)}
+          >
+            Download {programs.length === 1 ? programs[0].fileName : `${programs.length} programs`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -64,7 +64,7 @@ export default function GuidePanel() {
         <h2 className="text-lg font-bold text-[#4a9eff] border-b border-[#3a3a3e] pb-2 mb-4 mt-6">Export Formats</h2>
         <ul className="text-[13px] text-[#bbb] leading-relaxed pl-5 list-disc mb-3 space-y-1">
           <li><strong className="text-[#e0e0e0]">SVG</strong> — Vector file with real-world inch dimensions. For CNC/laser.</li>
-          <li><strong className="text-[#e0e0e0]">DXF</strong> — AutoCAD-compatible (R12). Panel outlines + holes on separate layers.</li>
+          <li><strong className="text-[#e0e0e0]">DXF</strong> — R2000 or R12, in inches. Panel outlines as closed polylines, one layer per hole size (HOLE_0.750), labels on LABELS.</li>
           <li><strong className="text-[#e0e0e0]">PNG</strong> — Raster screenshot for presentations.</li>
         </ul>
 
@@ -0,0 +1,74 @@
+import { CHANGE_SOURCE_LABELS, describeChange, type ChangeSource, type DesignHistory } from '../engine/history';
+
+interface HistoryPanelProps {
+  history: DesignHistory;
+  onJump: (index: number) => void;  // number of entries to have applied
+}
+
+const SOURCE_COLORS: Record<ChangeSource, string> = {
+  controls: 'text-[#888]',
+  ai: 'text-[#8a5aff]',
+  onboarding: 'text-[#4a9eff]',
+};
+
+const fmtTime = (t: number) => new Date(t).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', second: '2-digit' });
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export default function HistoryPanel({ history, onJump }: HistoryPanelProps) {
+  const { entries, index } = history;
+  const mod = isMac ? '⌘' : 'Ctrl+';
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-2">
+        <button
+          className="flex-1 py-1.5 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all disabled:opacity-50"
+          onClick={() => onJump(index - 1)}
+          disabled={index === 0}
+          title={`Undo (${mod}Z)`}
+        >
+          Undo
+        </button>
+        <button
+          className="flex-1 py-1.5 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all disabled:opacity-50"
+          onClick={() => onJump(index + 1)}
+          disabled={index === entries.length}
+          title={isMac ? 'Redo (⇧⌘Z)' : 'Redo (Ctrl+Y)'}
+        >
+          Redo
+        </button>
+      </div>
+
+      {/* Newest first; click an entry to return to the design right after it */}
+      <div className="max-h-[220px] overflow-y-auto">
+        {entries.slice().reverse().map((e, r) => {
+          const i = entries.length - 1 - r;
+          const undone = i >= index;
+          const current = i === index - 1;
+          return (
+            <button
+              key={e.id}
+              className={`w-full flex items-center gap-2 mb-0.5 px-1.5 py-1 text-left text-[11px] border rounded transition-all ${current ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)]' : 'border-transparent hover:bg-[#2a2a2e]'} ${undone ? 'opacity-50' : ''}`}
+              onClick={() => onJump(i + 1)}
+              title={e.note || undefined}
+            >
+              <span className={`w-[60px] shrink-0 text-[10px] ${SOURCE_COLORS[e.source]}`}>{CHANGE_SOURCE_LABELS[e.source]}</span>
+              <span className="flex-1 min-w-0 truncate text-[#ccc]">
+                {describeChange(e)}
+                {e.note && <span className="text-[#888]"> · “{e.note}”</span>}
+              </span>
+              <span className="shrink-0 text-[#666] font-mono text-[10px]">{fmtTime(e.time)}</span>
+            </button>
+          );
+        })}
+        <button
+          className={`w-full flex items-center gap-2 px-1.5 py-1 text-left text-[11px] border rounded transition-all ${index === 0 ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)]' : 'border-transparent hover:bg-[#2a2a2e]'}`}
+          onClick={() => onJump(0)}
+        >
+          <span className="text-[#888]">{entries.length ? 'Start' : 'No changes yet'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
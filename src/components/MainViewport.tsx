@@ -1,5 +1,6 @@
 import { lazy, Suspense } from 'react';
 import type { PanelState, LightingPreset } from '../engine/types';
+import type { DrcReport } from '../engine/drc';
 import Canvas2D from './Canvas2D';
 import GuidePanel from './GuidePanel';
 
@@ -9,6 +10,8 @@ interface MainViewportProps {
   activeTab: '2d' | '3d' | 'guide';
   onTabChange: (tab: '2d' | '3d' | 'guide') => void;
   panelState: PanelState;
+  onStateChange: (updates: Partial<PanelState>) => void;
+  drc: DrcReport;
   lightingPreset: LightingPreset;
   floorEnabled: boolean;
   scaleFigureEnabled: boolean;
@@ -22,6 +25,8 @@ export default function MainViewport({
   activeTab,
   onTabChange,
   panelState,
+  onStateChange,
+  drc,
   lightingPreset,
   floorEnabled,
   scaleFigureEnabled,
@@ -57,7 +62,7 @@ export default function MainViewport({
 
       {/* Content */}
       <div className="flex-1 relative overflow-hidden bg-[#111]">
-        {activeTab === '2d' && <Canvas2D panelState={panelState} />}
+        {activeTab === '2d' && <Canvas2D panelState={panelState} onStateChange={onStateChange} drc={drc} />}
         {activeTab === '3d' && (
           <Suspense fallback={
             <div className="flex items-center justify-center h-full text-[#888] text-sm">Loading 3D engine...</div>
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import type { PanelState, QuoteInfo } from '../engine/types';
+import { PRICING } from '../engine/pricing';
+import { issueQuote, nextQuoteRevision, quotePricing } from '../engine/quote';
+import { exportQuotePDF } from '../engine/exportEngine';
+import { CONTINUOUS_CHANGE, UNTRACKED_CHANGE, type ChangeOrigin } from '../engine/history';
+
+interface QuotePanelProps {
+  panelState: PanelState;
+  onStateChange: (updates: Partial<PanelState>, origin?: ChangeOrigin) => void;
+  captureHero: () => string | null;  // 3D viewport as a data URL
+  renderUrl: string | null;          // last FAL render, if any
+}
+
+type HeroSource = 'viewport' | 'render';
+
+const HERO_LABELS: Record<HeroSource, string> = {
+  viewport: '3D view',
+  render: 'FAL render',
+};
+
+const QUOTE_FIELDS: [keyof QuoteInfo, string][] = [
+  ['clientName', 'Client name'],
+  ['clientCompany', 'Company'],
+  ['clientEmail', 'Email'],
+  ['projectName', 'Project name'],
+  ['projectAddress', 'Project address'],
+];
+
+const fmtUsd = (v: number) => '$' + v.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+// jsPDF needs the image bytes; the FAL result is a remote URL
+async function toDataUrl(url: string): Promise<string> {
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export default function QuotePanel({ panelState, onStateChange, captureHero, renderUrl }: QuotePanelProps) {
+  const [heroSource, setHeroSource] = useState<HeroSource>('viewport');
+  const [issuing, setIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const quote = panelState.quote;
+  const options = PRICING.installationOptions.filter(o => panelState.backlight || !o.backlitOnly);
+
+  const setQuote = (updates: Partial<QuoteInfo>, origin?: ChangeOrigin) => onStateChange({ quote: { ...quote, ...updates } }, origin);
+
+  const toggleInstallation = (id: string) => setQuote({
+    installation: quote.installation.includes(id) ? quote.installation.filter(i => i !== id) : [...quote.installation, id],
+  });
+
+  const handleIssue = async () => {
+    setIssuing(true);
+    setError(null);
+    try {
+      // Fall back to the viewport when the render can't be fetched (expired or cross-origin)
+      let hero = heroSource === 'render' && renderUrl ? await toDataUrl(renderUrl).catch(() => null) : null;
+      hero ??= captureHero();
+      const issued = issueQuote(panelState);
+      // An issued revision is never undone, so its number is never handed out twice
+      onStateChange({ quote: issued }, UNTRACKED_CHANGE);
+      await exportQuotePDF({ ...panelState, quote: issued }, hero);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Quote export failed');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  return (
+    <div>
+      {QUOTE_FIELDS.map(([key, label]) => (
+        <input
+          key={key}
+          className="w-full mb-1 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-2 py-1 text-[11px] outline-none focus:border-[#4a9eff]"
+          placeholder={label}
+          value={quote[key] as string}
+          onChange={e => setQuote({ [key]: e.target.value }, CONTINUOUS_CHANGE)}
+        />
+      ))}
+
+      <div className="mt-2 mb-1 text-[10px] text-[#888]">Installation</div>
+      {options.map(o => (
+        <label key={o.id} className="flex items-center gap-2 mb-1 text-[11px] text-[#ccc] cursor-pointer" title={o.detail}>
+          <input
+            type="checkbox"
+            checked={quote.installation.includes(o.id)}
+            onChange={() => toggleInstallation(o.id)}
+          />
+          <span className="flex-1">{o.label}</span>
+          <span className="text-[#888] font-mono text-[10px]">
+            {o.perSF ? `${fmtUsd(o.perSF)}/SF` : `${fmtUsd(o.perPanel)}/panel`}
+          </span>
+        </label>
+      ))}
+
+      <div className="flex gap-1 mt-2 mb-2">
+        {(['viewport', 'render'] as const).map(s => (
+          <button
+            key={s}
+            className={`flex-1 py-1 text-[11px] border rounded transition-all disabled:opacity-50 ${heroSource === s ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+            onClick={() => setHeroSource(s)}
+            disabled={s === 'render' && !renderUrl}
+            title={s === 'render' && !renderUrl ? 'Run a FAL render first' : undefined}
+          >
+            {HERO_LABELS[s]}
+          </button>
+        ))}
+      </div>
+
+      <button
+        className="w-full py-2 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all disabled:opacity-50"
+        onClick={handleIssue}
+        disabled={issuing || !panelState.panels.length}
+      >
+        {issuing ? 'Building quote…' : `Issue quote R${nextQuoteRevision(quote)} — ${fmtUsd(quotePricing(panelState).total)}`}
+      </button>
+      {error && <div className="mt-1 text-[11px] text-[#ff6b6b]">{error}</div>}
+
+      {quote.issues.length > 0 && (
+        <div className="mt-2">
+          <div className="mb-1 text-[10px] text-[#888] font-mono">{quote.number}</div>
+          {quote.issues.map(r => (
+            <div key={r.revision} className="flex items-center gap-2 mb-1 text-[11px]">
+              <span className="w-6 font-semibold text-[#e0e0e0]">R{r.revision}</span>
+              <span className="text-[#888] font-mono text-[10px]">{r.date}</span>
+              <span className="flex-1 text-[#888] text-[10px]">valid to {r.validUntil}</span>
+              <span className="text-[#ccc] font-mono">{fmtUsd(r.total)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
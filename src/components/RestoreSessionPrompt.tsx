@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import type { SavedSession } from '../engine/autosave';
+
+interface RestoreSessionPromptProps {
+  session: SavedSession;
+  onRestore: () => Promise<void>;
+  onDismiss: () => void;
+}
+
+const fmtSavedAt = (iso: string) => new Date(iso).toLocaleString('en-US', {
+  month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+});
+
+export default function RestoreSessionPrompt({ session, onRestore, onDismiss }: RestoreSessionPromptProps) {
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestore = async () => {
+    setRestoring(true);
+    setError(null);
+    try {
+      await onRestore();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not restore the session');
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed left-4 bottom-4 z-[900] w-[300px] p-3 bg-[#222226] border border-[#3a3a3e] rounded-lg shadow-[0_8px_30px_rgba(0,0,0,0.5)]">
+      <div className="text-[12px] font-semibold text-[#e0e0e0]">Restore last session?</div>
+      <div className="mt-0.5 mb-2 text-[11px] text-[#888] truncate" title={session.title}>
+        {session.title} · autosaved {fmtSavedAt(session.savedAt)}
+      </div>
+      {error && <div className="mb-2 text-[11px] text-[#ff6b6b]">{error}</div>}
+      <div className="flex gap-2">
+        <button
+          className="flex-1 py-1.5 text-[12px] font-semibold border border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0] rounded-md hover:bg-[rgba(74,158,255,0.25)] transition-all disabled:opacity-50"
+          onClick={handleRestore}
+          disabled={restoring}
+        >
+          {restoring ? 'Restoring…' : 'Restore'}
+        </button>
+        <button
+          className="flex-1 py-1.5 text-[12px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#888] rounded-md hover:text-[#e0e0e0] transition-all"
+          onClick={onDismiss}
+        >
+          Start fresh
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import type { PanelState } from '../engine/types';
+import { computeStats } from '../engine/panelEngine';
+import { solveForTarget } from '../engine/solver';
+import type { SolveAllowances, SolveResult, SolveTargetKind } from '../engine/solver';
+
+interface TargetSolverPanelProps {
+  panelState: PanelState;
+  onStateChange: (updates: Partial<PanelState>) => void;
+}
+
+const TARGET_LABELS: Record<SolveTargetKind, string> = {
+  openArea: 'Open area',
+  holeCount: 'Hole count',
+  price: 'Price',
+};
+
+const TARGET_UNITS: Record<SolveTargetKind, string> = {
+  openArea: '%',
+  holeCount: 'holes max',
+  price: 'USD max',
+};
+
+// Settings the solver can move, as shown in the preview
+const PARAM_LABELS: Partial<Record<keyof PanelState, string>> = {
+  gamma: 'Gamma',
+  threshold: 'Threshold',
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+  spacingX: 'Spacing X',
+  spacingY: 'Spacing Y',
+  gridCols: 'Grid columns',
+  gridRows: 'Grid rows',
+};
+
+const ALLOWANCES: { key: keyof SolveAllowances; label: string; title: string }[] = [
+  { key: 'tone', label: 'Tone', title: 'Let the solver change brightness and contrast when gamma and threshold cannot reach the target' },
+  { key: 'spacing', label: 'Spacing', title: 'Let the solver change hole spacing when gamma and threshold cannot reach the target' },
+];
+
+const fmtMetric = (kind: SolveTargetKind, v: number) =>
+  kind === 'openArea' ? `${v.toFixed(1)}%`
+    : kind === 'holeCount' ? Math.round(v).toLocaleString()
+    : '$' + v.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+export default function TargetSolverPanel({ panelState, onStateChange }: TargetSolverPanelProps) {
+  const [kind, setKind] = useState<SolveTargetKind>('openArea');
+  const [value, setValue] = useState(30);
+  const [allow, setAllow] = useState<SolveAllowances>({ tone: false, spacing: false });
+  const [solving, setSolving] = useState(false);
+  const [result, setResult] = useState<SolveResult | null>(null);
+
+  // A preview only holds for the design it was solved from
+  useEffect(() => { setResult(null); }, [panelState.panels, kind, value, allow]);
+
+  const pickKind = (k: SolveTargetKind) => {
+    // Start from where the design is now so the field is never a blind guess
+    const stats = computeStats(panelState);
+    setKind(k);
+    setValue(k === 'openArea' ? Math.round(stats.openAreaPct) : k === 'holeCount' ? stats.totalHoles : Math.round(stats.estimatedTotal));
+  };
+
+  const handleSolve = () => {
+    setSolving(true);
+    // Let the button repaint before the search blocks the thread
+    setTimeout(() => {
+      setResult(solveForTarget(panelState, { kind, value }, allow));
+      setSolving(false);
+    }, 30);
+  };
+
+  const changes = result ? (Object.keys(result.params) as (keyof PanelState)[]) : [];
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-2">
+        {(Object.keys(TARGET_LABELS) as SolveTargetKind[]).map(k => (
+          <button
+            key={k}
+            className={`flex-1 py-1 text-[11px] border rounded transition-all ${kind === k ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+            onClick={() => pickKind(k)}
+          >
+            {TARGET_LABELS[k]}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 mb-2 text-[12px]">
+        <input
+          type="number"
+          className="w-24 bg-[#2a2a2e] border border-[#3a3a3e] text-[#e0e0e0] rounded px-1.5 py-1 text-[12px] text-right"
+          value={value}
+          min={0}
+          step={kind === 'openArea' ? 1 : kind === 'holeCount' ? 500 : 1000}
+          onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) setValue(v); }}
+        />
+        <span className="text-[#888]">{TARGET_UNITS[kind]}</span>
+        <div className="ml-auto flex gap-1">
+          {ALLOWANCES.map(({ key, label, title }) => (
+            <button
+              key={key}
+              className={`px-2 py-1 text-[11px] border rounded transition-all ${allow[key] ? 'border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0]' : 'border-[#3a3a3e] bg-[#2a2a2e] text-[#888]'}`}
+              onClick={() => setAllow({ ...allow, [key]: !allow[key] })}
+              title={title}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!result ? (
+        <button
+          className="w-full py-2 text-[13px] font-semibold border border-[#3a3a3e] bg-[#2a2a2e] text-[#e0e0e0] rounded-md hover:border-[#4a9eff] hover:bg-[rgba(74,158,255,0.1)] transition-all disabled:opacity-50"
+          onClick={handleSolve}
+          disabled={solving || !panelState.grayPixels || value <= 0}
+        >
+          {solving ? 'Solving…' : `Solve for ${fmtMetric(kind, value)}`}
+        </button>
+      ) : (
+        <div className="p-2 bg-[rgba(74,158,255,0.06)] border border-[#3a3a3e] rounded text-[11px] text-[#e0e0e0]">
+          <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-1.5 gap-y-0.5 mb-2 font-mono">
+            {changes.map(k => (
+              <div key={k} className="contents">
+                <span className="text-[#888] font-sans">{PARAM_LABELS[k] ?? k}</span>
+                <span className="text-right">{String(panelState[k])}</span>
+                <span className="text-[#555]">→</span>
+                <span className="text-right text-[#4a9eff]">{String(result.params[k])}</span>
+              </div>
+            ))}
+            {([
+              ['Open area', 'openArea', 'openAreaPct'],
+              ['Holes', 'holeCount', 'totalHoles'],
+              ['Price', 'price', 'estimatedTotal'],
+            ] as const).map(([label, k, m]) => (
+              <div key={k} className="contents">
+                <span className="text-[#888] font-sans">{label}</span>
+                <span className="text-right">{fmtMetric(k, result.before[m])}</span>
+                <span className="text-[#555]">→</span>
+                <span className={`text-right ${k === kind ? 'text-[#4a9eff]' : ''}`}>{fmtMetric(k, result.after[m])}</span>
+              </div>
+            ))}
+          </div>
+          {!changes.length && <div className="mb-2 text-[10px] text-[#888]">The current settings are already the closest match.</div>}
+          {result.note && <div className="mb-2 text-[10px] text-[#ff6b6b]">{result.note}</div>}
+          <div className="flex gap-1">
+            <button
+              className="flex-1 py-1.5 text-[12px] font-semibold border border-[#4a9eff] bg-[rgba(74,158,255,0.15)] text-[#e0e0e0] rounded-md hover:bg-[rgba(74,158,255,0.25)] transition-all disabled:opacity-50"
+              onClick={() => onStateChange(result.params)}
+              disabled={!changes.length}
+            >
+              Apply
+            </button>
+            <button
+              className="px-3 py-1.5 text-[12px] border border-[#3a3a3e] bg-[#2a2a2e] text-[#888] rounded-md hover:text-[#e0e0e0] transition-all"
+              onClick={() => setResult(null)}
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
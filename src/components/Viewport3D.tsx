@@ -1,8 +1,12 @@
 import { useEffect, useRef, useCallback } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import type { PanelState, LightingPreset } from '../engine/types';
+import type { PanelState, Panel, LightingPreset } from '../engine/types';
 import { LIGHTING_PRESETS } from '../engine/panelEngine';
+import { traceHole } from '../engine/holeShapes';
+import { panelCutouts } from '../engine/keepOuts';
+import { tracePanel } from '../engine/wallOutline';
+import { getMaterial } from '../engine/materials';
 
 interface Viewport3DProps {
   panelState: PanelState;
@@ -15,6 +19,23 @@ interface Viewport3DProps {
   cameraRef: React.MutableRefObject<unknown>;
 }
 
+// Flat geometry for a panel centered on its rectangle, in scene units. Trimmed panels get
+// their outline as a shape, with UVs spanning the full rectangle like a plane's would.
+function panelGeometry(panel: Panel, scale: number): THREE.BufferGeometry {
+  if (!panel.outline) return new THREE.PlaneGeometry(panel.w * scale, panel.h * scale);
+  const shape = new THREE.Shape(
+    panel.outline.map(([x, y]) => new THREE.Vector2((x - panel.w / 2) * scale, (panel.h / 2 - y) * scale)),
+  );
+  const geo = new THREE.ShapeGeometry(shape);
+  const pos = geo.attributes.position;
+  const uv = geo.attributes.uv;
+  for (let i = 0; i < pos.count; i++) {
+    uv.setXY(i, pos.getX(i) / (panel.w * scale) + 0.5, pos.getY(i) / (panel.h * scale) + 0.5);
+  }
+  uv.needsUpdate = true;
+  return geo;
+}
+
 export default function Viewport3D({
   panelState,
   lightingPreset,
@@ -192,6 +213,7 @@ export default function Viewport3D({
     const wW = panelState.wallW, wH = panelState.wallH;
     const scale = 80 / Math.max(wW, wH);
     const texSize = panelState.panels.length > 20 ? 512 : 1024;
+    const { appearance } = getMaterial(panelState.material);
 
     for (const panel of panelState.panels) {
       const pw = panel.w, ph = panel.h;
@@ -201,30 +223,42 @@ export default function Viewport3D({
       tc.width = texSize;
       tc.height = texSize;
       const tcx = tc.getContext('2d')!;
+      // Draw in panel inches; the square texture stretches back to the panel's aspect on the mesh
+      tcx.save();
+      tcx.scale(texSize / pw, texSize / ph);
+      tcx.fillStyle = '#000000';
+      tcx.fillRect(0, 0, pw, ph);
       tcx.fillStyle = '#ffffff';
-      tcx.fillRect(0, 0, texSize, texSize);
+      tcx.beginPath();
+      tracePanel(tcx, panel);
+      tcx.fill();
       tcx.fillStyle = '#000000';
-      for (const hole of panel.holes) {
-        const px = (hole.x / pw) * texSize;
-        const py = (hole.y / ph) * texSize;
-        const pr = (hole.d / 2 / Math.max(pw, ph)) * texSize;
-        tcx.beginPath();
-        tcx.arc(px, py, pr, 0, Math.PI * 2);
-        tcx.fill();
+      tcx.beginPath();
+      for (const hole of panel.holes) traceHole(tcx, panelState.holeShape, hole, panelState.slotRatio);
+      for (const cut of panelCutouts(panelState.keepOuts, panel)) {
+        if (cut.kind === 'circle') {
+          tcx.moveTo(cut.x + cut.r, cut.y);
+          tcx.arc(cut.x, cut.y, cut.r, 0, Math.PI * 2);
+        } else {
+          tcx.moveTo(cut.points[0][0], cut.points[0][1]);
+          for (const [x, y] of cut.points.slice(1)) tcx.lineTo(x, y);
+          tcx.closePath();
+        }
       }
+      tcx.fill();
+      tcx.restore();
 
       const atex = new THREE.CanvasTexture(tc);
       atex.colorSpace = THREE.SRGBColorSpace;
-      const sW = pw * scale, sH = ph * scale;
       const mat = new THREE.MeshStandardMaterial({
         color: new THREE.Color(panelState.panelColor),
         alphaMap: atex,
         transparent: true,
         side: THREE.DoubleSide,
-        roughness: 0.4,
-        metalness: 0.6,
+        roughness: appearance.roughness,
+        metalness: appearance.metalness,
       });
-      const mesh = new THREE.Mesh(new THREE.PlaneGeometry(sW, sH), mat);
+      const mesh = new THREE.Mesh(panelGeometry(panel, scale), mat);
       const cx = (panel.x + pw / 2) * scale - (wW * scale) / 2;
       const cy = -(panel.y + ph / 2) * scale + (wH * scale) / 2;
       mesh.position.set(cx, cy, 0);
@@ -273,7 +307,7 @@ export default function Viewport3D({
             side: THREE.FrontSide,
           });
         }
-        const blMesh = new THREE.Mesh(new THREE.PlaneGeometry(sW * 0.98, sH * 0.98), blMat);
+        const blMesh = new THREE.Mesh(panelGeometry(panel, scale * 0.98), blMat);
         blMesh.position.set(cx, cy, -0.3);
         wallGroup.add(blMesh);
       }
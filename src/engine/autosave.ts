@@ -0,0 +1,154 @@
+import type { PanelState, ChatMessage } from './types';
+import { buildProjectFile, imageToDataUrl, migrateProjectFile, type ProjectFile, type ProjectScene } from './project';
+
+// ─── Autosave ────────────────────────────────────────────────────────
+// Snapshots of the working project in IndexedDB, in the same shape as a
+// .perfpanel file so they load through the same migrations. The source image is
+// stored once in its own store and shared by every snapshot that uses it; only
+// the newest SNAPSHOT_LIMIT snapshots are kept. When the browser refuses more
+// data the older snapshots are dropped and the save tried once more before the
+// error reaches the UI.
+
+export const AUTOSAVE_DELAY_MS = 1500;
+
+const DB_NAME = 'perfpanel';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const IMAGES = 'images';
+const SNAPSHOT_LIMIT = 5;
+
+interface StoredSnapshot {
+  id?: number;            // auto-increment, newest highest
+  sessionId: string;      // the tab that wrote it
+  savedAt: string;        // ISO timestamp
+  file: ProjectFile;      // with image left null
+  imageId: string | null;
+}
+
+interface StoredImage {
+  id: string;
+  dataUrl: string;
+}
+
+// A previous session that can be put back on screen
+export interface SavedSession {
+  savedAt: string;
+  title: string;
+  file: ProjectFile;  // image included
+}
+
+// Snapshots from this tab are never offered back to it
+const SESSION_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Image elements already written, so an unchanged image isn't re-encoded on every save
+const imageIds = new WeakMap<HTMLImageElement, string>();
+const storedImages = new Set<string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser has no IndexedDB storage.'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'id', autoIncrement: true });
+      if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // A failed open (private mode, blocked storage) may succeed on a later try
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// A failed request aborts the transaction, so abort carries every error, quota included
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+export function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException &&
+    (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+export function autosaveErrorMessage(err: unknown): string {
+  if (isQuotaError(err)) return 'Browser storage is full, so recent changes were not autosaved. Save a project file to keep them.';
+  return `Autosave failed: ${err instanceof Error ? err.message : 'unknown error'}`;
+}
+
+// Drop all but the newest `keep` snapshots and any image none of them use
+async function prune(db: IDBDatabase, keep: number): Promise<void> {
+  const tx = db.transaction([SNAPSHOTS, IMAGES], 'readwrite');
+  const snapshots = tx.objectStore(SNAPSHOTS);
+  const images = tx.objectStore(IMAGES);
+  const all = (await request(snapshots.getAll())) as StoredSnapshot[];
+  const kept = all.slice(Math.max(0, all.length - keep));
+  for (const s of all.slice(0, all.length - kept.length)) snapshots.delete(s.id!);
+  const used = new Set(kept.map(s => s.imageId));
+  const dropped = ((await request(images.getAllKeys())) as string[]).filter(id => !used.has(id));
+  for (const id of dropped) images.delete(id);
+  await transactionDone(tx);
+  for (const id of dropped) storedImages.delete(id);
+}
+
+async function writeSnapshot(db: IDBDatabase, state: PanelState, scene: ProjectScene, chat: ChatMessage[]): Promise<void> {
+  const img = state.sourceImage;
+  let imageId = img ? imageIds.get(img) ?? null : null;
+  const dataUrl = img && !(imageId && storedImages.has(imageId)) ? imageToDataUrl(img) : null;
+  if (dataUrl) imageId ??= `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  else if (!imageId || !storedImages.has(imageId)) imageId = null;
+
+  const tx = db.transaction([SNAPSHOTS, IMAGES], 'readwrite');
+  if (imageId && dataUrl) tx.objectStore(IMAGES).put({ id: imageId, dataUrl } satisfies StoredImage);
+  const file = buildProjectFile({ ...state, sourceImage: null }, scene, chat);
+  tx.objectStore(SNAPSHOTS).add({ sessionId: SESSION_ID, savedAt: file.savedAt, file, imageId } satisfies StoredSnapshot);
+  await transactionDone(tx);
+  if (img && imageId) {
+    imageIds.set(img, imageId);
+    storedImages.add(imageId);
+  }
+}
+
+export async function saveSnapshot(state: PanelState, scene: ProjectScene, chat: ChatMessage[]): Promise<void> {
+  const db = await openDb();
+  try {
+    await writeSnapshot(db, state, scene, chat);
+  } catch (err) {
+    if (!isQuotaError(err)) throw err;
+    // Make room by keeping only the newest snapshot, then try once more
+    await prune(db, 1);
+    await writeSnapshot(db, state, scene, chat);
+  }
+  await prune(db, SNAPSHOT_LIMIT);
+}
+
+// The newest snapshot another tab or an earlier visit left behind
+export async function loadLastSession(): Promise<SavedSession | null> {
+  const db = await openDb();
+  const tx = db.transaction([SNAPSHOTS, IMAGES], 'readonly');
+  const all = (await request(tx.objectStore(SNAPSHOTS).getAll())) as StoredSnapshot[];
+  const last = all.filter(s => s.sessionId !== SESSION_ID).pop();
+  if (!last) return null;
+  const image = last.imageId ? (await request(tx.objectStore(IMAGES).get(last.imageId))) as StoredImage | undefined : undefined;
+  const file = migrateProjectFile({ ...last.file, image: image?.dataUrl ?? null });
+  return {
+    savedAt: last.savedAt,
+    title: file.design.quote.projectName || file.design.imageName || 'Untitled wall',
+    file,
+  };
+}
@@ -0,0 +1,203 @@
+import type { PanelState, Panel } from './types';
+import { computeStats } from './panelEngine';
+import { PRICING, materialRate } from './pricing';
+import { getMaterial, materialWeightPerSF, type PanelMaterial } from './materials';
+import { holeArea } from './holeShapes';
+import { panelArea } from './wallOutline';
+
+// ─── Bill of Materials ───────────────────────────────────────────────
+// One report feeds the CSV, the spreadsheet tabs and the PDF table page:
+// per-panel rows, per-panel-per-diameter hole rows and wall-level line items —
+// the pricing lines from computeStats, so their amounts add up to its estimatedTotal.
+
+// Backlight sizing: LED tape runs horizontally behind the panels at a fixed pitch
+// and is powered by constant-voltage drivers loaded to no more than 80%.
+const LED_ROW_PITCH_IN = 6;
+const LED_WATTS_PER_FT = 4.4;
+const DRIVER_WATTS = 96;
+const DRIVER_MAX_LOAD = 0.8;
+
+export interface BomPanelRow {
+  label: string;
+  size: string;
+  w: number;
+  h: number;
+  areaSF: number;       // material area, trimmed outlines included
+  holes: number;
+  openAreaPct: number;
+  weightLb: number;     // after perforation
+  customCut: boolean;
+  price: number;        // panel rate plus any custom-cut surcharge
+}
+
+export interface BomHoleRow {
+  panel: string;
+  diameter: number;
+  count: number;
+  openAreaSqIn: number;
+}
+
+export interface BomLineItem {
+  item: string;
+  description: string;
+  qty: number;
+  unit: string;
+  amount: number | null;  // null = included in another line
+}
+
+export interface BillOfMaterials {
+  panels: BomPanelRow[];
+  holes: BomHoleRow[];
+  items: BomLineItem[];
+  totals: {
+    panels: number;
+    holes: number;
+    areaSF: number;
+    weightLb: number;
+    openAreaPct: number;
+    amount: number;
+  };
+}
+
+function panelRow(state: PanelState, material: PanelMaterial, p: Panel): { row: BomPanelRow; holes: BomHoleRow[] } {
+  const byDiameter = new Map<number, number>();
+  for (const h of p.holes) byDiameter.set(h.d, (byDiameter.get(h.d) ?? 0) + 1);
+  const holes = [...byDiameter]
+    .sort((a, b) => b[0] - a[0])
+    .map(([diameter, count]) => ({
+      panel: p.label,
+      diameter,
+      count,
+      openAreaSqIn: count * holeArea(state.holeShape, diameter, state.slotRatio),
+    }));
+  const area = panelArea(p);
+  const open = holes.reduce((s, h) => s + h.openAreaSqIn, 0);
+  return {
+    row: {
+      label: p.label,
+      size: p.sizeLabel,
+      w: p.w,
+      h: p.h,
+      areaSF: area / 144,
+      holes: p.holes.length,
+      openAreaPct: area > 0 ? (open / area) * 100 : 0,
+      weightLb: (Math.max(0, area - open) / 144) * materialWeightPerSF(material),
+      customCut: !!p.filler,
+      price: (area / 144) * materialRate(material.id) + (p.filler ? PRICING.customCutSurcharge : 0),
+    },
+    holes,
+  };
+}
+
+export function buildBOM(state: PanelState): BillOfMaterials {
+  const stats = computeStats(state);
+  const material = getMaterial(state.material);
+  const panels: BomPanelRow[] = [];
+  const holes: BomHoleRow[] = [];
+  for (const p of state.panels) {
+    const r = panelRow(state, material, p);
+    panels.push(r.row);
+    holes.push(...r.holes);
+  }
+
+  const items: BomLineItem[] = [];
+  for (const line of stats.priceLines) {
+    if (line.kind === 'panels') {
+      items.push({
+        item: line.label,
+        description: `${material.name}, ${material.thickness}" thick, CNC perforated`,
+        qty: +line.qty.toFixed(2),
+        unit: line.unit,
+        amount: line.amount,
+      });
+    } else if (line.kind === 'backlight') {
+      // Tape runs across every panel at the row pitch; area / pitch gives its length
+      const ledFt = Math.ceil((stats.panelSF * 144) / LED_ROW_PITCH_IN / 12);
+      const watts = ledFt * LED_WATTS_PER_FT;
+      const drivers = Math.ceil(watts / (DRIVER_WATTS * DRIVER_MAX_LOAD));
+      const programmable = stats.backlightType === 'programmable';
+      items.push(
+        {
+          item: line.label,
+          description: `Installed behind ${stats.panelSF.toFixed(1)} SF of panels`,
+          qty: +line.qty.toFixed(2),
+          unit: line.unit,
+          amount: line.amount,
+        },
+        {
+          item: programmable ? 'LED tape, addressable RGB' : 'LED tape, RGB',
+          description: `${LED_ROW_PITCH_IN}" row pitch, ${LED_WATTS_PER_FT} W/ft, ${Math.round(watts)} W total`,
+          qty: ledFt,
+          unit: 'LF',
+          amount: null,
+        },
+        {
+          item: 'LED driver',
+          description: `${DRIVER_WATTS} W constant voltage, ≤${DRIVER_MAX_LOAD * 100}% load`,
+          qty: drivers,
+          unit: 'ea',
+          amount: null,
+        },
+      );
+    } else {
+      items.push({ item: line.label, description: line.detail, qty: +line.qty.toFixed(2), unit: line.unit, amount: line.amount });
+    }
+  }
+
+  return {
+    panels,
+    holes,
+    items,
+    totals: {
+      panels: panels.length,
+      holes: stats.totalHoles,
+      areaSF: stats.panelSF,
+      weightLb: panels.reduce((s, p) => s + p.weightLb, 0),
+      openAreaPct: stats.openAreaPct,
+      amount: stats.estimatedTotal,
+    },
+  };
+}
+
+// ─── Tables ──────────────────────────────────────────────────────────
+// Plain rows shared by the CSV, spreadsheet and PDF writers. Numbers stay numbers
+// so spreadsheet cells remain numeric; formatting happens in each writer.
+
+export type BomCell = string | number;
+
+export function bomPanelTable(bom: BillOfMaterials): BomCell[][] {
+  return [
+    ['Panel', 'Size', 'Width (in)', 'Height (in)', 'Area (SF)', 'Holes', 'Open Area (%)', 'Weight (lb)', 'Custom Cut', 'Price (USD)'],
+    ...bom.panels.map(p => [
+      p.label, p.size, +p.w.toFixed(4), +p.h.toFixed(4), +p.areaSF.toFixed(2), p.holes,
+      +p.openAreaPct.toFixed(1), +p.weightLb.toFixed(1), p.customCut ? 'Yes' : '', +p.price.toFixed(2),
+    ]),
+    [
+      'TOTAL', '', '', '', +bom.totals.areaSF.toFixed(2), bom.totals.holes, +bom.totals.openAreaPct.toFixed(1),
+      +bom.totals.weightLb.toFixed(1), '', +bom.panels.reduce((s, p) => s + p.price, 0).toFixed(2),
+    ],
+  ];
+}
+
+export function bomHoleTable(bom: BillOfMaterials): BomCell[][] {
+  const totals = new Map<number, { count: number; area: number }>();
+  for (const h of bom.holes) {
+    const t = totals.get(h.diameter) ?? { count: 0, area: 0 };
+    t.count += h.count;
+    t.area += h.openAreaSqIn;
+    totals.set(h.diameter, t);
+  }
+  return [
+    ['Panel', 'Hole Diameter (in)', 'Count', 'Open Area (sq in)'],
+    ...bom.holes.map(h => [h.panel, +h.diameter.toFixed(4), h.count, +h.openAreaSqIn.toFixed(2)]),
+    ...[...totals].sort((a, b) => b[0] - a[0]).map(([d, t]) => ['TOTAL', +d.toFixed(4), t.count, +t.area.toFixed(2)]),
+  ];
+}
+
+export function bomItemTable(bom: BillOfMaterials): BomCell[][] {
+  return [
+    ['Item', 'Description', 'Qty', 'Unit', 'Amount (USD)'],
+    ...bom.items.map(i => [i.item, i.description, i.qty, i.unit, i.amount === null ? 'Included' : +i.amount.toFixed(2)]),
+    ['ESTIMATED TOTAL', '', '', '', +bom.totals.amount.toFixed(2)],
+  ];
+}
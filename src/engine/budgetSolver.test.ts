@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseBudgetRequest } from './budgetSolver';
+
+describe('parseBudgetRequest', () => {
+  it('rejects missing and non-finite values', () => {
+    expect(parseBudgetRequest(null)).toHaveProperty('error');
+    expect(parseBudgetRequest({})).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: -5 })).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: 'lots' })).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: 5000, fixedHeightFt: 'tall' })).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: 5000, results: 'all' })).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: 5000, backlight: 'neon' })).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: 5000, design: { wallW: 'wide' } })).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: 5000, design: { wallH: 0 } })).toHaveProperty('error');
+  });
+
+  it('accepts only standard panel sizes', () => {
+    const hostile = parseBudgetRequest({
+      budget: 5000, design: { wallW: 480, wallH: 192, enabledWidths: [1, 2, 3, 4], enabledHeights: [96] },
+    });
+    expect(hostile).toEqual({ error: expect.stringContaining('design.enabledWidths') });
+    expect(parseBudgetRequest({ budget: 5000, design: { enabledHeights: [] } })).toHaveProperty('error');
+    expect(parseBudgetRequest({ budget: 5000, design: { enabledHeights: 96 } })).toHaveProperty('error');
+
+    const parsed = parseBudgetRequest({ budget: 5000, design: { enabledWidths: [48, 24, 48], enabledHeights: [96] } });
+    expect(parsed).toMatchObject({ request: { design: { enabledWidths: [48, 24], enabledHeights: [96] } } });
+  });
+
+  it('rejects null, out-of-range and unknown design values', () => {
+    for (const design of [
+      { enabledWidths: null },
+      { wallShape: null },
+      { panelGap: 40 },
+      { fillerMin: 0.01 },
+      { sawKerf: -1 },
+      { layoutMode: 'diagonal' },
+      { material: 'unobtainium' },
+      { discount: 'friends' },
+      { backlight: 'yes' },
+      { stockSheets: [{ id: 'a', name: 'A', w: 0.1, h: 96, cost: 500, enabled: true }] },
+      { stockSheets: Array.from({ length: 50 }, (_, i) => ({ id: `s${i}`, name: 'S', w: 48, h: 96, cost: 500, enabled: true })) },
+    ]) {
+      expect(parseBudgetRequest({ budget: 5000, design }), JSON.stringify(design)).toHaveProperty('error');
+    }
+  });
+
+  it('clamps the wall, fixed height and result count', () => {
+    const parsed = parseBudgetRequest({
+      budget: '25000', fixedHeightFt: 30, results: 1e6,
+      design: { wallW: 12_000, wallH: 2_400, material: 'aluminum-125', grayPixels: [1, 2, 3] },
+    });
+    expect(parsed).toEqual({
+      request: {
+        design: { wallW: 480, wallH: 192, material: 'aluminum-125' },
+        budget: 25000,
+        fixedHeightFt: 16,
+        backlight: undefined,
+        results: 20,
+      },
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import type { PanelState, StockSheet } from './types';
+import { DEFAULT_PANEL_STATE, STANDARD_HEIGHTS, STANDARD_WIDTHS } from './types';
+import { computeStats, describePanelCount, solveAndBuildPanels } from './panelEngine';
+import { PRICING } from './pricing';
+import { MATERIALS } from './materials';
+
+// ─── Budget Solver ───────────────────────────────────────────────────
+// Answers "what can I get for $X?" without the chat model doing arithmetic.
+// Every panel field that fits inside the requested wall — widths and heights in
+// half-foot steps down to the smallest enabled panel — is laid out with the same
+// solver the app uses, then priced by computeStats under each allowed backlight
+// type. Designs over budget are dropped and the rest ranked by how much of the
+// requested wall they cover. The hole pattern only reaches the price through
+// machining charges, which are left out, so no holes are computed and the result
+// is the same on the client and the server.
+
+export type BudgetBacklight = 'none' | 'solid' | 'programmable';
+
+export interface BudgetConstraints {
+  budget: number;            // USD, all-in
+  fixedHeight?: number;      // inches; the wall height is not negotiable
+  backlight?: BudgetBacklight;  // must-have backlight type; any when omitted
+  results?: number;          // how many designs to return (default 5)
+}
+
+export interface BudgetOption {
+  params: Partial<PanelState>;  // apply these to get the design
+  backlight: BudgetBacklight;
+  layout: string;
+  panelCount: number;
+  panelSF: number;
+  coveragePct: number;       // of the requested wall
+  estimatedTotal: number;
+}
+
+export interface BudgetFit {
+  constraints: BudgetConstraints;
+  options: BudgetOption[];
+  note: string | null;
+  evaluations: number;
+}
+
+export const BUDGET_BACKLIGHT_LABELS: Record<BudgetBacklight, string> = {
+  none: 'No backlight',
+  solid: 'Solid',
+  programmable: 'Programmable',
+};
+
+// Everything layout and pricing read; a server caller only needs to send these
+export const BUDGET_DESIGN_KEYS = [
+  'wallW', 'wallH', 'wallShape', 'panelGap', 'enabledWidths', 'enabledHeights', 'layoutMode',
+  'fillerMode', 'fillerMin', 'fillerMax', 'layoutRanking', 'stockSheets', 'sawKerf', 'material',
+  'backlight', 'backlightMode', 'discount',
+] as const satisfies readonly (keyof PanelState)[];
+
+const SIZE_STEP = 6;  // inches between candidate wall sizes
+const DEFAULT_RESULTS = 5;
+
+const BACKLIGHT_PARAMS: Record<BudgetBacklight, Partial<PanelState>> = {
+  none: { backlight: false },
+  solid: { backlight: true, backlightMode: 'solid' },
+  programmable: { backlight: true, backlightMode: 'gradient' },
+};
+
+// Richer lighting ranks first when two designs cover the same area
+const BACKLIGHT_RANK: Record<BudgetBacklight, number> = { none: 0, solid: 1, programmable: 2 };
+
+// Sizes from the full dimension down to the smallest panel that can fill it
+function candidateSizes(full: number, sizes: number[]): number[] {
+  const floor = Math.min(full, ...sizes);
+  const out: number[] = [];
+  for (let v = full; v >= floor; v -= SIZE_STEP) out.push(v);
+  return out;
+}
+
+export function fitBudget(state: PanelState, constraints: BudgetConstraints): BudgetFit {
+  const fit: BudgetFit = { constraints, options: [], note: null, evaluations: 0 };
+  if (state.wallShape !== 'rect') {
+    fit.note = 'Budget fitting sizes rectangular walls; switch the wall shape to Rectangle first.';
+    return fit;
+  }
+  if (!state.enabledWidths.length || !state.enabledHeights.length) {
+    fit.note = 'Enable at least one panel width and height.';
+    return fit;
+  }
+
+  const wallH = constraints.fixedHeight ?? state.wallH;
+  const wallArea = state.wallW * wallH;
+  const heights = constraints.fixedHeight ? [constraints.fixedHeight] : candidateSizes(wallH, state.enabledHeights);
+  const widths = candidateSizes(state.wallW, state.enabledWidths);
+  const backlights: BudgetBacklight[] = constraints.backlight ? [constraints.backlight] : ['none', 'solid', 'programmable'];
+
+  // Smaller walls often tile to the same panels as a larger one; keep the tightest wall
+  const seen = new Map<string, BudgetOption>();
+  let cheapest = Infinity;
+  for (const h of heights) {
+    for (const w of widths) {
+      const sized: PanelState = { ...state, wallW: w, wallH: h, selectedLayoutIdx: 0 };
+      const built = solveAndBuildPanels(sized);
+      if (!built.panels.length) continue;
+      const laidOut = { ...sized, ...built };
+      for (const b of backlights) {
+        fit.evaluations++;
+        const stats = computeStats({ ...laidOut, ...BACKLIGHT_PARAMS[b] });
+        cheapest = Math.min(cheapest, stats.estimatedTotal);
+        if (stats.estimatedTotal > constraints.budget) continue;
+        const key = `${built.panels.map(p => `${p.w}x${p.h}`).sort().join(';')}|${b}`;
+        seen.set(key, {
+          params: { wallW: w, wallH: h, selectedLayoutIdx: 0, ...BACKLIGHT_PARAMS[b] },
+          backlight: b,
+          layout: describePanelCount(laidOut),
+          panelCount: built.panels.length,
+          panelSF: stats.panelSF,
+          coveragePct: (stats.panelSF * 144 / wallArea) * 100,
+          estimatedTotal: stats.estimatedTotal,
+        });
+      }
+    }
+  }
+
+  const coverage = (o: BudgetOption) => Math.round(o.coveragePct * 10);
+  fit.options = [...seen.values()]
+    .sort((a, b) =>
+      coverage(b) - coverage(a) ||
+      BACKLIGHT_RANK[b.backlight] - BACKLIGHT_RANK[a.backlight] ||
+      a.estimatedTotal - b.estimatedTotal ||
+      b.params.wallW! - a.params.wallW! ||
+      b.params.wallH! - a.params.wallH!)
+    .slice(0, constraints.results ?? DEFAULT_RESULTS);
+
+  if (!fit.options.length) {
+    fit.note = cheapest < Infinity
+      ? `Nothing fits — the smallest panel field with these constraints costs $${Math.ceil(cheapest).toLocaleString('en-US')}.`
+      : 'No panel layout fits the wall with the enabled panel sizes.';
+  } else if (PRICING.machining.perHole > 0 || PRICING.machining.perMachineMinute > 0) {
+    fit.note = 'Prices leave out machining, which is billed on the final hole pattern.';
+  }
+  return fit;
+}
+
+// ─── Server Entry ────────────────────────────────────────────────────
+// The /api/budget endpoint and the chat's fit_budget tool receive the design as
+// plain JSON (BUDGET_DESIGN_KEYS, wall in inches) and reply in feet, the unit the
+// chat parameters use.
+
+export interface BudgetRequest {
+  design: Partial<PanelState>;
+  budget: number;
+  fixedHeightFt?: number;
+  backlight?: BudgetBacklight;
+  results?: number;
+}
+
+// Requests come off the network, so the work one call can ask for is bounded: the
+// candidate count grows with wall width × height (a 50' × 20' wall is seconds of CPU),
+// and the layout search per candidate with the number of panel sizes and how small
+// they are, so only the standard sizes are accepted
+const MAX_REQUEST_WALL_W = 480;   // 40 ft
+const MAX_REQUEST_WALL_H = 192;   // 16 ft
+const MAX_REQUEST_RESULTS = 20;
+const MAX_REQUEST_SHEETS = 12;
+const MAX_REQUEST_SHEET_SIDE = 240;
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// How to read one design field off the wire: `parse` returns the value to use, or
+// undefined when the field is unusable and the request is rejected
+interface DesignFieldRule {
+  expect: string;
+  parse: (v: unknown) => unknown;
+}
+
+const oneOf = (options: readonly string[]): DesignFieldRule => ({
+  expect: `one of ${options.map(o => `"${o}"`).join(', ')}`,
+  parse: v => (typeof v === 'string' && options.includes(v) ? v : undefined),
+});
+
+const inRange = (min: number, max: number, unit: string): DesignFieldRule => ({
+  expect: `a number of ${unit} from ${min} to ${max}`,
+  parse: v => (isFiniteNumber(v) && v >= min && v <= max ? v : undefined),
+});
+
+const clampedWall = (max: number): DesignFieldRule => ({
+  expect: 'a positive number of inches',
+  parse: v => (isFiniteNumber(v) && v > 0 ? Math.min(v, max) : undefined),
+});
+
+const standardSizes = (sizes: number[]): DesignFieldRule => ({
+  expect: `a non-empty list drawn from ${sizes.join(', ')}`,
+  parse: v => Array.isArray(v) && v.length > 0 && v.every(s => sizes.includes(s))
+    ? [...new Set(v as number[])]
+    : undefined,
+});
+
+const isSide = (v: unknown): v is number => isFiniteNumber(v) && v >= 1 && v <= MAX_REQUEST_SHEET_SIDE;
+
+const stockSheets: DesignFieldRule = {
+  expect: `a list of up to ${MAX_REQUEST_SHEETS} sheets with id, name, w and h (1–${MAX_REQUEST_SHEET_SIDE} in), cost and enabled`,
+  parse: v => {
+    if (!Array.isArray(v) || v.length > MAX_REQUEST_SHEETS) return undefined;
+    const sheets: StockSheet[] = [];
+    for (const sh of v) {
+      if (!isPlainObject(sh) || typeof sh.id !== 'string' || typeof sh.name !== 'string' ||
+        !isSide(sh.w) || !isSide(sh.h) || !isFiniteNumber(sh.cost) || sh.cost < 0 ||
+        typeof sh.enabled !== 'boolean') return undefined;
+      sheets.push({ id: sh.id, name: sh.name, w: sh.w, h: sh.h, cost: sh.cost, enabled: sh.enabled });
+    }
+    return sheets;
+  },
+};
+
+// Ranges follow the app's own controls
+const DESIGN_FIELD_RULES: Record<(typeof BUDGET_DESIGN_KEYS)[number], DesignFieldRule> = {
+  wallW: clampedWall(MAX_REQUEST_WALL_W),
+  wallH: clampedWall(MAX_REQUEST_WALL_H),
+  wallShape: oneOf(['rect', 'raked', 'arch', 'polygon'] satisfies PanelState['wallShape'][]),
+  panelGap: inRange(0, 4, 'inches'),
+  enabledWidths: standardSizes(STANDARD_WIDTHS),
+  enabledHeights: standardSizes(STANDARD_HEIGHTS),
+  layoutMode: oneOf(['grid', 'running-bond', 'vertical-stack'] satisfies PanelState['layoutMode'][]),
+  fillerMode: oneOf(['none', 'single', 'symmetric'] satisfies PanelState['fillerMode'][]),
+  fillerMin: inRange(1, 24, 'inches'),
+  fillerMax: inRange(1, 48, 'inches'),
+  layoutRanking: oneOf(['coverage', 'yield'] satisfies PanelState['layoutRanking'][]),
+  stockSheets,
+  sawKerf: inRange(0, 0.5, 'inches'),
+  material: oneOf(MATERIALS.map(m => m.id)),
+  backlight: { expect: 'true or false', parse: v => (typeof v === 'boolean' ? v : undefined) },
+  backlightMode: oneOf(['solid', 'gradient'] satisfies PanelState['backlightMode'][]),
+  discount: oneOf(['', ...PRICING.discounts.map(d => d.id)]),
+};
+
+// Check a request body and bring it within the server limits; the error is fit for a 400
+export function parseBudgetRequest(body: unknown): { request: BudgetRequest } | { error: string } {
+  if (!isPlainObject(body)) return { error: 'The request body must be a JSON object.' };
+  const budget = typeof body.budget === 'string' ? Number(body.budget) : body.budget;
+  if (!isFiniteNumber(budget) || budget <= 0) return { error: 'A positive budget is required.' };
+
+  const optional = (key: string) => body[key] === undefined || body[key] === null ? undefined : body[key];
+  const fixedHeightFt = optional('fixedHeightFt');
+  if (fixedHeightFt !== undefined && (!isFiniteNumber(fixedHeightFt) || fixedHeightFt <= 0)) {
+    return { error: 'fixedHeightFt must be a positive number of feet.' };
+  }
+  const results = optional('results');
+  if (results !== undefined && !isFiniteNumber(results)) return { error: 'results must be a number.' };
+  const backlight = optional('backlight');
+  if (backlight !== undefined && !(typeof backlight === 'string' && backlight in BACKLIGHT_PARAMS)) {
+    return { error: `backlight must be one of ${Object.keys(BACKLIGHT_PARAMS).join(', ')}.` };
+  }
+
+  const rawDesign = optional('design') ?? {};
+  if (!isPlainObject(rawDesign)) return { error: 'design must be an object.' };
+  const design: Record<string, unknown> = {};
+  for (const k of BUDGET_DESIGN_KEYS) {
+    if (rawDesign[k] === undefined) continue;
+    const rule = DESIGN_FIELD_RULES[k];
+    const v = rule.parse(rawDesign[k]);
+    if (v === undefined) return { error: `design.${k} must be ${rule.expect}.` };
+    design[k] = v;
+  }
+
+  return {
+    request: {
+      design: design as Partial<PanelState>,
+      budget,
+      fixedHeightFt: fixedHeightFt === undefined ? undefined : Math.min(fixedHeightFt, MAX_REQUEST_WALL_H / 12),
+      backlight: backlight as BudgetBacklight | undefined,
+      results: results === undefined ? undefined : Math.max(1, Math.min(MAX_REQUEST_RESULTS, Math.round(results))),
+    },
+  };
+}
+
+export function fitBudgetForDesign(req: BudgetRequest) {
+  const state = { ...DEFAULT_PANEL_STATE } as PanelState;
+  for (const k of BUDGET_DESIGN_KEYS) {
+    if (req.design[k] !== undefined) (state as unknown as Record<string, unknown>)[k] = req.design[k];
+  }
+  const fit = fitBudget(state, {
+    budget: req.budget,
+    fixedHeight: req.fixedHeightFt ? req.fixedHeightFt * 12 : undefined,
+    backlight: req.backlight,
+    results: req.results,
+  });
+  return {
+    options: fit.options.map(o => ({
+      wallW: +(o.params.wallW! / 12).toFixed(2),
+      wallH: +(o.params.wallH! / 12).toFixed(2),
+      backlight: o.backlight,
+      layout: o.layout,
+      panelCount: o.panelCount,
+      panelSF: +o.panelSF.toFixed(1),
+      coveragePct: +o.coveragePct.toFixed(1),
+      estimatedTotal: Math.round(o.estimatedTotal),
+      params: o.params,
+    })),
+    note: fit.note,
+  };
+}
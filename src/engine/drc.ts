@@ -0,0 +1,241 @@
+import type { PanelState, Panel, PanelHole } from './types';
+import { holeArea, holeOutline } from './holeShapes';
+import { panelArea } from './wallOutline';
+import { panelCutouts } from './keepOuts';
+import { distToSegment, pointInPolygon, segmentDistance, type Polygon } from './geometry';
+import { getMaterial } from './materials';
+
+// ─── Fabrication Design-Rule Check ───────────────────────────────────
+// Walks every hole on every panel and reports what the shop could not make:
+// webs between neighbouring holes and to the panel edge (or a cutout) narrower
+// than the material allows, holes below the material's minimum size, panels
+// opened up past their structural limit and panels with more hits than one
+// punch program can hold. Distances are measured between true hole footprints,
+// so slots and polygons are checked by their edges, not their bounding circles.
+
+export type DrcRule = 'min-web' | 'edge-distance' | 'min-hole' | 'open-area' | 'hole-count';
+
+export const DRC_RULE_LABELS: Record<DrcRule, string> = {
+  'min-web': 'Web between holes',
+  'edge-distance': 'Hole to edge',
+  'min-hole': 'Hole size',
+  'open-area': 'Open area',
+  'hole-count': 'Holes per panel',
+};
+
+// Hits one punch-press program can hold; larger panels must be split or re-spaced
+export const MAX_HOLES_PER_PANEL = 3000;
+
+// Markers kept per violation — enough to find the problem without flooding the view
+const MAX_MARKERS = 400;
+
+export interface DrcMarker {
+  x: number;  // wall inches
+  y: number;
+  r: number;  // reach of the offending hole
+}
+
+export interface DrcViolation {
+  rule: DrcRule;
+  severity: 'error' | 'warning';
+  panel: string;
+  count: number;       // offending holes, or 1 for panel-wide rules
+  worst: number;       // narrowest web, smallest hole, highest open % or hole count
+  limit: number;
+  message: string;
+  markers: DrcMarker[];  // empty for panel-wide rules
+}
+
+// The design fields the check reads; callers memoize on exactly these
+export type DrcInput = Pick<PanelState, 'panels' | 'holeShape' | 'slotRatio' | 'material' | 'keepOuts'>;
+
+export interface DrcReport {
+  violations: DrcViolation[];
+  errors: number;
+  warnings: number;
+}
+
+// Circles and slots are capsules (a circle's axis has zero length); the other
+// shapes are convex polygons
+type Footprint =
+  | { kind: 'capsule'; a: [number, number]; b: [number, number]; r: number }
+  | { kind: 'polygon'; pts: Polygon };
+
+function footprint(state: DrcInput, h: PanelHole): Footprint {
+  const r = h.d / 2;
+  if (state.holeShape === 'circle') return { kind: 'capsule', a: [h.x, h.y], b: [h.x, h.y], r };
+  if (state.holeShape === 'slot') {
+    const half = (h.d * Math.max(1, state.slotRatio)) / 2 - r;
+    const a = h.a ?? 0;
+    const dx = Math.cos(a) * half, dy = Math.sin(a) * half;
+    return { kind: 'capsule', a: [h.x - dx, h.y - dy], b: [h.x + dx, h.y + dy], r };
+  }
+  return { kind: 'polygon', pts: holeOutline(state.holeShape, h, state.slotRatio)!.map(v => [v.x, v.y]) };
+}
+
+// Farthest any part of the hole reaches from its center
+function holeReach(state: DrcInput, d: number): number {
+  if (state.holeShape === 'slot') return (d * Math.max(1, state.slotRatio)) / 2;
+  if (state.holeShape === 'square') return (d / 2) * Math.SQRT2;
+  return d / 2;
+}
+
+function contains(f: Footprint, x: number, y: number): boolean {
+  return f.kind === 'capsule' ? distToSegment(x, y, f.a, f.b) <= f.r : pointInPolygon(x, y, f.pts);
+}
+
+// Clear distance from a footprint to a segment; 0 when they touch or cross
+function gapToSegment(f: Footprint, p: [number, number], q: [number, number]): number {
+  if (f.kind === 'capsule') return Math.max(0, segmentDistance(f.a, f.b, p, q) - f.r);
+  let best = Infinity;
+  for (let i = 0; i < f.pts.length; i++) {
+    best = Math.min(best, segmentDistance(f.pts[i], f.pts[(i + 1) % f.pts.length], p, q));
+  }
+  return best;
+}
+
+// Clear distance between two footprints; 0 when they overlap
+function gapBetween(f: Footprint, g: Footprint): number {
+  if (f.kind === 'capsule' && g.kind === 'capsule') {
+    return Math.max(0, segmentDistance(f.a, f.b, g.a, g.b) - f.r - g.r);
+  }
+  const poly = f.kind === 'polygon' ? f : (g as Extract<Footprint, { kind: 'polygon' }>);
+  const other = poly === f ? g : f;
+  // One footprint swallowed by the other never crosses an edge
+  const inner = other.kind === 'capsule' ? other.a : other.pts[0];
+  if (pointInPolygon(inner[0], inner[1], poly.pts) || contains(other, poly.pts[0][0], poly.pts[0][1])) return 0;
+  let best = Infinity;
+  for (let i = 0; i < poly.pts.length; i++) {
+    best = Math.min(best, gapToSegment(other, poly.pts[i], poly.pts[(i + 1) % poly.pts.length]));
+  }
+  return best;
+}
+
+// Clear distance from a footprint to a round cutout of radius r at (x, y)
+function gapToCircle(f: Footprint, x: number, y: number, r: number): number {
+  if (f.kind === 'capsule') return Math.max(0, distToSegment(x, y, f.a, f.b) - f.r - r);
+  if (pointInPolygon(x, y, f.pts)) return 0;
+  let best = Infinity;
+  for (let i = 0; i < f.pts.length; i++) {
+    best = Math.min(best, distToSegment(x, y, f.pts[i], f.pts[(i + 1) % f.pts.length]));
+  }
+  return Math.max(0, best - r);
+}
+
+interface Tally {
+  count: number;
+  worst: number;
+  markers: DrcMarker[];
+}
+
+function checkPanel(state: DrcInput, p: Panel, out: DrcViolation[]) {
+  const m = getMaterial(state.material);
+  const holes = p.holes;
+  const feet = holes.map(h => footprint(state, h));
+  const reach = holes.map(h => holeReach(state, h.d));
+  const tally = (): Tally => ({ count: 0, worst: Infinity, markers: [] });
+  const hit = (t: Tally, i: number, value: number) => {
+    t.count++;
+    t.worst = Math.min(t.worst, value);
+    if (t.markers.length < MAX_MARKERS) t.markers.push({ x: p.x + holes[i].x, y: p.y + holes[i].y, r: reach[i] });
+  };
+  const eps = 1e-6;
+
+  // Hole size
+  const small = tally();
+  holes.forEach((h, i) => { if (h.d < m.minHole - eps) hit(small, i, h.d); });
+
+  // Web between neighbours — bucket holes so each is only compared with nearby ones
+  const web = tally();
+  const maxReach = Math.max(...reach);
+  const cell = 2 * maxReach + m.minWeb;
+  const grid = new Map<number, number[]>();
+  const key = (cx: number, cy: number) => cx * 65536 + cy;
+  holes.forEach((h, i) => {
+    const k = key(Math.floor(h.x / cell), Math.floor(h.y / cell));
+    const bucket = grid.get(k);
+    if (bucket) bucket.push(i); else grid.set(k, [i]);
+  });
+  const thinWeb = new Float64Array(holes.length).fill(Infinity);
+  holes.forEach((h, i) => {
+    const cx = Math.floor(h.x / cell), cy = Math.floor(h.y / cell);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const j of grid.get(key(cx + dx, cy + dy)) ?? []) {
+          if (j <= i) continue;
+          const o = holes[j];
+          if (Math.hypot(o.x - h.x, o.y - h.y) - reach[i] - reach[j] >= m.minWeb) continue;
+          const gap = gapBetween(feet[i], feet[j]);
+          if (gap < m.minWeb - eps) {
+            thinWeb[i] = Math.min(thinWeb[i], gap);
+            thinWeb[j] = Math.min(thinWeb[j], gap);
+          }
+        }
+      }
+    }
+  });
+  thinWeb.forEach((gap, i) => { if (gap < Infinity) hit(web, i, gap); });
+
+  // Hole to panel edge and to cutouts
+  const edge = tally();
+  const boundary: Polygon = p.outline ?? [[0, 0], [p.w, 0], [p.w, p.h], [0, p.h]];
+  const rings: Polygon[] = [boundary];
+  const rounds: { x: number; y: number; r: number }[] = [];
+  for (const cut of panelCutouts(state.keepOuts, p)) {
+    if (cut.kind === 'circle') rounds.push(cut); else rings.push(cut.points);
+  }
+  holes.forEach((h, i) => {
+    let gap = Infinity;
+    for (const ring of rings) {
+      // Only edges the hole could be near
+      for (let k = 0; k < ring.length && gap > 0; k++) {
+        const a = ring[k], b = ring[(k + 1) % ring.length];
+        if (distToSegment(h.x, h.y, a, b) - reach[i] >= m.minWeb) continue;
+        gap = Math.min(gap, gapToSegment(feet[i], a, b));
+      }
+    }
+    for (const c of rounds) gap = Math.min(gap, gapToCircle(feet[i], c.x, c.y, c.r));
+    if (gap < m.minWeb - eps) hit(edge, i, gap);
+  });
+
+  const fmt = (v: number) => `${+v.toFixed(3)}"`;
+  const push = (rule: DrcRule, severity: DrcViolation['severity'], t: Tally, limit: number, message: string) => {
+    out.push({ rule, severity, panel: p.label, count: t.count, worst: t.worst, limit, message, markers: t.markers });
+  };
+  const holesWord = (n: number) => `${n} hole${n === 1 ? '' : 's'}`;
+  if (small.count) {
+    push('min-hole', 'error', small, m.minHole,
+      `${holesWord(small.count)} below the ${fmt(m.minHole)} minimum for ${m.name} (smallest ${fmt(small.worst)})`);
+  }
+  if (web.count) {
+    push('min-web', 'error', web, m.minWeb,
+      `${holesWord(web.count)} leave less than a ${fmt(m.minWeb)} web (${web.worst > 0 ? `narrowest ${fmt(web.worst)}` : 'overlapping'})`);
+  }
+  if (edge.count) {
+    push('edge-distance', 'error', edge, m.minWeb,
+      `${holesWord(edge.count)} closer than ${fmt(m.minWeb)} to an edge or cutout (closest ${fmt(edge.worst)})`);
+  }
+
+  const area = panelArea(p);
+  const openPct = area > 0 ? (holes.reduce((s, h) => s + holeArea(state.holeShape, h.d, state.slotRatio), 0) / area) * 100 : 0;
+  if (openPct > m.maxOpenAreaPct) {
+    push('open-area', 'warning', { count: 1, worst: openPct, markers: [] }, m.maxOpenAreaPct,
+      `${openPct.toFixed(1)}% open exceeds the ${m.maxOpenAreaPct}% structural limit for ${m.name}`);
+  }
+  if (holes.length > MAX_HOLES_PER_PANEL) {
+    push('hole-count', 'error', { count: 1, worst: holes.length, markers: [] }, MAX_HOLES_PER_PANEL,
+      `${holes.length.toLocaleString()} holes exceed the ${MAX_HOLES_PER_PANEL.toLocaleString()}-hit punch program limit`);
+  }
+}
+
+export function checkDesignRules(state: DrcInput): DrcReport {
+  const violations: DrcViolation[] = [];
+  for (const p of state.panels) {
+    if (p.holes.length) checkPanel(state, p, violations);
+  }
+  return {
+    violations,
+    errors: violations.filter(v => v.severity === 'error').length,
+    warnings: violations.filter(v => v.severity === 'warning').length,
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import DxfParser from 'dxf-parser';
+import type { IDxf } from 'dxf-parser';
+import type { Panel, PanelHole } from './types';
+import { DEFAULT_PANEL_STATE } from './types';
+import { buildDXF } from './exportEngine';
+import type { DxfVersion } from './dxf';
+
+// Read the drawing back the way a CAD program would; throws on a malformed file
+function readDXF(dxf: string): IDxf {
+  const parsed = new DxfParser().parseSync(dxf);
+  expect(parsed).not.toBeNull();
+  return parsed!;
+}
+
+function holeGrid(cols: number, rows: number, d: (i: number) => number): PanelHole[] {
+  const holes: PanelHole[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) holes.push({ x: 1 + c, y: 1 + r, d: d(r * cols + c) });
+  }
+  return holes;
+}
+
+const panel = (x: number, label: string, holes: PanelHole[]): Panel => ({
+  x, y: 0, w: 48, h: 120, col: x / 48, row: 0, label, sizeLabel: '48×120', holes,
+});
+
+const state = { ...DEFAULT_PANEL_STATE, wallW: 96, wallH: 120 };
+const panels = [
+  panel(0, 'A1', holeGrid(4, 3, i => (i % 2 ? 0.5 : 0.75))),
+  panel(48, 'A2', holeGrid(2, 2, () => 0.25)),
+];
+
+describe('buildDXF', () => {
+  it.each<[DxfVersion, string, string]>([
+    ['R12', 'AC1009', 'POLYLINE'],
+    ['R2000', 'AC1015', 'LWPOLYLINE'],
+  ])('writes a %s drawing a DXF reader accepts', (version, acadver, outline) => {
+    const dxf = readDXF(buildDXF(state, panels, version));
+
+    expect(dxf.header.$ACADVER).toBe(acadver);
+    expect(dxf.header.$INSUNITS).toBe(1);
+
+    const holeLayers = version === 'R12'
+      ? ['HOLE_0_750', 'HOLE_0_500', 'HOLE_0_250']
+      : ['HOLE_0.750', 'HOLE_0.500', 'HOLE_0.250'];
+    expect(Object.keys(dxf.tables.layer.layers)).toEqual(['0', 'PANEL', ...holeLayers, 'CUTOUT', 'LABELS']);
+
+    const types = dxf.entities.map(e => e.type);
+    expect(new Set(types)).toEqual(new Set(['CIRCLE', outline, 'TEXT']));
+    expect(types.filter(t => t === outline)).toHaveLength(2);
+    expect(types.filter(t => t === 'TEXT')).toHaveLength(2);
+
+    // Every circle sits on the layer for its diameter, at half that diameter
+    const circles = dxf.entities.filter(e => e.type === 'CIRCLE') as unknown as { layer: string; radius: number }[];
+    expect(circles).toHaveLength(16);
+    const radii: Record<string, number> = { [holeLayers[0]]: 0.375, [holeLayers[1]]: 0.25, [holeLayers[2]]: 0.125 };
+    for (const c of circles) expect(c.radius).toBeCloseTo(radii[c.layer]);
+    expect(circles.filter(c => c.layer === holeLayers[0])).toHaveLength(6);
+    expect(circles.filter(c => c.layer === holeLayers[2])).toHaveLength(4);
+
+    if (version === 'R2000') {
+      // Handles are unique, below the seed, and every entity is owned by model space
+      const handles = dxf.entities.map(e => parseInt(String(e.handle), 16));
+      expect(new Set(handles).size).toBe(handles.length);
+      expect(Math.max(...handles)).toBeLessThan(parseInt(String(dxf.header.$HANDSEED), 16));
+      const modelSpace = dxf.blocks['*Model_Space'];
+      expect(modelSpace).toBeDefined();
+      expect(dxf.entities.every(e => e.ownerHandle === modelSpace.ownerHandle)).toBe(true);
+    }
+  });
+
+  it('writes a full-wall drawing with more holes than fit in one call', () => {
+    const big = [panel(0, 'A1', holeGrid(400, 400, () => 0.5))];
+    const dxf = readDXF(buildDXF({ ...state, wallW: 48 }, big, 'R2000'));
+    expect(dxf.entities.filter(e => e.type === 'CIRCLE')).toHaveLength(160_000);
+  });
+});
@@ -0,0 +1,300 @@
+// ─── DXF Writer ──────────────────────────────────────────────────────
+// Builds a complete DXF drawing (HEADER, TABLES, BLOCKS, ENTITIES and, for R2000,
+// CLASSES/OBJECTS) from a flat list of layers and entities. Coordinates are in
+// inches with Y up; callers do any flipping from screen space before adding entities.
+//
+// R12 (AC1009) has no lightweight polylines, so closed outlines are written as
+// POLYLINE/VERTEX/SEQEND there and as LWPOLYLINE in R2000 (AC1015). R12 layer
+// names may only contain letters, digits, '$', '-' and '_', so other characters
+// are replaced with '_' (HOLE_0.750 becomes HOLE_0_750).
+
+export type DxfVersion = 'R12' | 'R2000';
+
+export interface DxfLayer {
+  name: string;
+  color: number;  // AutoCAD color index
+}
+
+export interface DxfVertex {
+  x: number;
+  y: number;
+  bulge?: number;  // tan(θ/4) of the arc to the next vertex, positive = counter-clockwise
+}
+
+export type DxfEntity =
+  | { type: 'circle'; layer: string; x: number; y: number; r: number }
+  | { type: 'polyline'; layer: string; points: DxfVertex[]; closed: boolean }
+  | { type: 'text'; layer: string; x: number; y: number; height: number; text: string };
+
+export interface DxfDrawing {
+  layers: DxfLayer[];
+  entities: DxfEntity[];
+}
+
+const ACADVER: Record<DxfVersion, string> = { R12: 'AC1009', R2000: 'AC1015' };
+
+// $INSUNITS 1 = inches
+const INSUNITS_INCHES = 1;
+
+export function dxfLayerName(name: string, version: DxfVersion): string {
+  return version === 'R12' ? name.toUpperCase().replace(/[^A-Z0-9$_-]/g, '_') : name;
+}
+
+const num = (v: number) => (Math.abs(v) < 5e-7 ? 0 : v).toFixed(6).replace(/\.?0+$/, '');
+
+// Text values cannot contain line breaks; everything else passes through
+const str = (s: string) => s.replace(/[\r\n]+/g, ' ');
+
+function extents(entities: DxfEntity[]): [number, number, number, number] {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  const add = (x: number, y: number) => {
+    x0 = Math.min(x0, x); y0 = Math.min(y0, y);
+    x1 = Math.max(x1, x); y1 = Math.max(y1, y);
+  };
+  for (const e of entities) {
+    if (e.type === 'circle') {
+      add(e.x - e.r, e.y - e.r);
+      add(e.x + e.r, e.y + e.r);
+    } else if (e.type === 'polyline') {
+      for (const p of e.points) add(p.x, p.y);
+    } else {
+      add(e.x, e.y);
+    }
+  }
+  return isFinite(x0) ? [x0, y0, x1, y1] : [0, 0, 0, 0];
+}
+
+export function writeDXF(drawing: DxfDrawing, version: DxfVersion): string {
+  const modern = version === 'R2000';
+  const out: string[] = [];
+  const g = (code: number, value: string | number) => {
+    out.push(String(code), typeof value === 'number' ? num(value) : value);
+  };
+
+  // Handles are written for R2000 only; '0' is reserved for "no owner"
+  let nextHandle = 0x10;
+  const handle = () => (nextHandle++).toString(16).toUpperCase();
+
+  // Layer 0 always exists; a repeated name keeps its first color
+  const layers: DxfLayer[] = [{ name: '0', color: 7 }];
+  for (const l of drawing.layers) {
+    const name = dxfLayerName(l.name, version);
+    if (!layers.some(x => x.name === name)) layers.push({ name, color: l.color });
+  }
+  const layerOf = (name: string) => dxfLayerName(name, version);
+
+  let modelSpace = '';
+  let paperSpace = '';
+
+  // Body first so $HANDSEED can be written once every handle is allocated.
+  // TABLES
+  const table = (name: string, entries: ((owner: string) => void)[], subclass?: () => void) => {
+    g(0, 'TABLE');
+    g(2, name);
+    let owner = '';
+    if (modern) {
+      owner = handle();
+      g(5, owner);
+      g(330, '0');
+      g(100, 'AcDbSymbolTable');
+    }
+    g(70, String(entries.length));
+    subclass?.();
+    for (const entry of entries) entry(owner);
+    g(0, 'ENDTAB');
+  };
+  const record = (type: string, owner: string, subclass: string, handleCode = 5) => {
+    g(0, type);
+    if (!modern) return;
+    g(handleCode, handle());
+    g(330, owner);
+    g(100, 'AcDbSymbolTableRecord');
+    g(100, subclass);
+  };
+
+  g(0, 'SECTION');
+  g(2, 'TABLES');
+  if (modern) table('VPORT', []);
+  table('LTYPE', [
+    ...(modern ? ['ByBlock', 'ByLayer'] : []),
+    modern ? 'Continuous' : 'CONTINUOUS',
+  ].map(name => (owner: string) => {
+    record('LTYPE', owner, 'AcDbLinetypeTableRecord');
+    g(2, name);
+    g(70, '0');
+    g(3, name.startsWith('C') ? 'Solid line' : '');
+    g(72, '65');
+    g(73, '0');
+    g(40, 0);
+  }));
+  table('LAYER', layers.map(l => (owner: string) => {
+    record('LAYER', owner, 'AcDbLayerTableRecord');
+    g(2, l.name);
+    g(70, '0');
+    g(62, String(l.color));
+    g(6, modern ? 'Continuous' : 'CONTINUOUS');
+  }));
+  table('STYLE', [(owner: string) => {
+    record('STYLE', owner, 'AcDbTextStyleTableRecord');
+    g(2, modern ? 'Standard' : 'STANDARD');
+    g(70, '0');
+    g(40, 0);
+    g(41, 1);
+    g(50, 0);
+    g(71, '0');
+    g(42, 2.5);
+    g(3, 'txt');
+    g(4, '');
+  }]);
+  if (modern) {
+    table('VIEW', []);
+    table('UCS', []);
+    table('APPID', [(owner: string) => {
+      record('APPID', owner, 'AcDbRegAppTableRecord');
+      g(2, 'ACAD');
+      g(70, '0');
+    }]);
+    table('DIMSTYLE', [(owner: string) => {
+      record('DIMSTYLE', owner, 'AcDbDimStyleTableRecord', 105);
+      g(2, 'Standard');
+      g(70, '0');
+    }], () => g(100, 'AcDbDimStyleTable'));
+    table('BLOCK_RECORD', ['*Model_Space', '*Paper_Space'].map(name => (owner: string) => {
+      g(0, 'BLOCK_RECORD');
+      const h = handle();
+      if (name === '*Model_Space') modelSpace = h; else paperSpace = h;
+      g(5, h);
+      g(330, owner);
+      g(100, 'AcDbSymbolTableRecord');
+      g(100, 'AcDbBlockTableRecord');
+      g(2, name);
+    }));
+  }
+  g(0, 'ENDSEC');
+
+  // BLOCKS — R2000 needs the two layout blocks even when they hold nothing
+  g(0, 'SECTION');
+  g(2, 'BLOCKS');
+  if (modern) {
+    for (const [name, owner] of [['*Model_Space', modelSpace], ['*Paper_Space', paperSpace]]) {
+      g(0, 'BLOCK');
+      g(5, handle());
+      g(330, owner);
+      g(100, 'AcDbEntity');
+      if (name === '*Paper_Space') g(67, '1');
+      g(8, '0');
+      g(100, 'AcDbBlockBegin');
+      g(2, name);
+      g(70, '0');
+      g(10, 0); g(20, 0); g(30, 0);
+      g(3, name);
+      g(1, '');
+      g(0, 'ENDBLK');
+      g(5, handle());
+      g(330, owner);
+      g(100, 'AcDbEntity');
+      if (name === '*Paper_Space') g(67, '1');
+      g(8, '0');
+      g(100, 'AcDbBlockEnd');
+    }
+  }
+  g(0, 'ENDSEC');
+
+  // ENTITIES
+  const entity = (type: string, layer: string, subclass: string) => {
+    g(0, type);
+    if (modern) {
+      g(5, handle());
+      g(330, modelSpace);
+      g(100, 'AcDbEntity');
+    }
+    g(8, layerOf(layer));
+    if (modern) g(100, subclass);
+  };
+
+  g(0, 'SECTION');
+  g(2, 'ENTITIES');
+  for (const e of drawing.entities) {
+    if (e.type === 'circle') {
+      entity('CIRCLE', e.layer, 'AcDbCircle');
+      g(10, e.x); g(20, e.y); g(30, 0);
+      g(40, e.r);
+    } else if (e.type === 'polyline') {
+      if (modern) {
+        entity('LWPOLYLINE', e.layer, 'AcDbPolyline');
+        g(90, String(e.points.length));
+        g(70, e.closed ? '1' : '0');
+        for (const p of e.points) {
+          g(10, p.x); g(20, p.y);
+          if (p.bulge) g(42, p.bulge);
+        }
+      } else {
+        entity('POLYLINE', e.layer, '');
+        g(66, '1');
+        g(10, 0); g(20, 0); g(30, 0);
+        g(70, e.closed ? '1' : '0');
+        for (const p of e.points) {
+          g(0, 'VERTEX');
+          g(8, layerOf(e.layer));
+          g(10, p.x); g(20, p.y); g(30, 0);
+          if (p.bulge) g(42, p.bulge);
+        }
+        g(0, 'SEQEND');
+        g(8, layerOf(e.layer));
+      }
+    } else {
+      // Middle-centre justified, so the second alignment point carries the position
+      entity('TEXT', e.layer, 'AcDbText');
+      g(10, e.x); g(20, e.y); g(30, 0);
+      g(40, e.height);
+      g(1, str(e.text));
+      g(72, '1');
+      g(11, e.x); g(21, e.y); g(31, 0);
+      if (modern) g(100, 'AcDbText');
+      g(73, '2');
+    }
+  }
+  g(0, 'ENDSEC');
+
+  // OBJECTS — the root dictionary with its required ACAD_GROUP entry
+  if (modern) {
+    const root = handle(), groups = handle();
+    g(0, 'SECTION');
+    g(2, 'OBJECTS');
+    g(0, 'DICTIONARY');
+    g(5, root);
+    g(330, '0');
+    g(100, 'AcDbDictionary');
+    g(281, '1');
+    g(3, 'ACAD_GROUP');
+    g(350, groups);
+    g(0, 'DICTIONARY');
+    g(5, groups);
+    g(330, root);
+    g(100, 'AcDbDictionary');
+    g(281, '1');
+    g(0, 'ENDSEC');
+  }
+  const body = out.splice(0, out.length);
+
+  // HEADER
+  const [x0, y0, x1, y1] = extents(drawing.entities);
+  g(0, 'SECTION');
+  g(2, 'HEADER');
+  g(9, '$ACADVER'); g(1, ACADVER[version]);
+  if (modern) {
+    g(9, '$HANDSEED'); g(5, nextHandle.toString(16).toUpperCase());
+  }
+  g(9, '$INSUNITS'); g(70, String(INSUNITS_INCHES));
+  g(9, '$MEASUREMENT'); g(70, '0');
+  g(9, '$EXTMIN'); g(10, x0); g(20, y0); g(30, 0);
+  g(9, '$EXTMAX'); g(10, x1); g(20, y1); g(30, 0);
+  g(0, 'ENDSEC');
+  if (modern) {
+    g(0, 'SECTION');
+    g(2, 'CLASSES');
+    g(0, 'ENDSEC');
+  }
+
+  return out.concat(body, ['0', 'EOF', '']).join('\n');
+}
@@ -1,9 +1,24 @@
-import type { PanelState, Panel } from './types';
+import type { PanelState, Panel, PanelHole } from './types';
 import { render2d } from './render2d';
-import { computeStats } from './panelEngine';
+import { computeStats, describePanelCount } from './panelEngine';
+import { holeArea, holeOutline, insetHoleOutline, holeSvgPath, bulgeArc } from './holeShapes';
+import { panelArea, wallOutline } from './wallOutline';
+import { offsetPolygon } from './geometry';
+import { nestPanels } from './nesting';
+import { getMaterial } from './materials';
+import { checkDesignRules } from './drc';
+import { panelCutouts } from './keepOuts';
+import type { GcodeProgram } from './gcode';
+import type { jsPDF } from 'jspdf';
+import { writeDXF, type DxfEntity, type DxfLayer, type DxfVersion } from './dxf';
+import { buildZip, crc32, type ZipEntry } from './zip';
+import { buildXlsx } from './xlsx';
+import { buildBOM, bomHoleTable, bomItemTable, bomPanelTable, type BillOfMaterials, type BomCell } from './bom';
+import { PRICING } from './pricing';
+import { quotePricing } from './quote';
 
-function downloadFile(name: string, content: string, type: string) {
-  const blob = new Blob([content], { type });
+export function downloadFile(name: string, content: string | Blob, type: string) {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -12,71 +27,367 @@ function downloadFile(name: string, content: string, type: string) {
   URL.revokeObjectURL(url);
 }
 
-export function exportSVG(state: PanelState, panels: Panel[]) {
-  if (!panels.length || !panels.some(p => p.holes.length)) return;
+// ─── SVG ──────────────────────────────────────────────────────────────
+// Laser and waterjet software maps cut settings by layer or stroke color, so
+// output is grouped into the same layers as the DXF: PANEL, one HOLE_x.xxx
+// per diameter, CUTOUT and (per-sheet output) LABELS for engraving.
 
-  const isAll = panels.length > 1;
-  if (isAll) {
-    let svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${state.wallW}in" height="${state.wallH}in" viewBox="0 0 ${state.wallW} ${state.wallH}">\n`;
-    for (const p of panels) {
-      svg += `  <g id="panel-${p.label}" transform="translate(${p.x.toFixed(4)},${p.y.toFixed(4)})">\n`;
-      svg += `    <rect x="0" y="0" width="${p.w}" height="${p.h}" fill="none" stroke="#000" stroke-width="0.01"/>\n`;
-      for (const h of p.holes) {
-        svg += `    <circle cx="${h.x.toFixed(4)}" cy="${h.y.toFixed(4)}" r="${(h.d / 2).toFixed(4)}" fill="none" stroke="#000" stroke-width="0.005"/>\n`;
+export interface SvgOptions {
+  kerf: number;          // in; holes and cutouts shrink and outlines grow by half of it
+  centerMarks: boolean;  // crosshairs at hole centers for drilling instead of hole outlines
+}
+
+export const DEFAULT_SVG_OPTIONS: SvgOptions = { kerf: 0, centerMarks: false };
+
+const SVG_PANEL_COLOR = '#000000';
+const SVG_CUTOUT_COLOR = '#00a651';
+const SVG_LABEL_COLOR = '#0000ff';
+const SVG_HOLE_COLORS = ['#ff0000', '#ff8000', '#c000c0', '#008b8b', '#8b8b00', '#ff1493', '#8b4513', '#00bfff'];
+
+// Crosshair arm length for center marks, in
+const CENTER_MARK = 0.0625;
+
+interface SvgPlacement {
+  panel: Panel;
+  transform: string;  // panel-local → document coordinates
+}
+
+function svgHole(state: PanelState, h: PanelHole, opt: SvgOptions): string {
+  if (opt.centerMarks) {
+    const a = CENTER_MARK;
+    return `<path d="M${(h.x - a).toFixed(4)},${h.y.toFixed(4)} H${(h.x + a).toFixed(4)} M${h.x.toFixed(4)},${(h.y - a).toFixed(4)} V${(h.y + a).toFixed(4)}"/>`;
+  }
+  const inset = opt.kerf / 2;
+  if (state.holeShape === 'circle') {
+    const r = h.d / 2 - inset;
+    return r > 0 ? `<circle cx="${h.x.toFixed(4)}" cy="${h.y.toFixed(4)}" r="${r.toFixed(4)}"/>` : '';
+  }
+  const outline = inset > 0
+    ? insetHoleOutline(state.holeShape, h, state.slotRatio, inset)
+    : holeOutline(state.holeShape, h, state.slotRatio);
+  return outline ? `<path d="${holeSvgPath(outline)}"/>` : '';
+}
+
+const svgPoints = (pts: [number, number][]) => pts.map(([x, y]) => `${x.toFixed(4)},${y.toFixed(4)}`).join(' ');
+
+function svgPanel(p: Panel, opt: SvgOptions): string {
+  const pad = opt.kerf / 2;
+  if (!p.outline) {
+    return `<rect x="${(-pad).toFixed(4)}" y="${(-pad).toFixed(4)}" width="${(p.w + 2 * pad).toFixed(4)}" height="${(p.h + 2 * pad).toFixed(4)}"/>`;
+  }
+  return `<polygon points="${svgPoints(offsetPolygon(p.outline, pad))}"/>`;
+}
+
+function svgCutouts(state: PanelState, p: Panel, opt: SvgOptions): string[] {
+  const inset = opt.kerf / 2;
+  return panelCutouts(state.keepOuts, p).map(cut => cut.kind === 'circle'
+    ? `<circle cx="${cut.x.toFixed(4)}" cy="${cut.y.toFixed(4)}" r="${Math.max(0, cut.r - inset).toFixed(4)}"/>`
+    : `<polygon points="${svgPoints(offsetPolygon(cut.points, -inset))}"/>`);
+}
+
+function svgLabel(p: Panel): string {
+  const corners = p.outline ?? [[0, 0], [p.w, p.h]];
+  const xs = corners.map(c => c[0]), ys = corners.map(c => c[1]);
+  const cx = (Math.min(...xs) + Math.max(...xs)) / 2, cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const size = Math.max(0.5, Math.min(3, p.w / 12));
+  return `<text x="${cx.toFixed(4)}" y="${cy.toFixed(4)}" font-family="Arial, sans-serif" font-size="${size.toFixed(3)}" text-anchor="middle" dominant-baseline="central">${p.label}</text>`;
+}
+
+// One <g> per layer; inside each, one transformed group per panel
+function svgLayers(state: PanelState, placed: SvgPlacement[], opt: SvgOptions, labels: boolean): string {
+  let out = '';
+  const layer = (id: string, stroke: string, width: number, parts: (p: Panel) => string[], extra = '') => {
+    let body = '';
+    for (const { panel, transform } of placed) {
+      const items = parts(panel).filter(Boolean);
+      if (!items.length) continue;
+      if (!transform) {
+        for (const item of items) body += `    ${item}\n`;
+        continue;
       }
-      svg += `  </g>\n`;
-    }
-    svg += `</svg>`;
-    downloadFile('wall-all-panels.svg', svg, 'image/svg+xml');
-  } else {
-    const p = panels[0];
-    let svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${p.w}in" height="${p.h}in" viewBox="0 0 ${p.w} ${p.h}">\n`;
-    svg += `  <rect x="0" y="0" width="${p.w}" height="${p.h}" fill="none" stroke="#000" stroke-width="0.01"/>\n`;
-    for (const h of p.holes) {
-      svg += `  <circle cx="${h.x.toFixed(4)}" cy="${h.y.toFixed(4)}" r="${(h.d / 2).toFixed(4)}" fill="none" stroke="#000" stroke-width="0.005"/>\n`;
+      body += `    <g data-panel="${panel.label}" transform="${transform}">\n`;
+      for (const item of items) body += `      ${item}\n`;
+      body += `    </g>\n`;
     }
-    svg += `</svg>`;
-    downloadFile(`panel-${p.label}.svg`, svg, 'image/svg+xml');
+    if (body) out += `  <g id="${id}" fill="none" stroke="${stroke}" stroke-width="${width}"${extra}>\n${body}  </g>\n`;
+  };
+
+  layer('PANEL', SVG_PANEL_COLOR, 0.01, p => [svgPanel(p, opt)]);
+  const diameters = [...new Set(placed.flatMap(({ panel }) => panel.holes.map(h => h.d)))].sort((a, b) => b - a);
+  diameters.forEach((d, i) => {
+    layer(holeLayerName(d), SVG_HOLE_COLORS[i % SVG_HOLE_COLORS.length], 0.005,
+      p => p.holes.filter(h => h.d === d).map(h => svgHole(state, h, opt)));
+  });
+  layer('CUTOUT', SVG_CUTOUT_COLOR, 0.005, p => svgCutouts(state, p, opt));
+  if (labels) layer('LABELS', SVG_LABEL_COLOR, 0.01, p => [svgLabel(p)]);
+  return out;
+}
+
+function svgDocument(w: number, h: number, pad: number, body: string): string {
+  const vb = `${(-pad).toFixed(4)} ${(-pad).toFixed(4)} ${(w + 2 * pad).toFixed(4)} ${(h + 2 * pad).toFixed(4)}`;
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="${+(w + 2 * pad).toFixed(4)}in" height="${+(h + 2 * pad).toFixed(4)}in" viewBox="${vb}">\n${body}</svg>`;
+}
+
+export function buildSVG(state: PanelState, panels: Panel[], opt: SvgOptions = DEFAULT_SVG_OPTIONS): string {
+  // Outward kerf offset pushes outlines past the panel edge; pad the view box to keep them
+  const pad = opt.kerf / 2;
+  if (panels.length > 1) {
+    const placed = panels.map(p => ({ panel: p, transform: `translate(${p.x.toFixed(4)},${p.y.toFixed(4)})` }));
+    return svgDocument(state.wallW, state.wallH, pad, svgLayers(state, placed, opt, false));
   }
+  const p = panels[0];
+  return svgDocument(p.w, p.h, pad, svgLayers(state, [{ panel: p, transform: '' }], opt, false));
 }
 
-export function exportDXF(state: PanelState, panels: Panel[]) {
+export function exportSVG(state: PanelState, panels: Panel[], opt: SvgOptions = DEFAULT_SVG_OPTIONS) {
   if (!panels.length || !panels.some(p => p.holes.length)) return;
 
   const isAll = panels.length > 1;
-  let dxf = '0\nSECTION\n2\nTABLES\n0\nTABLE\n2\nLAYER\n70\n2\n';
-  dxf += '0\nLAYER\n2\nPANEL\n70\n0\n62\n7\n6\nCONTINUOUS\n';
-  dxf += '0\nLAYER\n2\nHOLES\n70\n0\n62\n1\n6\nCONTINUOUS\n';
-  dxf += '0\nENDTAB\n0\nENDSEC\n0\nSECTION\n2\nENTITIES\n';
+  downloadFile(isAll ? 'wall-all-panels.svg' : `panel-${panels[0].label}.svg`, buildSVG(state, panels, opt), 'image/svg+xml');
+}
+
+// One SVG per stock sheet from the nesting plan, panels where they will be cut and
+// labels on their own engraving color. Panels too large for any sheet get a file each.
+export function buildSheetSVGs(state: PanelState, opt: SvgOptions = DEFAULT_SVG_OPTIONS): { name: string; svg: string }[] {
+  const plan = nestPanels(state.panels, state.stockSheets, state.sawKerf);
+  const pad = opt.kerf / 2;
+  const files = plan.sheets.map((sh, i) => {
+    const placed = sh.placements.map(pl => ({
+      panel: state.panels[pl.index],
+      // Rotated placements turn the panel a quarter turn clockwise into its slot
+      transform: pl.rotated
+        ? `translate(${(pl.x + pl.w).toFixed(4)},${pl.y.toFixed(4)}) rotate(90)`
+        : `translate(${pl.x.toFixed(4)},${pl.y.toFixed(4)})`,
+    }));
+    return {
+      name: `sheet-${String(i + 1).padStart(2, '0')}-${sh.sheet.w}x${sh.sheet.h}.svg`,
+      svg: svgDocument(sh.sheet.w, sh.sheet.h, pad, svgLayers(state, placed, opt, true)),
+    };
+  });
+  for (const label of plan.unplaced) {
+    const p = state.panels.find(x => x.label === label)!;
+    files.push({
+      name: `panel-${p.label}-oversize.svg`,
+      svg: svgDocument(p.w, p.h, pad, svgLayers(state, [{ panel: p, transform: '' }], opt, true)),
+    });
+  }
+  return files;
+}
+
+export function exportSheetSVGs(state: PanelState, opt: SvgOptions = DEFAULT_SVG_OPTIONS) {
+  if (!state.panels.some(p => p.holes.length)) return;
+  for (const f of buildSheetSVGs(state, opt)) downloadFile(f.name, f.svg, 'image/svg+xml');
+}
+
+// Hole layers are keyed by diameter so CAM can map each layer to a tool
+export function holeLayerName(d: number): string {
+  return `HOLE_${d.toFixed(3)}`;
+}
+
+const HOLE_LAYER_COLORS = [1, 5, 6, 4, 30, 140, 210, 50, 90, 170];
 
-  const refH = isAll ? state.wallH : panels[0].h;
+export function buildDXF(state: PanelState, panels: Panel[], version: DxfVersion): string {
+  const isAll = panels.length > 1;
+  const entities: DxfEntity[] = [];
+
+  // Screen Y runs down; DXF Y runs up. Whole-wall drawings keep the wall's bottom-left
+  // corner at the origin, single panels their own.
+  const top = isAll ? state.wallH : panels[0].h;
   for (const p of panels) {
     const ox = isAll ? p.x : 0;
     const oy = isAll ? p.y : 0;
-    const corners: [number, number][] = [
-      [ox, oy],
-      [ox + p.w, oy],
-      [ox + p.w, oy + p.h],
-      [ox, oy + p.h],
-    ];
-    for (let i = 0; i < 4; i++) {
-      const [x1, y1] = corners[i];
-      const [x2, y2] = corners[(i + 1) % 4];
-      dxf += `0\nLINE\n8\nPANEL\n10\n${x1.toFixed(4)}\n20\n${(refH - y1).toFixed(4)}\n30\n0\n11\n${x2.toFixed(4)}\n21\n${(refH - y2).toFixed(4)}\n31\n0\n`;
-    }
+    const at = (x: number, y: number) => ({ x: ox + x, y: top - (oy + y) });
+
+    // Trimmed panels follow their outline; the rest are plain rectangles
+    const corners = p.outline ?? [[0, 0], [p.w, 0], [p.w, p.h], [0, p.h]];
+    entities.push({ type: 'polyline', layer: 'PANEL', closed: true, points: corners.map(([x, y]) => at(x, y)) });
+
     for (const h of p.holes) {
-      const hx = ox + h.x, hy = oy + h.y;
-      dxf += `0\nCIRCLE\n8\nHOLES\n10\n${hx.toFixed(4)}\n20\n${(refH - hy).toFixed(4)}\n30\n0\n40\n${(h.d / 2).toFixed(4)}\n`;
+      const layer = holeLayerName(h.d);
+      const outline = holeOutline(state.holeShape, h, state.slotRatio);
+      if (outline) {
+        // Flipping Y mirrors the outline, which reverses every bulge
+        entities.push({
+          type: 'polyline', layer, closed: true,
+          points: outline.map(v => ({ ...at(v.x, v.y), bulge: -v.bulge })),
+        });
+        continue;
+      }
+      entities.push({ type: 'circle', layer, ...at(h.x, h.y), r: h.d / 2 });
     }
+
+    for (const cut of panelCutouts(state.keepOuts, p)) {
+      if (cut.kind === 'circle') {
+        entities.push({ type: 'circle', layer: 'CUTOUT', ...at(cut.x, cut.y), r: cut.r });
+        continue;
+      }
+      entities.push({ type: 'polyline', layer: 'CUTOUT', closed: true, points: cut.points.map(([x, y]) => at(x, y)) });
+    }
+
+    const xs = corners.map(c => c[0]), ys = corners.map(c => c[1]);
+    const cx = (Math.min(...xs) + Math.max(...xs)) / 2, cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+    entities.push({
+      type: 'text', layer: 'LABELS', ...at(cx, cy),
+      height: Math.max(0.5, Math.min(3, p.w / 12)),
+      text: p.label,
+    });
   }
-  dxf += '0\nENDSEC\n0\nEOF\n';
+
+  const diameters = [...new Set(panels.flatMap(p => p.holes.map(h => h.d)))].sort((a, b) => b - a);
+  const layers: DxfLayer[] = [
+    { name: 'PANEL', color: 7 },
+    ...diameters.map((d, i) => ({ name: holeLayerName(d), color: HOLE_LAYER_COLORS[i % HOLE_LAYER_COLORS.length] })),
+    { name: 'CUTOUT', color: 3 },
+    { name: 'LABELS', color: 2 },
+  ];
+  return writeDXF({ layers, entities }, version);
+}
+
+export function exportDXF(state: PanelState, panels: Panel[], version: DxfVersion = 'R2000') {
+  if (!panels.length || !panels.some(p => p.holes.length)) return;
+
+  const isAll = panels.length > 1;
   downloadFile(
     isAll ? 'wall-all-panels.dxf' : `panel-${panels[0].label}.dxf`,
-    dxf,
+    buildDXF(state, panels, version),
     'application/dxf'
   );
 }
 
+// ─── Hole Schedule & Batch ZIP ───────────────────────────────────────
+// Hole counts per panel keyed by diameter, largest first
+function holeCountsBySize(p: Panel): [number, number][] {
+  const counts = new Map<number, number>();
+  for (const h of p.holes) counts.set(h.d, (counts.get(h.d) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[0] - a[0]);
+}
+
+const csvCell = (v: string | number) => {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// One row per panel and hole size, then a wall total per size
+export function buildHoleScheduleCSV(panels: Panel[]): string {
+  const rows: (string | number)[][] = [['Panel', 'Panel Size', 'Hole Diameter (in)', 'Layer', 'Count']];
+  const totals = new Map<number, number>();
+  for (const p of panels) {
+    for (const [d, n] of holeCountsBySize(p)) {
+      rows.push([p.label, p.sizeLabel, d.toFixed(3), holeLayerName(d), n]);
+      totals.set(d, (totals.get(d) ?? 0) + n);
+    }
+  }
+  for (const [d, n] of [...totals].sort((a, b) => b[0] - a[0])) {
+    rows.push(['TOTAL', '', d.toFixed(3), holeLayerName(d), n]);
+  }
+  return rows.map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Sectioned CSV: line items, panels, then hole counts per panel and diameter
+export function buildBomCSV(bom: BillOfMaterials): string {
+  const sections: [string, BomCell[][]][] = [
+    ['LINE ITEMS', bomItemTable(bom)],
+    ['PANELS', bomPanelTable(bom)],
+    ['HOLE SCHEDULE', bomHoleTable(bom)],
+  ];
+  return sections
+    .map(([title, rows]) => [[title], ...rows].map(r => r.map(csvCell).join(',')).join('\r\n'))
+    .join('\r\n\r\n') + '\r\n';
+}
+
+export function exportBomCSV(state: PanelState) {
+  if (!state.panels.length) return;
+  downloadFile(`${generateDrawingCode(state)}-bom.csv`, buildBomCSV(buildBOM(state)), 'text/csv');
+}
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export function exportBomXlsx(state: PanelState) {
+  if (!state.panels.length) return;
+  const bom = buildBOM(state);
+  const data = buildXlsx([
+    { name: 'Line Items', rows: bomItemTable(bom) },
+    { name: 'Panels', rows: bomPanelTable(bom) },
+    { name: 'Hole Schedule', rows: bomHoleTable(bom) },
+  ]);
+  downloadFile(`${generateDrawingCode(state)}-bom.xlsx`, new Blob([data], { type: XLSX_MIME }), XLSX_MIME);
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<string | null> {
+  // SubtleCrypto only exists in secure contexts; the CRC-32 still covers integrity there
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Every panel as DXF + SVG, the full wall, the hole schedule and a manifest, in one ZIP
+export async function exportBatchZip(state: PanelState, dxfVersion: DxfVersion) {
+  const panels = state.panels;
+  if (!panels.length || !panels.some(p => p.holes.length)) return;
+
+  const enc = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const fileInfo = new Map<string, { name: string; bytes: number; crc32: string; sha256: string | null }>();
+  const add = async (name: string, text: string) => {
+    const data = enc.encode(text);
+    entries.push({ name, data });
+    fileInfo.set(name, {
+      name,
+      bytes: data.length,
+      crc32: crc32(data).toString(16).padStart(8, '0'),
+      sha256: await sha256(data),
+    });
+  };
+
+  for (const p of panels) {
+    await add(`panels/panel-${p.label}.dxf`, buildDXF(state, [p], dxfVersion));
+    await add(`panels/panel-${p.label}.svg`, buildSVG(state, [p]));
+  }
+  if (panels.length > 1) {
+    await add('wall-all-panels.dxf', buildDXF(state, panels, dxfVersion));
+    await add('wall-all-panels.svg', buildSVG(state, panels));
+  }
+  await add('hole-schedule.csv', buildHoleScheduleCSV(panels));
+  await add('bom.csv', buildBomCSV(buildBOM(state)));
+
+  const manifest = {
+    drawingCode: generateDrawingCode(state),
+    created: new Date().toISOString(),
+    units: 'in',
+    dxfVersion,
+    wall: { width: state.wallW, height: state.wallH, shape: state.wallShape },
+    totalPanels: panels.length,
+    totalHoles: panels.reduce((s, p) => s + p.holes.length, 0),
+    panels: panels.map(p => ({
+      label: p.label,
+      size: p.sizeLabel,
+      width: p.w,
+      height: p.h,
+      x: p.x,
+      y: p.y,
+      customCut: !!p.filler,
+      trimmed: !!p.outline,
+      holes: p.holes.length,
+      holesBySize: Object.fromEntries(holeCountsBySize(p).map(([d, n]) => [d.toFixed(3), n])),
+      files: {
+        dxf: fileInfo.get(`panels/panel-${p.label}.dxf`),
+        svg: fileInfo.get(`panels/panel-${p.label}.svg`),
+      },
+    })),
+    files: [...fileInfo.values()],
+  };
+  // The manifest lists every other file; it cannot carry its own checksum
+  entries.unshift({ name: 'manifest.json', data: enc.encode(JSON.stringify(manifest, null, 2)) });
+
+  const zip = buildZip(entries);
+  downloadFile(`${manifest.drawingCode}.zip`, new Blob([zip], { type: 'application/zip' }), 'application/zip');
+}
+
+// One file per panel program
+export function exportGcode(programs: GcodeProgram[]) {
+  for (const prog of programs) downloadFile(prog.fileName, prog.code, 'text/plain');
+}
+
 export function exportPNG(canvas: HTMLCanvasElement) {
   canvas.toBlob(blob => {
     if (!blob) return;
@@ -98,7 +409,7 @@ function fmtFt(inches: number): string {
 }
 
 function fmtUSD(n: number): string {
-  return '$' + n.toLocaleString('en-US', { maximumFractionDigits: 0 });
+  return (n < 0 ? '-$' : '$') + Math.abs(n).toLocaleString('en-US', { maximumFractionDigits: 0 });
 }
 
 // Generate a deterministic-ish drawing code: MRW-PRF-YYYYMMDD-XXXX
@@ -113,97 +424,124 @@ function generateDrawingCode(state: PanelState): string {
   return `MRW-PRF-${ymd}-${suffix}`;
 }
 
-export async function exportShopDrawingPDF(state: PanelState) {
-  // Lazy-load jsPDF so it doesn't bloat the main bundle
-  const { default: jsPDF } = await import('jspdf');
-  // Landscape Letter — 11" × 8.5"
-  const pdf = new jsPDF({ orientation: 'landscape', unit: 'in', format: 'letter' });
-  const pageW = 11, pageH = 8.5;
-  const margin = 0.4;
-  const drawingCode = generateDrawingCode(state);
+// ─── Drawing Set Layout ──────────────────────────────────────────────
+// Every sheet is landscape Letter with the same title block and legal footer;
+// only the drawing-type column and the sheet number change between pages.
+const PAGE_W = 11, PAGE_H = 8.5;
+const PAGE_MARGIN = 0.4;
+const TB_H = 1.2;
+const FOOTER_H = 0.4;
+const TB_Y = PAGE_H - PAGE_MARGIN - FOOTER_H - TB_H;
 
-  // Reserve space: title block 1.2in + legal footer 0.35in = 1.55in bottom
-  const tbH = 1.2;
-  const footerH = 0.4;
-  const tbY = pageH - margin - footerH - tbH;
+// Title block column edges, measured from the left margin
+const TB_PROJECT_X = 2.6;
+const TB_DRAWING_X = 5.7;
+const TB_REVISION_X = 8.3;
 
-  // Render elevation on off-screen canvas at print-quality resolution
-  const elevCanvas = document.createElement('canvas');
-  const aspect = state.wallW / state.wallH;
-  const drawAreaW = pageW - 2 * margin;
-  const drawAreaH = tbY - margin - 0.35;  // leave ~0.35 in headroom above title block for the estimate total
-  const elevBoxW = Math.min(drawAreaW, drawAreaH * aspect);
-  const elevBoxH = elevBoxW / aspect;
-  const dpi = 240;
-  elevCanvas.width = Math.round(elevBoxW * dpi);
-  elevCanvas.height = Math.round(elevBoxH * dpi);
+// Rows the revision block has room for; older revisions drop off the top
+const TB_REVISION_ROWS = 6;
 
-  // Extra padding so dimension lines fit outside the wall
-  const pad = 0.12;
-  const zoomX = (elevCanvas.width * (1 - 2 * pad)) / state.wallW;
-  const zoomY = (elevCanvas.height * (1 - 2 * pad)) / state.wallH;
-  const zoom = Math.min(zoomX, zoomY);
-  const camX = (elevCanvas.width - state.wallW * zoom) / 2;
-  const camY = (elevCanvas.height - state.wallH * zoom) / 2;
+interface SheetInfo {
+  number: number;
+  total: number;
+  type: string;   // e.g. 'Panel Detail'
+  scale: string;
+}
 
-  const paperState: PanelState = { ...state, bgColor: '#ffffff', panelColor: '#e8e8e8' };
-  render2d(elevCanvas, paperState, camX, camY, zoom, 'light');
+interface SheetContext {
+  state: PanelState;
+  drawingCode: string;
+  date: string;
+  panelSF: number;
+  drcErrors: number;  // fabrication rule errors the set was exported with
+}
 
-  const imgData = elevCanvas.toDataURL('image/png');
-  const elevX = (pageW - elevBoxW) / 2;
-  const elevY = margin;
-  pdf.addImage(imgData, 'PNG', elevX, elevY, elevBoxW, elevBoxH);
+const fmtIn = (v: number) => `${+v.toFixed(3)}"`;
 
-  // ─── Pricing strip (above title block, right-aligned) ────────────
-  const stats = computeStats(state);
-  const pricingX = pageW - margin - 0.1;
-  const pricingY = tbY - 0.08;
-  pdf.setFontSize(7);
-  pdf.setTextColor(120);
-  pdf.setFont('helvetica', 'normal');
+// Shorten `text` with an ellipsis until it fits `width` at the current font
+function fitText(pdf: jsPDF, text: string, width: number): string {
+  if (pdf.getTextWidth(text) <= width) return text;
+  let t = text;
+  while (t.length > 1 && pdf.getTextWidth(t + '…') > width) t = t.slice(0, -1);
+  return t + '…';
+}
 
-  const pricingLines: [string, number][] = [
-    ['Perforated Panels', stats.panelCost],
-  ];
-  if (state.backlight) {
-    const label = stats.backlightType === 'programmable' ? 'Programmable RGB Lighting' : 'RGB Lighting';
-    pricingLines.push([label, stats.backlightCost]);
-  }
+function pdfPolygon(pdf: jsPDF, pts: [number, number][], style: 'S' | 'F' | 'FD') {
+  const deltas = pts.slice(1).map((p, i) => [p[0] - pts[i][0], p[1] - pts[i][1]]);
+  pdf.lines(deltas, pts[0][0], pts[0][1], [1, 1], style, true);
+}
 
-  // Draw each line item
-  let py = pricingY - 0.3 - pricingLines.length * 0.18;
-  for (const [label, cost] of pricingLines) {
-    pdf.setTextColor(90);
-    pdf.setFontSize(8);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(label, pricingX - 1.4, py, { align: 'right' });
-    pdf.setTextColor(30);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text(fmtUSD(cost), pricingX, py, { align: 'right' });
-    py += 0.18;
+// Hole outline at page scale `s` with its origin at (ox, oy); arcs are flattened
+function pdfHole(pdf: jsPDF, state: PanelState, h: PanelHole, ox: number, oy: number, s: number) {
+  const outline = holeOutline(state.holeShape, h, state.slotRatio);
+  if (!outline) {
+    pdf.circle(ox + h.x * s, oy + h.y * s, (h.d / 2) * s, 'S');
+    return;
   }
+  const pts: [number, number][] = [];
+  for (let i = 0; i < outline.length; i++) {
+    const p1 = outline[i];
+    pts.push([ox + p1.x * s, oy + p1.y * s]);
+    if (p1.bulge === 0) continue;
+    const arc = bulgeArc(p1, outline[(i + 1) % outline.length]);
+    for (let k = 1; k < 8; k++) {
+      const a = arc.start + (arc.theta * k) / 8;
+      pts.push([ox + (arc.cx + Math.cos(a) * arc.radius) * s, oy + (arc.cy + Math.sin(a) * arc.radius) * s]);
+    }
+  }
+  pdfPolygon(pdf, pts, 'S');
+}
 
-  // Divider
-  pdf.setDrawColor(150);
-  pdf.setLineWidth(0.01);
-  pdf.line(pricingX - 1.8, py - 0.07, pricingX, py - 0.07);
+// Horizontal and vertical dimension lines with end ticks and a centered value
+function dimH(pdf: jsPDF, x1: number, x2: number, y: number, label: string) {
+  pdf.line(x1, y, x2, y);
+  pdf.line(x1, y - 0.04, x1, y + 0.04);
+  pdf.line(x2, y - 0.04, x2, y + 0.04);
+  pdf.text(label, (x1 + x2) / 2, y - 0.04, { align: 'center' });
+}
 
-  // Total
-  pdf.setFontSize(7);
-  pdf.setTextColor(120);
-  pdf.setFont('helvetica', 'normal');
-  pdf.text('ESTIMATED TOTAL', pricingX - 1.4, py + 0.05, { align: 'right' });
+function dimV(pdf: jsPDF, y1: number, y2: number, x: number, label: string) {
+  pdf.line(x, y1, x, y2);
+  pdf.line(x - 0.04, y1, x + 0.04, y1);
+  pdf.line(x - 0.04, y2, x + 0.04, y2);
+  // Rotated text reads bottom-to-top, so it starts below the midpoint
+  pdf.text(label, x - 0.04, (y1 + y2) / 2 + pdf.getTextWidth(label) / 2, { angle: 90 });
+}
+
+// Install order: bottom row first, each row left to right
+function installSequence(panels: Panel[]): Panel[] {
+  return panels.slice().sort((a, b) => +(b.y + b.h).toFixed(2) - +(a.y + a.h).toFixed(2) || a.x - b.x);
+}
+
+function drawSheetHeading(pdf: jsPDF, title: string, subtitle: string) {
   pdf.setFont('helvetica', 'bold');
-  pdf.setFontSize(14);
-  pdf.setTextColor(20);
-  pdf.text(fmtUSD(stats.estimatedTotal), pricingX, py + 0.1, { align: 'right' });
+  pdf.setFontSize(12);
+  pdf.setTextColor(30);
+  pdf.text(title, PAGE_MARGIN, PAGE_MARGIN + 0.15);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor(110);
+  pdf.text(subtitle, PAGE_MARGIN, PAGE_MARGIN + 0.32);
+}
+
+function drawTitleBlock(pdf: jsPDF, ctx: SheetContext, sheet: SheetInfo) {
+  const { state } = ctx;
+  const margin = PAGE_MARGIN, pageW = PAGE_W, tbY = TB_Y, tbH = TB_H;
 
-  // ─── Title block ─────────────────────────────────────────────────
   pdf.setDrawColor(50);
   pdf.setLineWidth(0.02);
   pdf.rect(margin, tbY, pageW - 2 * margin, tbH);
-  pdf.line(margin + 2.7, tbY, margin + 2.7, tbY + tbH);
-  pdf.line(margin + 6.4, tbY, margin + 6.4, tbY + tbH);
+  pdf.line(margin + TB_PROJECT_X, tbY, margin + TB_PROJECT_X, tbY + tbH);
+  pdf.line(margin + TB_DRAWING_X, tbY, margin + TB_DRAWING_X, tbY + tbH);
+  pdf.line(margin + TB_REVISION_X, tbY, margin + TB_REVISION_X, tbY + tbH);
+
+  // Exported over design-rule errors: every sheet says so in the top margin
+  if (ctx.drcErrors > 0) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(8);
+    pdf.setTextColor(200, 30, 30);
+    pdf.text(`NOT FOR FABRICATION — ${ctx.drcErrors} DESIGN-RULE ERROR${ctx.drcErrors === 1 ? '' : 'S'}`, pageW - margin, margin - 0.12, { align: 'right' });
+  }
 
   // Left block — brand
   pdf.setFont('helvetica', 'bold');
@@ -221,7 +559,7 @@ export async function exportShopDrawingPDF(state: PanelState) {
   pdf.text('CO-PRF-02', margin + 0.15, tbY + tbH - 0.1);
 
   // Middle block — project spec
-  const mx = margin + 2.85;
+  const mx = margin + TB_PROJECT_X + 0.15;
   pdf.setFontSize(7);
   pdf.setTextColor(120);
   pdf.text('PROJECT', mx, tbY + 0.18);
@@ -232,40 +570,42 @@ export async function exportShopDrawingPDF(state: PanelState) {
 
   pdf.setFont('helvetica', 'normal');
   pdf.setFontSize(8);
+  const material = getMaterial(state.material);
   const specs: [string, string][] = [
     ['Wall Size', `${fmtFt(state.wallW)} × ${fmtFt(state.wallH)}`],
     ['Design', state.imageName || 'Custom'],
-    ['Panels', `${state.colWidths.length} × ${state.rowHeights.length} = ${state.panels.length}`],
-    ['Material', 'Corian'],
+    ['Panels', describePanelCount(state)],
+    ['Material', `${material.name}, ${fmtIn(material.thickness)}`],
     ['Backlight', state.backlight ? (state.backlightMode === 'gradient' ? 'Programmable RGB' : 'RGB Solid') : 'None'],
   ];
+  const valueW = TB_DRAWING_X - TB_PROJECT_X - 1.5;
   let sy = tbY + 0.56;
   for (const [k, v] of specs) {
     pdf.setTextColor(120);
     pdf.text(k, mx, sy);
     pdf.setTextColor(30);
-    pdf.text(v, mx + 1.2, sy);
+    pdf.text(fitText(pdf, v, valueW), mx + 1.2, sy);
     sy += 0.15;
   }
 
-  // Right block — drawing info
-  const rx = margin + 6.55;
+  // Drawing block — type, code and sheet number
+  const rx = margin + TB_DRAWING_X + 0.15;
   pdf.setFontSize(7);
   pdf.setTextColor(120);
   pdf.text('DRAWING TYPE', rx, tbY + 0.18);
   pdf.setFontSize(11);
   pdf.setTextColor(30);
   pdf.setFont('helvetica', 'bold');
-  pdf.text('Shop Drawing', rx, tbY + 0.38);
+  pdf.text(sheet.type, rx, tbY + 0.38);
 
   pdf.setFont('helvetica', 'normal');
   pdf.setFontSize(8);
   const rightSpecs: [string, string][] = [
-    ['Code', drawingCode],
-    ['Sheet', 'SD1'],
-    ['Scale', 'NTS'],
-    ['Date', new Date().toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' })],
-    ['Panel Area', `${stats.panelSF.toFixed(1)} SF`],
+    ['Code', ctx.drawingCode],
+    ['Sheet', `SD${sheet.number} of ${sheet.total}`],
+    ['Scale', sheet.scale],
+    ['Date', ctx.date],
+    ['Panel Area', `${ctx.panelSF.toFixed(1)} SF`],
   ];
   let ry = tbY + 0.56;
   for (const [k, v] of rightSpecs) {
@@ -282,6 +622,35 @@ export async function exportShopDrawingPDF(state: PanelState) {
     ry += 0.15;
   }
 
+  // Revision block
+  const vx = margin + TB_REVISION_X + 0.12;
+  const descW = pageW - margin - vx - 0.95;
+  pdf.setFontSize(7);
+  pdf.setTextColor(120);
+  pdf.text('REVISIONS', vx, tbY + 0.18);
+  pdf.setFontSize(6);
+  pdf.text('REV', vx, tbY + 0.34);
+  pdf.text('DATE', vx + 0.28, tbY + 0.34);
+  pdf.text('DESCRIPTION', vx + 0.85, tbY + 0.34);
+  pdf.setDrawColor(170);
+  pdf.setLineWidth(0.005);
+  pdf.line(vx, tbY + 0.38, pageW - margin - 0.1, tbY + 0.38);
+  pdf.setFontSize(6.5);
+  if (!state.revisions.length) {
+    pdf.setTextColor(150);
+    pdf.text('No revisions', vx, tbY + 0.52);
+  }
+  let vy = tbY + 0.52;
+  for (const r of state.revisions.slice(-TB_REVISION_ROWS)) {
+    pdf.setTextColor(30);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(r.rev, vx, vy);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(r.date, vx + 0.28, vy);
+    pdf.text(fitText(pdf, r.description, descW), vx + 0.85, vy);
+    vy += 0.13;
+  }
+
   // ─── Legal footer (below title block, no overlap) ────────────────
   const footerY = tbY + tbH + 0.08;
   pdf.setFont('helvetica', 'italic');
@@ -302,6 +671,640 @@ export async function exportShopDrawingPDF(state: PanelState) {
     footerY + 0.13,
     { maxWidth: pageW - 2 * margin - 0.3 },
   );
+}
+
+// SD1 — rendered elevation with the estimate and filler callout
+function drawCoverSheet(pdf: jsPDF, state: PanelState) {
+  const pageW = PAGE_W, margin = PAGE_MARGIN, tbY = TB_Y;
+
+  // Render elevation on off-screen canvas at print-quality resolution
+  const elevCanvas = document.createElement('canvas');
+  const aspect = state.wallW / state.wallH;
+  const drawAreaW = pageW - 2 * margin;
+  const stats = computeStats(state);
+  // Leave ~0.35 in headroom above the title block for the estimate total; the
+  // elevation's own padding holds four pricing lines, longer quotes need more room
+  const drawAreaH = tbY - margin - 0.35 - Math.max(0, stats.priceLines.length - 4) * 0.18;
+  const elevBoxW = Math.min(drawAreaW, drawAreaH * aspect);
+  const elevBoxH = elevBoxW / aspect;
+  const dpi = 240;
+  elevCanvas.width = Math.round(elevBoxW * dpi);
+  elevCanvas.height = Math.round(elevBoxH * dpi);
+
+  // Extra padding so dimension lines fit outside the wall
+  const pad = 0.12;
+  const zoomX = (elevCanvas.width * (1 - 2 * pad)) / state.wallW;
+  const zoomY = (elevCanvas.height * (1 - 2 * pad)) / state.wallH;
+  const zoom = Math.min(zoomX, zoomY);
+  const camX = (elevCanvas.width - state.wallW * zoom) / 2;
+  const camY = (elevCanvas.height - state.wallH * zoom) / 2;
+
+  const paperState: PanelState = { ...state, bgColor: '#ffffff', panelColor: '#e8e8e8' };
+  render2d(elevCanvas, paperState, camX, camY, zoom, 'light');
+
+  const imgData = elevCanvas.toDataURL('image/png');
+  const elevX = (pageW - elevBoxW) / 2;
+  const elevY = margin;
+  pdf.addImage(imgData, 'PNG', elevX, elevY, elevBoxW, elevBoxH);
+
+  // ─── Pricing strip (above title block, right-aligned) ────────────
+  const pricingX = pageW - margin - 0.1;
+  const pricingY = tbY - 0.08;
+  pdf.setFontSize(7);
+  pdf.setTextColor(120);
+  pdf.setFont('helvetica', 'normal');
+
+  const pricingLines: [string, number][] = stats.priceLines.map(l => [l.label, l.amount]);
+
+  // Draw each line item
+  let py = pricingY - 0.3 - pricingLines.length * 0.18;
+  for (const [label, cost] of pricingLines) {
+    pdf.setTextColor(90);
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(label, pricingX - 1.4, py, { align: 'right' });
+    pdf.setTextColor(30);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(fmtUSD(cost), pricingX, py, { align: 'right' });
+    py += 0.18;
+  }
+
+  // Divider
+  pdf.setDrawColor(150);
+  pdf.setLineWidth(0.01);
+  pdf.line(pricingX - 1.8, py - 0.07, pricingX, py - 0.07);
+
+  // Total
+  pdf.setFontSize(7);
+  pdf.setTextColor(120);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text('ESTIMATED TOTAL', pricingX - 1.4, py + 0.05, { align: 'right' });
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(14);
+  pdf.setTextColor(20);
+  pdf.text(fmtUSD(stats.estimatedTotal), pricingX, py + 0.1, { align: 'right' });
+
+  // ─── Filler callout (above title block, left-aligned) ────────────
+  const fillers = state.panels.filter(p => p.filler);
+  if (fillers.length) {
+    const cx = margin + 0.1;
+    let cy = tbY - 0.12 - Math.ceil(fillers.length / 4) * 0.14;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.setTextColor(200, 90, 0);
+    pdf.text('CUSTOM-CUT FILLER PANELS — FIELD VERIFY BEFORE CUTTING', cx, cy);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(60);
+    for (let i = 0; i < fillers.length; i += 4) {
+      cy += 0.14;
+      pdf.text(fillers.slice(i, i + 4).map(p => `${p.label}  ${p.sizeLabel}`).join('     '), cx, cy);
+    }
+  }
+}
+
+// SD2 — vector panel key with install sequence numbers. Returns the drawing scale.
+function drawPanelKeySheet(pdf: jsPDF, state: PanelState, sequence: Panel[]): string {
+  drawSheetHeading(pdf, 'PANEL KEY & INSTALL SEQUENCE',
+    'Viewed from the finished face. Install the bottom row first, each row left to right, in numbered order.');
+
+  const top = PAGE_MARGIN + 0.75, bottom = TB_Y - 0.45;
+  const left = PAGE_MARGIN + 0.5, right = PAGE_W - PAGE_MARGIN - 0.1;
+  const s = Math.min((right - left) / state.wallW, (bottom - top) / state.wallH);
+  const ox = left + (right - left - state.wallW * s) / 2;
+  const oy = top + (bottom - top - state.wallH * s) / 2;
+
+  // Wall outline and overall dimensions
+  pdf.setDrawColor(150);
+  pdf.setLineWidth(0.008);
+  pdf.setLineDashPattern([0.05, 0.04], 0);
+  const wall = wallOutline(state) ?? [[0, 0], [state.wallW, 0], [state.wallW, state.wallH], [0, state.wallH]];
+  pdfPolygon(pdf, wall.map(([x, y]) => [ox + x * s, oy + y * s]), 'S');
+  pdf.setLineDashPattern([], 0);
+  pdf.setFontSize(7);
+  pdf.setTextColor(40);
+  pdf.setDrawColor(60);
+  dimH(pdf, ox, ox + state.wallW * s, oy + state.wallH * s + 0.25, fmtFt(state.wallW));
+  dimV(pdf, oy, oy + state.wallH * s, ox - 0.25, fmtFt(state.wallH));
+
+  const order = new Map(sequence.map((p, i) => [p, i + 1]));
+  for (const p of state.panels) {
+    const px = ox + p.x * s, py = oy + p.y * s;
+    const shape = p.outline ?? [[0, 0], [p.w, 0], [p.w, p.h], [0, p.h]];
+    pdf.setDrawColor(40);
+    pdf.setLineWidth(0.012);
+    if (p.filler) {
+      pdf.setFillColor(255, 240, 225);
+    } else {
+      pdf.setFillColor(242, 242, 242);
+    }
+    pdfPolygon(pdf, shape.map(([x, y]) => [px + x * s, py + y * s]), 'FD');
+
+    const xs = shape.map(c => c[0]), ys = shape.map(c => c[1]);
+    const cx = px + ((Math.min(...xs) + Math.max(...xs)) / 2) * s;
+    const cy = py + ((Math.min(...ys) + Math.max(...ys)) / 2) * s;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10);
+    pdf.setTextColor(30);
+    pdf.text(p.label, cx, cy - 0.06, { align: 'center' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(6.5);
+    pdf.setTextColor(90);
+    pdf.text(p.sizeLabel, cx, cy + 0.08, { align: 'center' });
+
+    // Sequence bubble
+    pdf.setDrawColor(74, 158, 255);
+    pdf.setFillColor(255, 255, 255);
+    pdf.setLineWidth(0.01);
+    pdf.circle(cx, cy + 0.3, 0.1, 'FD');
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.setTextColor(30, 100, 200);
+    pdf.text(String(order.get(p)), cx, cy + 0.325, { align: 'center' });
+  }
+  return `1:${Math.round(1 / s)}`;
+}
+
+// SD3+ — one vector detail per panel with hole-field dimensions and its hole schedule
+function drawPanelDetailSheet(pdf: jsPDF, state: PanelState, p: Panel, seq: number, marks: Map<number, string>): string {
+  const kind = p.filler ? 'custom-cut filler'
+    : p.bondCut ? 'running-bond end, cut from stock'
+    : p.outline ? 'trimmed to wall outline' : 'standard';
+  drawSheetHeading(pdf, `PANEL ${p.label} — ${p.sizeLabel}`,
+    `Install sequence #${seq}  ·  ${kind}  ·  viewed from the finished face, dimensions in inches`);
+
+  const tableW = 2.7;
+  const top = PAGE_MARGIN + 1.0, bottom = TB_Y - 0.55;
+  const left = PAGE_MARGIN + 0.7, right = PAGE_W - PAGE_MARGIN - tableW - 0.8;
+  const s = Math.min((right - left) / p.w, (bottom - top) / p.h);
+  const ox = left + (right - left - p.w * s) / 2;
+  const oy = top + (bottom - top - p.h * s) / 2;
+
+  // Panel outline
+  const shape = p.outline ?? [[0, 0], [p.w, 0], [p.w, p.h], [0, p.h]];
+  pdf.setDrawColor(20);
+  pdf.setLineWidth(0.015);
+  pdfPolygon(pdf, shape.map(([x, y]) => [ox + x * s, oy + y * s]), 'S');
+
+  // Holes and cutouts
+  pdf.setDrawColor(60);
+  pdf.setLineWidth(0.004);
+  for (const h of p.holes) pdfHole(pdf, state, h, ox, oy, s);
+  const cutouts = panelCutouts(state.keepOuts, p);
+  pdf.setDrawColor(0, 140, 70);
+  pdf.setLineWidth(0.01);
+  for (const cut of cutouts) {
+    if (cut.kind === 'circle') pdf.circle(ox + cut.x * s, oy + cut.y * s, cut.r * s, 'S');
+    else pdfPolygon(pdf, cut.points.map(([x, y]) => [ox + x * s, oy + y * s]), 'S');
+  }
+
+  // Overall dimensions
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  pdf.setTextColor(40);
+  pdf.setDrawColor(60);
+  pdf.setLineWidth(0.006);
+  const px1 = ox + p.w * s, py1 = oy + p.h * s;
+  dimH(pdf, ox, px1, py1 + 0.3, fmtIn(p.w));
+  dimV(pdf, oy, py1, ox - 0.45, fmtIn(p.h));
+
+  // Hole field: edge → first hole center → last hole center → edge, as chains above and right
+  if (p.holes.length) {
+    const xs = p.holes.map(h => h.x), ys = p.holes.map(h => h.y);
+    const hx0 = Math.min(...xs), hx1 = Math.max(...xs), hy0 = Math.min(...ys), hy1 = Math.max(...ys);
+    pdf.setFontSize(6);
+    pdf.setTextColor(70);
+    const chainY = oy - 0.22;
+    const chainX = px1 + 0.3;
+    const xStops = [0, hx0, hx1, p.w], yStops = [0, hy0, hy1, p.h];
+    for (let i = 0; i < 3; i++) {
+      if (xStops[i + 1] - xStops[i] > 1e-6) dimH(pdf, ox + xStops[i] * s, ox + xStops[i + 1] * s, chainY, fmtIn(xStops[i + 1] - xStops[i]));
+      if (yStops[i + 1] - yStops[i] > 1e-6) dimV(pdf, oy + yStops[i] * s, oy + yStops[i + 1] * s, chainX, fmtIn(yStops[i + 1] - yStops[i]));
+    }
+    // Extension lines to the outermost hole centers
+    pdf.setDrawColor(180);
+    pdf.setLineWidth(0.004);
+    for (const x of [hx0, hx1]) pdf.line(ox + x * s, chainY + 0.04, ox + x * s, oy + hy0 * s);
+    for (const y of [hy0, hy1]) pdf.line(chainX - 0.04, oy + y * s, ox + hx1 * s, oy + y * s);
+  }
+
+  // ─── Panel data and hole schedule (right column) ─────────────────
+  const tx = PAGE_W - PAGE_MARGIN - tableW;
+  let ty = PAGE_MARGIN + 0.75;
+  const openArea = p.holes.reduce((sum, h) => sum + holeArea(state.holeShape, h.d, state.slotRatio), 0);
+  const rows: [string, string][] = [
+    ['Panel', p.label],
+    ['Size', p.sizeLabel],
+    ['Position', `X ${fmtIn(p.x)}  Y ${fmtIn(p.y)} from wall top-left`],
+    ['Edge margin', fmtIn(state.margin)],
+    ['Holes', p.holes.length.toLocaleString()],
+    ['Open area', `${((openArea / panelArea(p)) * 100).toFixed(1)}%`],
+    ['Hole shape', state.holeShape === 'slot' ? `slot ${state.slotRatio}:1` : state.holeShape],
+  ];
+  pdf.setFontSize(7.5);
+  for (const [k, v] of rows) {
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(120);
+    pdf.text(k, tx, ty);
+    pdf.setTextColor(30);
+    pdf.text(fitText(pdf, v, tableW - 0.85), tx + 0.85, ty);
+    ty += 0.16;
+  }
+
+  ty += 0.15;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  pdf.setTextColor(30);
+  pdf.text('HOLE SCHEDULE', tx, ty);
+  ty += 0.18;
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(6.5);
+  pdf.setTextColor(120);
+  const cols = [tx, tx + 0.45, tx + 1.1, tx + tableW];
+  pdf.text('MARK', cols[0], ty);
+  pdf.text('DIA', cols[1], ty);
+  pdf.text('LAYER', cols[2], ty);
+  pdf.text('QTY', cols[3], ty, { align: 'right' });
+  pdf.setDrawColor(170);
+  pdf.setLineWidth(0.005);
+  pdf.line(tx, ty + 0.05, tx + tableW, ty + 0.05);
+  ty += 0.18;
+  pdf.setFontSize(7.5);
+  pdf.setTextColor(30);
+  for (const [d, n] of holeCountsBySize(p)) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(marks.get(d) ?? '', cols[0], ty);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(fmtIn(d), cols[1], ty);
+    pdf.text(holeLayerName(d), cols[2], ty);
+    pdf.text(n.toLocaleString(), cols[3], ty, { align: 'right' });
+    ty += 0.15;
+  }
+  pdf.line(tx, ty - 0.09, tx + tableW, ty - 0.09);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('TOTAL', cols[0], ty + 0.03);
+  pdf.text(p.holes.length.toLocaleString(), cols[3], ty + 0.03, { align: 'right' });
+  ty += 0.3;
+
+  if (cutouts.length) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(8);
+    pdf.setTextColor(0, 120, 60);
+    pdf.text('CUTOUTS', tx, ty);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    pdf.setTextColor(30);
+    for (const cut of cutouts) {
+      ty += 0.15;
+      const where = cut.kind === 'circle' ? `Ø${fmtIn(cut.r * 2)} at ${fmtIn(cut.x)}, ${fmtIn(cut.y)}` : 'see drawing';
+      pdf.text(fitText(pdf, `${cut.label || 'Cutout'} — ${where}`, tableW), tx, ty);
+    }
+    ty += 0.3;
+  }
+
+  if (p.filler || p.outline) {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.setTextColor(200, 90, 0);
+    pdf.text(p.filler ? 'CUSTOM-CUT — FIELD VERIFY BEFORE CUTTING' : 'TRIMMED — CUT TO OUTLINE SHOWN', tx, ty);
+  }
+
+  return `1:${Math.round(1 / s)}`;
+}
+
+// ─── BOM table sheets ────────────────────────────────────────────────
+const BOM_ROW_H = 0.16;
+const BOM_TOP = PAGE_MARGIN + 0.75;
+
+interface PdfColumn {
+  title: string;
+  width: number;
+  align?: 'right';
+  format?: (v: BomCell) => string;
+}
+
+const fmtNum = (digits: number) => (v: BomCell) => typeof v === 'number' ? v.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits }) : v;
+const fmtMoney = (v: BomCell) => typeof v === 'number' ? '$' + v.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : v;
+
+const BOM_ITEM_COLS: PdfColumn[] = [
+  { title: 'ITEM', width: 1.9 },
+  { title: 'DESCRIPTION', width: 2.6 },
+  { title: 'QTY', width: 0.6, align: 'right', format: v => typeof v === 'number' ? String(+v.toFixed(2)) : v },
+  { title: 'UNIT', width: 0.5 },
+  { title: 'AMOUNT', width: 0.9, align: 'right', format: fmtMoney },
+];
+
+const BOM_HOLE_COLS: PdfColumn[] = [
+  { title: 'HOLE Ø', width: 0.7, format: v => typeof v === 'number' ? fmtIn(v) : v },
+  { title: 'QTY', width: 0.8, align: 'right', format: fmtNum(0) },
+  { title: 'OPEN AREA (SQ IN)', width: 1.3, align: 'right', format: fmtNum(1) },
+];
+
+const BOM_PANEL_COLS: PdfColumn[] = [
+  { title: 'PANEL', width: 0.6 },
+  { title: 'SIZE', width: 1.2 },
+  { title: 'WIDTH', width: 0.8, align: 'right', format: v => typeof v === 'number' ? fmtIn(v) : v },
+  { title: 'HEIGHT', width: 0.8, align: 'right', format: v => typeof v === 'number' ? fmtIn(v) : v },
+  { title: 'AREA (SF)', width: 0.85, align: 'right', format: fmtNum(2) },
+  { title: 'HOLES', width: 0.8, align: 'right', format: fmtNum(0) },
+  { title: 'OPEN %', width: 0.75, align: 'right', format: fmtNum(1) },
+  { title: 'WEIGHT (LB)', width: 0.95, align: 'right', format: fmtNum(1) },
+  { title: 'CUSTOM', width: 0.75 },
+  { title: 'PRICE', width: 1.1, align: 'right', format: fmtMoney },
+];
+
+// Header row plus body rows; a leading 'TOTAL' / 'ESTIMATED TOTAL' cell renders bold over a rule
+function drawPdfTable(pdf: jsPDF, x: number, y: number, cols: PdfColumn[], rows: BomCell[][]): number {
+  const width = cols.reduce((s, c) => s + c.width, 0);
+  const cellX = (i: number, c: PdfColumn) => {
+    const left = x + cols.slice(0, i).reduce((s, k) => s + k.width, 0);
+    return c.align === 'right' ? left + c.width - 0.05 : left;
+  };
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(6.5);
+  pdf.setTextColor(120);
+  cols.forEach((c, i) => pdf.text(c.title, cellX(i, c), y, { align: c.align ?? 'left' }));
+  pdf.setDrawColor(170);
+  pdf.setLineWidth(0.005);
+  pdf.line(x, y + 0.05, x + width, y + 0.05);
+  y += BOM_ROW_H + 0.02;
+  pdf.setFontSize(7.5);
+  for (const row of rows) {
+    const total = typeof row[0] === 'string' && row[0].endsWith('TOTAL');
+    if (total) pdf.line(x, y - 0.11, x + width, y - 0.11);
+    pdf.setFont('helvetica', total ? 'bold' : 'normal');
+    pdf.setTextColor(30);
+    cols.forEach((c, i) => {
+      const v = row[i] ?? '';
+      const text = c.format && v !== '' ? c.format(v) : String(v);
+      pdf.text(fitText(pdf, text, c.width - 0.08), cellX(i, c), y, { align: c.align ?? 'left' });
+    });
+    y += BOM_ROW_H;
+  }
+  return y;
+}
+
+// Panel rows that fit under the summary tables on the first BOM sheet, and on each sheet after
+function bomPageRows(bom: BillOfMaterials): BomCell[][][] {
+  const summaryRows = Math.max(bomItemTable(bom).length, bomHoleTotals(bom).length + 1);
+  const panelTop = BOM_TOP + 0.25 + summaryRows * BOM_ROW_H + 0.55;
+  const firstCap = Math.max(1, Math.floor((TB_Y - 0.25 - panelTop) / BOM_ROW_H) - 1);
+  const nextCap = Math.floor((TB_Y - 0.25 - BOM_TOP - 0.25) / BOM_ROW_H) - 1;
+  const rows = bomPanelTable(bom).slice(1);
+  const pages = [rows.slice(0, firstCap)];
+  for (let i = firstCap; i < rows.length; i += nextCap) pages.push(rows.slice(i, i + nextCap));
+  return pages;
+}
+
+// Wall totals per diameter, taken from the TOTAL rows of the hole schedule
+function bomHoleTotals(bom: BillOfMaterials): BomCell[][] {
+  return bomHoleTable(bom).filter(r => r[0] === 'TOTAL').map(r => r.slice(1));
+}
+
+function drawBomSheet(pdf: jsPDF, bom: BillOfMaterials, rows: BomCell[][], page: number, pages: number) {
+  drawSheetHeading(pdf, pages > 1 ? `BILL OF MATERIALS (${page} OF ${pages})` : 'BILL OF MATERIALS',
+    'Quantities from the current layout. Weights are after perforation; amounts match the estimate on SD1.');
+  let y = BOM_TOP;
+  if (page === 1) {
+    const bottom = drawPdfTable(pdf, PAGE_MARGIN, y + 0.25, BOM_ITEM_COLS, bomItemTable(bom).slice(1));
+    const holeX = PAGE_W - PAGE_MARGIN - BOM_HOLE_COLS.reduce((s, c) => s + c.width, 0);
+    const holes = bomHoleTotals(bom);
+    const holeBottom = drawPdfTable(pdf, holeX, y + 0.25, BOM_HOLE_COLS, [
+      ...holes,
+      ['TOTAL', bom.totals.holes, holes.reduce((s, r) => s + (r[2] as number), 0)],
+    ]);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(8);
+    pdf.setTextColor(30);
+    pdf.text('LINE ITEMS', PAGE_MARGIN, y);
+    pdf.text('HOLES BY SIZE', holeX, y);
+    y = Math.max(bottom, holeBottom) + 0.3;
+  }
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  pdf.setTextColor(30);
+  pdf.text(page === 1 ? 'PANELS' : 'PANELS (CONTINUED)', PAGE_MARGIN, y);
+  drawPdfTable(pdf, PAGE_MARGIN, y + 0.25, BOM_PANEL_COLS, rows);
+}
+
+export async function exportShopDrawingPDF(state: PanelState) {
+  // Lazy-load jsPDF so it doesn't bloat the main bundle
+  const { default: jsPDF } = await import('jspdf');
+  // Landscape Letter — 11" × 8.5"
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'in', format: 'letter' });
+  const ctx: SheetContext = {
+    state,
+    drawingCode: generateDrawingCode(state),
+    date: new Date().toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }),
+    panelSF: computeStats(state).panelSF,
+    drcErrors: checkDesignRules(state).errors,
+  };
+
+  // Hole marks A, B, C… by diameter, largest first, shared by every detail sheet
+  const diameters = [...new Set(state.panels.flatMap(p => p.holes.map(h => h.d)))].sort((a, b) => b - a);
+  const marks = new Map(diameters.map((d, i) => [d, i < 26 ? String.fromCharCode(65 + i) : `A${String.fromCharCode(65 + i - 26)}`]));
+
+  const sequence = installSequence(state.panels);
+  const bom = buildBOM(state);
+  const bomPages = bomPageRows(bom);
+  const total = 2 + sequence.length + bomPages.length;
+  let n = 0;
+  const sheet = (type: string, scale: string) => drawTitleBlock(pdf, ctx, { number: ++n, total, type, scale });
+
+  drawCoverSheet(pdf, state);
+  sheet('Shop Drawing', 'NTS');
+
+  pdf.addPage('letter', 'landscape');
+  sheet('Panel Key', drawPanelKeySheet(pdf, state, sequence));
+
+  // Detail sheets follow install order so the set reads like the job
+  sequence.forEach((p, i) => {
+    pdf.addPage('letter', 'landscape');
+    sheet(`Panel ${p.label} Detail`, drawPanelDetailSheet(pdf, state, p, i + 1, marks));
+  });
+
+  bomPages.forEach((rows, i) => {
+    pdf.addPage('letter', 'landscape');
+    drawBomSheet(pdf, bom, rows, i + 1, bomPages.length);
+    sheet('Bill of Materials', 'NTS');
+  });
+
+  pdf.save(`${ctx.drawingCode}.pdf`);
+}
+
+// ─── Client Quote PDF ────────────────────────────────────────────────
+// Portrait Letter, one page when it fits: letterhead and quote number, client and
+// project, a hero image of the design, the priced lines, terms and an acceptance
+// block. Prices come from quotePricing so the quote matches the estimate plus the
+// installation options it carries. Expects state.quote to already hold the issue
+// being exported (the last entry in issues).
+const QUOTE_W = 8.5, QUOTE_H = 11;
+const QUOTE_MARGIN = 0.6;
+
+const QUOTE_COLS: PdfColumn[] = [
+  { title: 'ITEM', width: 2.2 },
+  { title: 'DESCRIPTION', width: 2.8 },
+  { title: 'QTY', width: 0.6, align: 'right', format: v => typeof v === 'number' ? String(+v.toFixed(2)) : v },
+  { title: 'UNIT', width: 0.6 },
+  { title: 'AMOUNT', width: 1.1, align: 'right', format: fmtMoney },
+];
+
+function drawQuoteHeader(pdf: jsPDF, number: string, rows: [string, string][]) {
+  const margin = QUOTE_MARGIN;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.setTextColor(30);
+  pdf.text('M|R Walls', margin, margin + 0.2);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor(80);
+  pdf.text('Mario Romano Walls', margin, margin + 0.42);
+  pdf.text('2314 Michigan Ave, Santa Monica, CA 90404', margin, margin + 0.56);
+  pdf.text('310-243-6967  ·  marioromano.com', margin, margin + 0.7);
+
+  const rx = QUOTE_W - margin;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.setTextColor(30);
+  pdf.text('QUOTATION', rx, margin + 0.2, { align: 'right' });
+  pdf.setFont('courier', 'bold');
+  pdf.setFontSize(9);
+  pdf.text(number, rx, margin + 0.42, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  let y = margin + 0.58;
+  for (const [k, v] of rows) {
+    pdf.setTextColor(120);
+    pdf.text(k, rx - 0.9, y, { align: 'right' });
+    pdf.setTextColor(30);
+    pdf.text(v, rx, y, { align: 'right' });
+    y += 0.14;
+  }
+
+  pdf.setDrawColor(50);
+  pdf.setLineWidth(0.02);
+  pdf.line(margin, margin + 1.05, QUOTE_W - margin, margin + 1.05);
+}
+
+// Label over a stack of lines; empty lines are skipped so blank fields don't leave gaps
+function drawQuoteBlock(pdf: jsPDF, x: number, y: number, width: number, title: string, lines: string[]) {
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7);
+  pdf.setTextColor(120);
+  pdf.text(title, x, y);
+  pdf.setFontSize(9);
+  pdf.setTextColor(30);
+  const shown = lines.filter(Boolean);
+  shown.forEach((l, i) => {
+    pdf.setFont('helvetica', i === 0 ? 'bold' : 'normal');
+    pdf.text(fitText(pdf, l, width), x, y + 0.18 + i * 0.15);
+  });
+  if (!shown.length) {
+    pdf.setTextColor(150);
+    pdf.text('—', x, y + 0.18);
+  }
+}
+
+function drawSignatureLine(pdf: jsPDF, x: number, y: number, width: number, label: string) {
+  pdf.setDrawColor(120);
+  pdf.setLineWidth(0.008);
+  pdf.line(x, y, x + width, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(6.5);
+  pdf.setTextColor(120);
+  pdf.text(label, x, y + 0.12);
+}
+
+export async function exportQuotePDF(state: PanelState, hero: string | null) {
+  const { default: jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'in', format: 'letter' });
+  const q = state.quote;
+  const issue = q.issues[q.issues.length - 1];
+  const price = quotePricing(state);
+  const material = getMaterial(state.material);
+  const margin = QUOTE_MARGIN, contentW = QUOTE_W - 2 * margin;
+  const bottom = QUOTE_H - margin;
+
+  const header = () => drawQuoteHeader(pdf, q.number, [
+    ['Revision', `R${issue.revision}`],
+    ['Date', issue.date],
+    ['Valid until', issue.validUntil],
+  ]);
+  // Start a continuation page when the next block would run into the bottom margin
+  let y = 0;
+  const ensure = (h: number) => {
+    if (y + h <= bottom) return;
+    pdf.addPage('letter', 'portrait');
+    header();
+    y = margin + 1.35;
+  };
+
+  header();
+  y = margin + 1.35;
+  const half = contentW / 2 - 0.15;
+  drawQuoteBlock(pdf, margin, y, half, 'PREPARED FOR', [q.clientName, q.clientCompany, q.clientEmail]);
+  drawQuoteBlock(pdf, margin + contentW / 2 + 0.15, y, half, 'PROJECT', [q.projectName || 'Perforated Panel Wall', q.projectAddress]);
+  y += 0.75;
+
+  if (hero) {
+    const props = pdf.getImageProperties(hero);
+    const maxH = 2.8;
+    const w = Math.min(contentW, maxH * props.width / props.height);
+    const h = w * props.height / props.width;
+    pdf.addImage(hero, props.fileType, margin + (contentW - w) / 2, y, w, h);
+    y += h + 0.2;
+  }
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor(60);
+  const backlight = state.backlight ? (state.backlightMode === 'gradient' ? 'programmable RGB backlight' : 'RGB backlight') : 'no backlight';
+  pdf.text(fitText(pdf,
+    `${fmtFt(state.wallW)} × ${fmtFt(state.wallH)} wall  ·  ${describePanelCount(state)}  ·  ${material.name}, ${fmtIn(material.thickness)}  ·  ${backlight}`,
+    contentW), margin, y);
+  y += 0.35;
+
+  const rows: BomCell[][] = [
+    ...price.lines.map(l => [l.label, l.detail, l.qty, l.unit, l.amount]),
+    ['TOTAL', '', '', '', price.total],
+  ];
+  ensure(0.25 + (rows.length + 1) * BOM_ROW_H);
+  y = drawPdfTable(pdf, margin, y, QUOTE_COLS, rows) + 0.25;
+
+  // Terms
+  pdf.setFontSize(7.5);
+  const termLines = PRICING.quote.terms.map((t, i) => pdf.splitTextToSize(`${i + 1}.  ${t}`, contentW) as string[]);
+  ensure(0.2 + termLines.flat().length * 0.13);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  pdf.setTextColor(30);
+  pdf.text('TERMS', margin, y);
+  y += 0.18;
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7.5);
+  pdf.setTextColor(60);
+  for (const t of termLines) {
+    pdf.text(t, margin, y);
+    y += t.length * 0.13;
+  }
+  y += 0.2;
+
+  // Acceptance
+  ensure(1.3);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  pdf.setTextColor(30);
+  pdf.text('ACCEPTANCE', margin, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(7.5);
+  pdf.setTextColor(60);
+  pdf.text(`Signing below accepts quote ${q.number} revision R${issue.revision} at ${fmtUSD(price.total)} under the terms above.`, margin, y + 0.16);
+  const sigW = contentW / 2 - 0.25;
+  const rightX = margin + contentW / 2 + 0.25;
+  drawSignatureLine(pdf, margin, y + 0.7, sigW, 'CLIENT SIGNATURE');
+  drawSignatureLine(pdf, rightX, y + 0.7, sigW / 2 - 0.1, 'DATE');
+  drawSignatureLine(pdf, rightX + sigW / 2 + 0.1, y + 0.7, sigW / 2 - 0.1, 'PO NUMBER');
+  drawSignatureLine(pdf, margin, y + 1.15, sigW, 'PRINTED NAME / TITLE');
+  drawSignatureLine(pdf, rightX, y + 1.15, sigW, 'FOR M|R WALLS');
 
-  pdf.save(`${drawingCode}.pdf`);
+  pdf.save(`${q.number}-R${issue.revision}.pdf`);
 }
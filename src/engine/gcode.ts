@@ -0,0 +1,380 @@
+import type { PanelState, Panel, PanelHole } from './types';
+import { insetHoleOutline, bulgeArc } from './holeShapes';
+
+// ─── Post-Processor Profiles ─────────────────────────────────────────
+// Every length in a profile is in the profile's own units; hole positions are
+// converted from panel inches when the program is written.
+
+export interface PostProfile {
+  name: string;
+  machine: 'punch' | 'router';
+  routerStrategy: 'helical' | 'peck';
+  units: 'inch' | 'mm';
+  feedRate: number;       // cutting feed, units/min
+  plungeRate: number;     // Z feed, units/min
+  rapidRate: number;      // rapid traverse, units/min — only used for the time estimate
+  spindleRpm: number;
+  safeZ: number;          // clearance for tool changes and between panels
+  retractZ: number;       // clearance plane between holes of one tool
+  cutDepth: number;       // material thickness plus breakthrough
+  stepDown: number;       // helical: depth per revolution; peck: depth per peck
+  toolDiameter: number;   // router end mill for helical holes and shaped contours
+  hitSeconds: number;     // punch: time per hit
+  toolChangeSeconds: number;
+  punchHitCode: string;   // punch: M-code that fires the ram
+  header: string;         // placeholders: {program} {panel} {size} {date} {units}
+  footer: string;
+}
+
+export const DEFAULT_POST_PROFILES: PostProfile[] = [
+  {
+    name: 'Turret Punch (inch)',
+    machine: 'punch',
+    routerStrategy: 'helical',
+    units: 'inch',
+    feedRate: 0,
+    plungeRate: 0,
+    rapidRate: 3000,
+    spindleRpm: 0,
+    safeZ: 0,
+    retractZ: 0,
+    cutDepth: 0,
+    stepDown: 0,
+    toolDiameter: 0,
+    hitSeconds: 0.25,
+    toolChangeSeconds: 4,
+    punchHitCode: 'M20',
+    header: '%\nO{program} ({panel} {size})\n(M|R WALLS PERFORATED PANEL - {date})\nG90 {units}',
+    footer: 'M30\n%',
+  },
+  {
+    name: 'CNC Router Helical (inch)',
+    machine: 'router',
+    routerStrategy: 'helical',
+    units: 'inch',
+    feedRate: 120,
+    plungeRate: 30,
+    rapidRate: 600,
+    spindleRpm: 16000,
+    safeZ: 1,
+    retractZ: 0.1,
+    cutDepth: 0.52,
+    stepDown: 0.125,
+    toolDiameter: 0.25,
+    hitSeconds: 0,
+    toolChangeSeconds: 12,
+    punchHitCode: '',
+    header: '%\nO{program} ({panel} {size})\n(M|R WALLS PERFORATED PANEL - {date})\nG90 G17 G40 G49 G80 {units}',
+    footer: 'G0 Z{safeZ}\nM5\nG28 G91 Z0\nG90\nM30\n%',
+  },
+  {
+    name: 'CNC Router Peck Drill (mm)',
+    machine: 'router',
+    routerStrategy: 'peck',
+    units: 'mm',
+    feedRate: 3000,
+    plungeRate: 800,
+    rapidRate: 15000,
+    spindleRpm: 12000,
+    safeZ: 25,
+    retractZ: 3,
+    cutDepth: 13,
+    stepDown: 4,
+    toolDiameter: 6,
+    hitSeconds: 0,
+    toolChangeSeconds: 12,
+    punchHitCode: '',
+    header: '%\nO{program} ({panel} {size})\n(M|R WALLS PERFORATED PANEL - {date})\nG90 G17 G40 G49 G80 {units}',
+    footer: 'G0 Z{safeZ}\nM5\nG28 G91 Z0\nG90\nM30\n%',
+  },
+];
+
+// ─── Toolpath Ordering ───────────────────────────────────────────────
+// Nearest-neighbour tour from the previous tool's last position, then 2-opt.
+// A full 2-opt is O(n²) per pass, so each point only tries partners within a
+// window further along the tour — on a lattice the useful swaps are local.
+
+const TWO_OPT_WINDOW = 60;
+const TWO_OPT_MAX_PASSES = 8;
+
+type Pt = { x: number; y: number };
+const dist = (a: Pt, b: Pt) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export function orderHoles<T extends Pt>(holes: T[], start: Pt): T[] {
+  if (holes.length < 3) {
+    return holes.slice().sort((a, b) => dist(start, a) - dist(start, b));
+  }
+
+  // Nearest neighbour
+  const left = holes.slice();
+  const tour: T[] = [];
+  let cur: Pt = start;
+  while (left.length) {
+    let bi = 0, bd = Infinity;
+    for (let i = 0; i < left.length; i++) {
+      const d = dist(cur, left[i]);
+      if (d < bd) { bd = d; bi = i; }
+    }
+    cur = left[bi];
+    tour.push(left[bi]);
+    left[bi] = left[left.length - 1];
+    left.pop();
+  }
+
+  // Windowed 2-opt on the open path start → tour[0] … tour[n-1]
+  const n = tour.length;
+  const at = (i: number): Pt => (i < 0 ? start : tour[i]);
+  for (let pass = 0; pass < TWO_OPT_MAX_PASSES; pass++) {
+    let improved = false;
+    for (let i = -1; i < n - 2; i++) {
+      const a = at(i), b = tour[i + 1];
+      const jMax = Math.min(n - 1, i + 1 + TWO_OPT_WINDOW);
+      for (let j = i + 2; j <= jMax; j++) {
+        const c = tour[j];
+        const dNext = j + 1 < n ? tour[j + 1] : null;
+        const before = dist(a, b) + (dNext ? dist(c, dNext) : 0);
+        const after = dist(a, c) + (dNext ? dist(b, dNext) : 0);
+        if (after < before - 1e-9) {
+          // Reverse tour[i+1 .. j]
+          for (let lo = i + 1, hi = j; lo < hi; lo++, hi--) {
+            const t = tour[lo]; tour[lo] = tour[hi]; tour[hi] = t;
+          }
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return tour;
+}
+
+// ─── Program Generation ──────────────────────────────────────────────
+
+export interface GcodeStats {
+  holes: number;
+  skipped: number;         // holes the configured tool cannot cut
+  tools: number;
+  rapidTravel: number;     // XY rapid distance, profile units
+  cutTravel: number;       // feed-rate distance, profile units
+  seconds: number;
+}
+
+export interface GcodeProgram {
+  label: string;
+  fileName: string;
+  code: string;
+  stats: GcodeStats;
+}
+
+interface Tool {
+  comment: string;
+  holes: PanelHole[];
+}
+
+// Punch presses and peck drilling need a tool per diameter; helical interpolation and
+// contouring cut every hole with one end mill
+function groupTools(state: PanelState, panel: Panel, p: PostProfile, k: number): Tool[] {
+  const fmtIn = (d: number) => `${+d.toFixed(4)}"`;
+  if (p.machine === 'router' && p.routerStrategy === 'helical') {
+    return [{ comment: `${+(p.toolDiameter).toFixed(4)}${p.units === 'mm' ? 'MM' : 'IN'} END MILL`, holes: panel.holes }];
+  }
+  const byDiameter = new Map<number, PanelHole[]>();
+  for (const h of panel.holes) {
+    const list = byDiameter.get(h.d);
+    if (list) list.push(h); else byDiameter.set(h.d, [h]);
+  }
+  const shape = state.holeShape === 'circle' ? '' : ` ${state.holeShape.toUpperCase()}`;
+  const kind = p.machine === 'punch' ? 'PUNCH' : 'DRILL';
+  // Largest first: big punches/drills relieve the sheet before the fine work
+  return [...byDiameter.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([d, holes]) => ({ comment: `${fmtIn(d)}${shape} ${kind} (${+(d * k).toFixed(3)})`, holes }));
+}
+
+export function generatePanelGcode(state: PanelState, panel: Panel, p: PostProfile, programNumber: number): GcodeProgram {
+  const k = p.units === 'mm' ? 25.4 : 1;
+  const dp = p.units === 'mm' ? 3 : 4;
+  const f = (n: number) => n.toFixed(dp);
+  // Machine coordinates: origin at the panel's lower-left corner, Y up
+  const mx = (x: number) => x * k;
+  const my = (y: number) => (panel.h - y) * k;
+
+  const lines: string[] = [];
+  const stats: GcodeStats = { holes: 0, skipped: 0, tools: 0, rapidTravel: 0, cutTravel: 0, seconds: 0 };
+  let pos = { x: 0, y: 0, z: p.safeZ };
+  const rapid = (x: number | null, y: number | null, z: number | null) => {
+    const nx = x ?? pos.x, ny = y ?? pos.y, nz = z ?? pos.z;
+    const dxy = Math.hypot(nx - pos.x, ny - pos.y);
+    stats.rapidTravel += dxy;
+    stats.seconds += (Math.hypot(dxy, nz - pos.z) / Math.max(1e-6, p.rapidRate)) * 60;
+    pos = { x: nx, y: ny, z: nz };
+  };
+  const feed = (length: number, rate: number) => {
+    stats.cutTravel += length;
+    stats.seconds += (length / Math.max(1e-6, rate)) * 60;
+  };
+
+  const fill = (tpl: string) => tpl
+    .replace(/\{program\}/g, String(programNumber).padStart(4, '0'))
+    .replace(/\{panel\}/g, panel.label)
+    .replace(/\{size\}/g, panel.sizeLabel.replace(/"/g, 'IN'))
+    .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+    .replace(/\{units\}/g, p.units === 'mm' ? 'G21' : 'G20')
+    .replace(/\{safeZ\}/g, f(p.safeZ));
+  if (p.header) lines.push(...fill(p.header).split('\n'));
+
+  const tools = groupTools(state, panel, p, k);
+  let last: Pt = { x: 0, y: 0 };
+  tools.forEach((tool, ti) => {
+    if (!tool.holes.length) return;
+    stats.tools++;
+    const tNum = ti + 1;
+    lines.push(`(TOOL ${tNum}: ${tool.comment}, ${tool.holes.length} HOLES)`);
+    lines.push(`T${tNum} M6`);
+    stats.seconds += p.toolChangeSeconds;
+    if (p.machine === 'router') {
+      lines.push(`S${Math.round(p.spindleRpm)} M3`);
+      lines.push(`G0 Z${f(p.safeZ)}`);
+      rapid(null, null, p.safeZ);
+    }
+
+    const pts = tool.holes.map(h => ({ x: mx(h.x), y: my(h.y), h }));
+    const ordered = orderHoles(pts, last);
+    let cycleActive = false;
+
+    for (const { x, y, h } of ordered) {
+      if (p.machine === 'punch') {
+        const c = h.a !== undefined ? ` C${((-h.a * 180) / Math.PI).toFixed(2)}` : '';
+        lines.push(`G0 X${f(x)} Y${f(y)}${c}`);
+        rapid(x, y, null);
+        lines.push(p.punchHitCode);
+        stats.seconds += p.hitSeconds;
+        stats.holes++;
+        continue;
+      }
+
+      if (p.routerStrategy === 'peck') {
+        const r = p.retractZ, depth = -p.cutDepth;
+        if (!cycleActive) {
+          lines.push(`G0 X${f(x)} Y${f(y)}`);
+          rapid(x, y, null);
+          lines.push(`G0 Z${f(r)}`);
+          rapid(null, null, r);
+          lines.push(`G83 X${f(x)} Y${f(y)} Z${f(depth)} R${f(r)} Q${f(p.stepDown)} F${f(p.plungeRate)}`);
+          cycleActive = true;
+        } else {
+          lines.push(`X${f(x)} Y${f(y)}`);
+          rapid(x, y, null);
+        }
+        // Each peck feeds down from the last depth and rapids back to R
+        const pecks = Math.max(1, Math.ceil(p.cutDepth / Math.max(1e-6, p.stepDown)));
+        for (let i = 1; i <= pecks; i++) {
+          const reach = Math.min(p.cutDepth, i * p.stepDown);
+          feed(Math.min(p.stepDown, reach), p.plungeRate);
+          stats.seconds += ((2 * (r + reach)) / Math.max(1e-6, p.rapidRate)) * 60;
+        }
+        stats.holes++;
+        continue;
+      }
+
+      // Helical / contour with one end mill
+      const toolR = (p.toolDiameter / 2) / k;  // back to inches to compare with the hole
+      const passes = Math.max(1, Math.ceil(p.cutDepth / Math.max(1e-6, p.stepDown)));
+      if (state.holeShape === 'circle') {
+        const pathR = (h.d / 2 - toolR) * k;
+        if (pathR < -1e-6) {
+          stats.skipped++;
+          continue;
+        }
+        if (pathR <= 1e-6) {
+          // Hole matches the cutter: plunge straight through
+          lines.push(`G0 X${f(x)} Y${f(y)}`);
+          rapid(x, y, null);
+          lines.push(`G0 Z${f(p.retractZ)}`);
+          rapid(null, null, p.retractZ);
+          lines.push(`G1 Z${f(-p.cutDepth)} F${f(p.plungeRate)}`);
+          feed(p.retractZ + p.cutDepth, p.plungeRate);
+        } else {
+          lines.push(`G0 X${f(x + pathR)} Y${f(y)}`);
+          rapid(x + pathR, y, null);
+          lines.push(`G0 Z${f(p.retractZ)}`);
+          rapid(null, null, p.retractZ);
+          lines.push(`G1 Z0 F${f(p.plungeRate)}`);
+          feed(p.retractZ, p.plungeRate);
+          const circ = 2 * Math.PI * pathR;
+          for (let i = 1; i <= passes; i++) {
+            const z = -Math.min(p.cutDepth, i * p.stepDown);
+            lines.push(`G3 X${f(x + pathR)} Y${f(y)} Z${f(z)} I${f(-pathR)} J0 F${f(p.feedRate)}`);
+            feed(Math.hypot(circ, p.stepDown), p.feedRate);
+          }
+          // Clean-up lap at full depth, then back to center so the retract clears the wall
+          lines.push(`G3 X${f(x + pathR)} Y${f(y)} I${f(-pathR)} J0`);
+          lines.push(`G1 X${f(x)} Y${f(y)}`);
+          feed(circ + pathR, p.feedRate);
+          pos = { ...pos, x, y };
+        }
+      } else {
+        const path = insetHoleOutline(state.holeShape, h, state.slotRatio, toolR);
+        if (!path) {
+          stats.skipped++;
+          continue;
+        }
+        // Machine coordinates flip Y, which reverses every bulge
+        const mv = path.map(v => ({ x: mx(v.x), y: my(v.y), bulge: -v.bulge }));
+        lines.push(`G0 X${f(mv[0].x)} Y${f(mv[0].y)}`);
+        rapid(mv[0].x, mv[0].y, null);
+        lines.push(`G0 Z${f(p.retractZ)}`);
+        rapid(null, null, p.retractZ);
+        for (let i = 1; i <= passes; i++) {
+          const z = -Math.min(p.cutDepth, i * p.stepDown);
+          lines.push(`G1 Z${f(z)} F${f(p.plungeRate)}`);
+          feed(p.stepDown, p.plungeRate);
+          for (let vi = 0; vi < mv.length; vi++) {
+            const a = mv[vi], b = mv[(vi + 1) % mv.length];
+            if (a.bulge === 0) {
+              lines.push(`G1 X${f(b.x)} Y${f(b.y)} F${f(p.feedRate)}`);
+              feed(dist(a, b), p.feedRate);
+            } else {
+              const arc = bulgeArc(a, b);
+              lines.push(`${arc.theta > 0 ? 'G3' : 'G2'} X${f(b.x)} Y${f(b.y)} I${f(arc.cx - a.x)} J${f(arc.cy - a.y)} F${f(p.feedRate)}`);
+              feed(Math.abs(arc.theta) * arc.radius, p.feedRate);
+            }
+          }
+        }
+        pos = { ...pos, x: mv[0].x, y: mv[0].y };
+      }
+      lines.push(`G0 Z${f(p.retractZ)}`);
+      rapid(null, null, p.retractZ);
+      stats.holes++;
+    }
+
+    if (cycleActive) lines.push('G80');
+    if (p.machine === 'router') {
+      lines.push(`G0 Z${f(p.safeZ)}`);
+      rapid(null, null, p.safeZ);
+    }
+    if (ordered.length) last = ordered[ordered.length - 1];
+  });
+
+  if (p.footer) lines.push(...fill(p.footer).split('\n'));
+
+  return {
+    label: panel.label,
+    fileName: `panel-${panel.label}.${p.machine === 'punch' ? 'nc' : 'tap'}`,
+    code: lines.join('\n') + '\n',
+    stats,
+  };
+}
+
+export function generateGcode(state: PanelState, panels: Panel[], profile: PostProfile): GcodeProgram[] {
+  return panels.filter(p => p.holes.length).map((p, i) => generatePanelGcode(state, p, profile, 1001 + i));
+}
+
+// "1 h 12 min" style duration for estimates
+export function fmtDuration(seconds: number): string {
+  const m = Math.round(seconds / 60);
+  if (m < 1) return `${Math.round(seconds)} s`;
+  if (m < 60) return `${m} min`;
+  return `${Math.floor(m / 60)} h ${m % 60} min`;
+}
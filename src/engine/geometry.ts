@@ -0,0 +1,108 @@
+// ─── Polygon Helpers ─────────────────────────────────────────────────
+// Polygons are closed rings of [x, y] points in inches; the closing edge is implied.
+
+export type Polygon = [number, number][];
+
+export function pointInPolygon(x: number, y: number, poly: Polygon): boolean {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const [xi, yi] = poly[i], [xj, yj] = poly[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function distToSegment(x: number, y: number, [ax, ay]: [number, number], [bx, by]: [number, number]): number {
+  const dx = bx - ax, dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / len2)) : 0;
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+}
+
+// Shortest distance between two segments; 0 when they cross or touch
+export function segmentDistance(a1: [number, number], a2: [number, number], b1: [number, number], b2: [number, number]): number {
+  const cross = (o: [number, number], p: [number, number], q: [number, number]) =>
+    (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+  const d1 = cross(b1, b2, a1), d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1), d4 = cross(a1, a2, b2);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return 0;
+  return Math.min(
+    distToSegment(a1[0], a1[1], b1, b2), distToSegment(a2[0], a2[1], b1, b2),
+    distToSegment(b1[0], b1[1], a1, a2), distToSegment(b2[0], b2[1], a1, a2),
+  );
+}
+
+// Distance from (x, y) to the nearest edge of the ring
+export function distToPolygonEdge(x: number, y: number, poly: Polygon): number {
+  let best = Infinity;
+  for (let i = 0; i < poly.length; i++) {
+    best = Math.min(best, distToSegment(x, y, poly[i], poly[(i + 1) % poly.length]));
+  }
+  return best;
+}
+
+// Unsigned shoelace area
+export function polygonArea(poly: Polygon): number {
+  let a = 0;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    a += poly[j][0] * poly[i][1] - poly[i][0] * poly[j][1];
+  }
+  return Math.abs(a) / 2;
+}
+
+// Sutherland–Hodgman clip of a polygon against an axis-aligned rectangle.
+// The subject may be concave; the rectangle is the (convex) clip window.
+export function clipToRect(poly: Polygon, x0: number, y0: number, x1: number, y1: number): Polygon {
+  const edges: [(p: [number, number]) => boolean, (a: [number, number], b: [number, number]) => [number, number]][] = [
+    [p => p[0] >= x0, (a, b) => [x0, a[1] + ((b[1] - a[1]) * (x0 - a[0])) / (b[0] - a[0])]],
+    [p => p[0] <= x1, (a, b) => [x1, a[1] + ((b[1] - a[1]) * (x1 - a[0])) / (b[0] - a[0])]],
+    [p => p[1] >= y0, (a, b) => [a[0] + ((b[0] - a[0]) * (y0 - a[1])) / (b[1] - a[1]), y0]],
+    [p => p[1] <= y1, (a, b) => [a[0] + ((b[0] - a[0]) * (y1 - a[1])) / (b[1] - a[1]), y1]],
+  ];
+  let out = poly;
+  for (const [inside, cross] of edges) {
+    const input = out;
+    out = [];
+    for (let i = 0; i < input.length; i++) {
+      const cur = input[i], prev = input[(i + input.length - 1) % input.length];
+      if (inside(cur)) {
+        if (!inside(prev)) out.push(cross(prev, cur));
+        out.push(cur);
+      } else if (inside(prev)) {
+        out.push(cross(prev, cur));
+      }
+    }
+    if (!out.length) break;
+  }
+  return out;
+}
+
+// Move every edge `d` inches outward (negative = inward), mitering the corners.
+// Meant for kerf-sized offsets, which stay well below any edge length.
+export function offsetPolygon(poly: Polygon, d: number): Polygon {
+  if (d === 0 || poly.length < 3) return poly;
+  // Signed shoelace sum is positive when the ring runs clockwise on screen (y down);
+  // the left-hand normals used below then point into the polygon
+  let signed = 0;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    signed += poly[j][0] * poly[i][1] - poly[i][0] * poly[j][1];
+  }
+  const s = signed > 0 ? -d : d;
+  const n = poly.length;
+  return poly.map((cur, i) => {
+    const prev = poly[(i + n - 1) % n], next = poly[(i + 1) % n];
+    // Left-hand unit normals of the incoming and outgoing edges
+    const n1 = normal(prev, cur), n2 = normal(cur, next);
+    const mx = n1[0] + n2[0], my = n1[1] + n2[1];
+    const dot = 1 + n1[0] * n2[0] + n1[1] * n2[1];
+    // Near-reversing edges would miter to infinity; fall back to the plain normal
+    if (dot < 1e-6) return [cur[0] + n1[0] * s, cur[1] + n1[1] * s];
+    return [cur[0] + (mx / dot) * s, cur[1] + (my / dot) * s];
+  });
+}
+
+function normal(a: [number, number], b: [number, number]): [number, number] {
+  const dx = b[0] - a[0], dy = b[1] - a[1];
+  const len = Math.hypot(dx, dy) || 1;
+  return [-dy / len, dx / len];
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { CONTINUOUS_CHANGE, CONTROL_CHANGE, EMPTY_HISTORY, historyPatch, recordChange } from './history';
+
+describe('recordChange', () => {
+  it('folds a continuous drag into one entry', () => {
+    let h = recordChange(EMPTY_HISTORY, CONTINUOUS_CHANGE, { gamma: 1 }, { gamma: 1.2 }, 0);
+    h = recordChange(h, CONTINUOUS_CHANGE, { gamma: 1.2 }, { gamma: 1.5 }, 400);
+    h = recordChange(h, CONTINUOUS_CHANGE, { gamma: 1.5 }, { gamma: 1.8 }, 800);
+    expect(h.entries).toHaveLength(1);
+    expect(h.entries[0]).toMatchObject({ before: { gamma: 1 }, after: { gamma: 1.8 } });
+  });
+
+  it('keeps discrete changes as separate steps', () => {
+    let h = recordChange(EMPTY_HISTORY, CONTROL_CHANGE, { backlight: false }, { backlight: true }, 0);
+    h = recordChange(h, CONTROL_CHANGE, { backlight: true }, { backlight: false }, 100);
+    h = recordChange(h, CONTINUOUS_CHANGE, { margin: 1 }, { margin: 2 }, 200);
+    h = recordChange(h, CONTROL_CHANGE, { margin: 2 }, { margin: 0 }, 300);
+    expect(h.entries).toHaveLength(4);
+    expect(historyPatch(h, 1)).toEqual({ backlight: true, margin: 1 });
+  });
+
+  it('starts a new step after a pause or on other fields', () => {
+    let h = recordChange(EMPTY_HISTORY, CONTINUOUS_CHANGE, { gamma: 1 }, { gamma: 2 }, 0);
+    h = recordChange(h, CONTINUOUS_CHANGE, { gamma: 2 }, { gamma: 3 }, 1500);
+    h = recordChange(h, CONTINUOUS_CHANGE, { threshold: 200 }, { threshold: 180 }, 1600);
+    expect(h.entries).toHaveLength(3);
+  });
+});
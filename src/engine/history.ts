@@ -0,0 +1,144 @@
+import type { PanelState } from './types';
+
+// ─── Design History ──────────────────────────────────────────────────
+// Every design change is a Partial<PanelState> patch. The history keeps each
+// patch with the values it replaced, so undo applies `before`, redo applies
+// `after`, and jumping several steps merges the patches in between into one
+// update that goes through the usual recompute. Continuous changes (a slider drag,
+// a colour pick, typing in a field) to the same fields within COALESCE_MS fold into
+// one entry, so a drag is a single step; every other change is a step of its own.
+
+export type ChangeSource = 'controls' | 'ai' | 'onboarding';
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  controls: 'Controls',
+  ai: 'Ask Mara',
+  onboarding: 'Onboarding',
+};
+
+export interface ChangeOrigin {
+  source: ChangeSource;
+  note?: string;  // e.g. the Ask Mara message that asked for the change
+  continuous?: boolean;  // one step of a drag or of typing; may fold into the previous entry
+  untracked?: boolean;   // applied but never recorded, so undo cannot take it back
+}
+
+export const CONTROL_CHANGE: ChangeOrigin = { source: 'controls' };
+export const CONTINUOUS_CHANGE: ChangeOrigin = { source: 'controls', continuous: true };
+export const UNTRACKED_CHANGE: ChangeOrigin = { source: 'controls', untracked: true };
+
+export interface HistoryEntry {
+  id: number;
+  source: ChangeSource;
+  note: string;
+  continuous: boolean;
+  before: Partial<PanelState>;
+  after: Partial<PanelState>;
+  time: number;  // ms since epoch of the latest change folded into the entry
+}
+
+export interface DesignHistory {
+  entries: HistoryEntry[];  // oldest first
+  index: number;            // entries applied; entries past it can be redone
+  nextId: number;
+}
+
+export const EMPTY_HISTORY: DesignHistory = { entries: [], index: 0, nextId: 1 };
+
+const HISTORY_LIMIT = 100;
+const COALESCE_MS = 1000;
+
+const sameKeys = (a: object, b: object) => {
+  const ka = Object.keys(a), kb = Object.keys(b);
+  return ka.length === kb.length && ka.every(k => k in b);
+};
+
+// The current values of the fields a patch is about to change
+export function changedFields(state: PanelState, updates: Partial<PanelState>): Partial<PanelState> | null {
+  const before: Record<string, unknown> = {};
+  let changed = false;
+  for (const [k, v] of Object.entries(updates)) {
+    const prev = state[k as keyof PanelState];
+    before[k] = prev;
+    if (prev !== v) changed = true;
+  }
+  return changed ? before as Partial<PanelState> : null;
+}
+
+export function recordChange(
+  h: DesignHistory, origin: ChangeOrigin, before: Partial<PanelState>, after: Partial<PanelState>, time: number,
+): DesignHistory {
+  const entries = h.entries.slice(0, h.index);
+  const last = entries[entries.length - 1];
+  if (last && origin.continuous && last.continuous && origin.source === last.source &&
+      time - last.time < COALESCE_MS && sameKeys(last.after, after)) {
+    entries[entries.length - 1] = { ...last, after: { ...last.after, ...after }, time };
+    return { ...h, entries, index: entries.length };
+  }
+  entries.push({
+    id: h.nextId, source: origin.source, note: origin.note ?? '', continuous: !!origin.continuous, before, after, time,
+  });
+  const trimmed = entries.slice(-HISTORY_LIMIT);
+  return { entries: trimmed, index: trimmed.length, nextId: h.nextId + 1 };
+}
+
+// One patch that takes the design from h.index entries applied to `target`
+export function historyPatch(h: DesignHistory, target: number): Partial<PanelState> {
+  let patch: Partial<PanelState> = {};
+  if (target < h.index) {
+    for (let i = h.index - 1; i >= target; i--) patch = { ...patch, ...h.entries[i].before };
+  } else {
+    for (let i = h.index; i < target; i++) patch = { ...patch, ...h.entries[i].after };
+  }
+  return patch;
+}
+
+// ─── Entry Labels ────────────────────────────────────────────────────
+const FIELD_LABELS: Partial<Record<keyof PanelState, string>> = {
+  sourceImage: 'Source image',
+  imageName: 'Image name',
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+  invert: 'Invert',
+  wallW: 'Wall width',
+  wallH: 'Wall height',
+  wallShape: 'Wall shape',
+  wallPolygon: 'Wall outline',
+  panelGap: 'Panel gap',
+  enabledWidths: 'Panel widths',
+  enabledHeights: 'Panel heights',
+  layoutMode: 'Layout',
+  fillerMode: 'Fillers',
+  selectedLayoutIdx: 'Layout option',
+  margin: 'Margin',
+  keepOuts: 'Keep-outs',
+  spacingX: 'Spacing',
+  spacingY: 'Spacing',
+  gridPattern: 'Grid pattern',
+  enabledHoleSizes: 'Hole sizes',
+  holeShape: 'Hole shape',
+  ditherMode: 'Dithering',
+  threshold: 'Threshold',
+  gamma: 'Gamma',
+  material: 'Material',
+  discount: 'Discount',
+  panelColor: 'Panel color',
+  bgColor: 'Background',
+  backlight: 'Backlight',
+  backlightMode: 'Backlight mode',
+  backlightColor: 'Backlight color',
+  backlightColor2: 'Backlight color 2',
+  backlightIntensity: 'Backlight intensity',
+  revisions: 'Revisions',
+  quote: 'Quote',
+};
+
+// camelCase field name as words, for fields without a label
+const humanize = (k: string) => k.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+export function describeChange(e: HistoryEntry, max = 3): string {
+  const labels = [...new Set(Object.keys(e.after).map(k => FIELD_LABELS[k as keyof PanelState] ?? humanize(k)))];
+  return labels.length > max
+    ? `${labels.slice(0, max).join(', ')} +${labels.length - max} more`
+    : labels.join(', ');
+}
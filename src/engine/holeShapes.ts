@@ -0,0 +1,149 @@
+import type { PanelState, PanelHole } from './types';
+
+// ─── Hole Shape Geometry ─────────────────────────────────────────────
+// Every shape is sized by the hole's nominal diameter `d`:
+//   circle   — diameter d
+//   square   — side d
+//   hexagon  — across corners d
+//   triangle — equilateral, inscribed in a circle of diameter d
+//   slot     — width d, tip-to-tip length d × slotRatio, round ends
+// Outlines are closed polylines whose segments carry a DXF-style bulge
+// (tan of a quarter of the arc's included angle; 0 = straight, 1 = semicircle,
+// positive = increasing angle). That lets canvas, SVG and DXF all draw slots
+// with true arcs from a single description.
+
+export type HoleShape = PanelState['holeShape'];
+
+export interface OutlineVertex {
+  x: number;
+  y: number;
+  bulge: number;  // bulge of the segment from this vertex to the next
+}
+
+// Open area of one hole
+export function holeArea(shape: HoleShape, d: number, slotRatio: number): number {
+  const r = d / 2;
+  switch (shape) {
+    case 'square': return d * d;
+    case 'hexagon': return (3 * Math.sqrt(3) / 2) * r * r;
+    case 'triangle': return (3 * Math.sqrt(3) / 4) * r * r;
+    case 'slot': return d * (d * Math.max(1, slotRatio) - d) + Math.PI * r * r;
+    default: return Math.PI * r * r;
+  }
+}
+
+// Outline around (hole.x, hole.y), rotated by hole.a. Returns null for circles,
+// which every writer handles natively.
+export function holeOutline(shape: HoleShape, hole: PanelHole, slotRatio: number): OutlineVertex[] | null {
+  if (shape === 'circle') return null;
+  const r = hole.d / 2;
+  let local: OutlineVertex[];
+  if (shape === 'square') {
+    local = [
+      { x: -r, y: -r, bulge: 0 }, { x: r, y: -r, bulge: 0 },
+      { x: r, y: r, bulge: 0 }, { x: -r, y: r, bulge: 0 },
+    ];
+  } else if (shape === 'hexagon') {
+    local = [];
+    for (let i = 0; i < 6; i++) {
+      const a = (i * Math.PI) / 3;
+      local.push({ x: Math.cos(a) * r, y: Math.sin(a) * r, bulge: 0 });
+    }
+  } else if (shape === 'triangle') {
+    // Apex up on screen (y grows downward)
+    local = [-90, 30, 150].map(deg => {
+      const a = (deg * Math.PI) / 180;
+      return { x: Math.cos(a) * r, y: Math.sin(a) * r, bulge: 0 };
+    });
+  } else {
+    const straight = (hole.d * Math.max(1, slotRatio)) / 2 - r;
+    local = [
+      { x: -straight, y: -r, bulge: 0 },
+      { x: straight, y: -r, bulge: 1 },
+      { x: straight, y: r, bulge: 0 },
+      { x: -straight, y: r, bulge: 1 },
+    ];
+  }
+  const a = hole.a ?? 0;
+  const cos = Math.cos(a), sin = Math.sin(a);
+  return local.map(v => ({
+    x: hole.x + v.x * cos - v.y * sin,
+    y: hole.y + v.x * sin + v.y * cos,
+    bulge: v.bulge,
+  }));
+}
+
+// Shaped-hole outline moved inward by `inset` (a cutter radius or half a kerf).
+// Regular polygons scale about their center; slots keep their straight length.
+// Returns null when nothing is left. Circles are not handled here — shrink the radius.
+export function insetHoleOutline(shape: HoleShape, hole: PanelHole, slotRatio: number, inset: number): OutlineVertex[] | null {
+  const d = hole.d;
+  if (shape === 'slot') {
+    const len = d * Math.max(1, slotRatio);
+    const dw = d - 2 * inset;
+    if (dw <= 0) return null;
+    return holeOutline('slot', { ...hole, d: dw }, (len - 2 * inset) / dw);
+  }
+  const apothem = shape === 'square' ? d / 2
+    : shape === 'hexagon' ? (d / 2) * Math.cos(Math.PI / 6)
+    : (d / 2) * 0.5;
+  const scale = 1 - inset / apothem;
+  if (scale <= 0) return null;
+  return holeOutline(shape, { ...hole, d: d * scale }, slotRatio);
+}
+
+// Center, radius and start/end angles of a bulged segment
+export function bulgeArc(p1: OutlineVertex, p2: OutlineVertex) {
+  const theta = 4 * Math.atan(p1.bulge);
+  const dx = p2.x - p1.x, dy = p2.y - p1.y;
+  const chord = Math.hypot(dx, dy);
+  const radius = chord / (2 * Math.sin(Math.abs(theta) / 2));
+  const h = chord / (2 * Math.tan(theta / 2));
+  const cx = (p1.x + p2.x) / 2 - (dy / chord) * h;
+  const cy = (p1.y + p2.y) / 2 + (dx / chord) * h;
+  return {
+    cx, cy, radius, theta,
+    start: Math.atan2(p1.y - cy, p1.x - cx),
+    end: Math.atan2(p2.y - cy, p2.x - cx),
+  };
+}
+
+// Append a hole to the current canvas path (caller fills)
+export function traceHole(ctx: CanvasRenderingContext2D, shape: HoleShape, hole: PanelHole, slotRatio: number) {
+  const outline = holeOutline(shape, hole, slotRatio);
+  if (!outline) {
+    const r = hole.d / 2;
+    ctx.moveTo(hole.x + r, hole.y);
+    ctx.arc(hole.x, hole.y, r, 0, Math.PI * 2);
+    return;
+  }
+  ctx.moveTo(outline[0].x, outline[0].y);
+  for (let i = 0; i < outline.length; i++) {
+    const p1 = outline[i], p2 = outline[(i + 1) % outline.length];
+    if (p1.bulge === 0) {
+      ctx.lineTo(p2.x, p2.y);
+    } else {
+      const arc = bulgeArc(p1, p2);
+      ctx.arc(arc.cx, arc.cy, arc.radius, arc.start, arc.end, arc.theta < 0);
+    }
+  }
+  ctx.closePath();
+}
+
+// SVG path data for a non-circular hole, offset by (ox, oy)
+export function holeSvgPath(outline: OutlineVertex[], ox = 0, oy = 0, digits = 4): string {
+  const f = (n: number) => n.toFixed(digits);
+  let d = `M${f(ox + outline[0].x)},${f(oy + outline[0].y)}`;
+  for (let i = 0; i < outline.length; i++) {
+    const p1 = outline[i], p2 = outline[(i + 1) % outline.length];
+    if (p1.bulge === 0) {
+      if (i < outline.length - 1) d += ` L${f(ox + p2.x)},${f(oy + p2.y)}`;
+    } else {
+      const arc = bulgeArc(p1, p2);
+      const large = Math.abs(arc.theta) > Math.PI ? 1 : 0;
+      const sweep = arc.theta > 0 ? 1 : 0;
+      d += ` A${f(arc.radius)},${f(arc.radius)} 0 ${large} ${sweep} ${f(ox + p2.x)},${f(oy + p2.y)}`;
+    }
+  }
+  return d + ' Z';
+}
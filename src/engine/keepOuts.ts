@@ -0,0 +1,86 @@
+import type { KeepOut, Panel } from './types';
+import { pointInPolygon, distToPolygonEdge, clipToRect } from './geometry';
+
+// ─── Keep-Out Geometry ───────────────────────────────────────────────
+// All coordinates are wall inches unless noted.
+
+export const KEEP_OUT_PRESETS: { name: string; zone: Omit<KeepOut, 'id' | 'x' | 'y'> }[] = [
+  { name: 'Outlet', zone: { label: 'Outlet', kind: 'rect', w: 2.75, h: 4.5, r: 0, points: [], clearance: 0.75, cutout: true } },
+  { name: 'Switch', zone: { label: 'Switch', kind: 'rect', w: 2.75, h: 4.5, r: 0, points: [], clearance: 0.75, cutout: true } },
+  { name: 'Sprinkler', zone: { label: 'Sprinkler', kind: 'circle', w: 0, h: 0, r: 1.5, points: [], clearance: 1, cutout: true } },
+  { name: 'Thermostat', zone: { label: 'Thermostat', kind: 'rect', w: 4, h: 4, r: 0, points: [], clearance: 1, cutout: false } },
+  { name: 'Door', zone: { label: 'Door', kind: 'rect', w: 36, h: 84, r: 0, points: [], clearance: 2, cutout: true } },
+  { name: 'Rect', zone: { label: 'Zone', kind: 'rect', w: 12, h: 12, r: 0, points: [], clearance: 1, cutout: false } },
+  { name: 'Circle', zone: { label: 'Zone', kind: 'circle', w: 0, h: 0, r: 6, points: [], clearance: 1, cutout: false } },
+  {
+    name: 'Polygon',
+    zone: {
+      label: 'Zone', kind: 'polygon', w: 0, h: 0, r: 0, clearance: 1, cutout: false,
+      points: [[0, -8], [7.6, -2.5], [4.7, 6.5], [-4.7, 6.5], [-7.6, -2.5]],
+    },
+  },
+];
+
+// Place a preset on the wall: doors stand on the floor, everything else starts at wall center
+export function createKeepOut(preset: Omit<KeepOut, 'id' | 'x' | 'y'>, wallW: number, wallH: number): KeepOut {
+  const id = `ko-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e4)}`;
+  if (preset.kind === 'rect') {
+    const y = preset.label === 'Door' ? wallH - preset.h : wallH / 2 - preset.h / 2;
+    return { ...preset, points: [...preset.points], id, x: wallW / 2 - preset.w / 2, y };
+  }
+  return { ...preset, points: preset.points.map(p => [...p] as [number, number]), id, x: wallW / 2, y: wallH / 2 };
+}
+
+// Closed outline in wall inches; circles are approximated with `segments` sides
+export function keepOutOutline(zone: KeepOut, segments = 48): [number, number][] {
+  if (zone.kind === 'rect') {
+    return [[zone.x, zone.y], [zone.x + zone.w, zone.y], [zone.x + zone.w, zone.y + zone.h], [zone.x, zone.y + zone.h]];
+  }
+  if (zone.kind === 'circle') {
+    const pts: [number, number][] = [];
+    for (let i = 0; i < segments; i++) {
+      const a = (i / segments) * Math.PI * 2;
+      pts.push([zone.x + Math.cos(a) * zone.r, zone.y + Math.sin(a) * zone.r]);
+    }
+    return pts;
+  }
+  return zone.points.map(([px, py]) => [zone.x + px, zone.y + py]);
+}
+
+// True when (x, y) lies inside the zone grown by `pad` inches
+export function keepOutContains(zone: KeepOut, x: number, y: number, pad = 0): boolean {
+  if (zone.kind === 'circle') return Math.hypot(x - zone.x, y - zone.y) <= zone.r + pad;
+  if (zone.kind === 'rect') {
+    const dx = Math.max(zone.x - x, 0, x - (zone.x + zone.w));
+    const dy = Math.max(zone.y - y, 0, y - (zone.y + zone.h));
+    return Math.hypot(dx, dy) <= pad;
+  }
+  const poly = keepOutOutline(zone);
+  if (poly.length < 3) return false;
+  if (pointInPolygon(x, y, poly)) return true;
+  if (pad <= 0) return false;
+  return distToPolygonEdge(x, y, poly) <= pad;
+}
+
+// The part of each cutout that falls on a panel, in panel-local inches.
+// Circles fully inside the panel are kept as circles so writers can emit true arcs.
+export type PanelCutout =
+  | { kind: 'circle'; x: number; y: number; r: number; label: string }
+  | { kind: 'polygon'; points: [number, number][]; label: string };
+
+export function panelCutouts(zones: KeepOut[], panel: Panel): PanelCutout[] {
+  const out: PanelCutout[] = [];
+  for (const zone of zones) {
+    if (!zone.cutout) continue;
+    if (zone.kind === 'circle' &&
+        zone.x - zone.r >= panel.x && zone.x + zone.r <= panel.x + panel.w &&
+        zone.y - zone.r >= panel.y && zone.y + zone.r <= panel.y + panel.h) {
+      out.push({ kind: 'circle', x: zone.x - panel.x, y: zone.y - panel.y, r: zone.r, label: zone.label });
+      continue;
+    }
+    const clipped = clipToRect(keepOutOutline(zone), panel.x, panel.y, panel.x + panel.w, panel.y + panel.h);
+    if (clipped.length < 3) continue;
+    out.push({ kind: 'polygon', points: clipped.map(([x, y]) => [x - panel.x, y - panel.y]), label: zone.label });
+  }
+  return out;
+}
@@ -0,0 +1,77 @@
+// ─── Material Library ────────────────────────────────────────────────
+// Every sheet good a wall can be fabricated from. Thickness and density give the
+// panel weight; minHole and minWeb are the shop's limits for cutting that sheet
+// cleanly (a hole no smaller than the sheet is thick, a bridge that will not crack
+// or tear); appearance drives the 3D view. Prices live in the pricing rules.
+
+export interface PanelMaterial {
+  id: string;
+  name: string;
+  family: 'corian' | 'aluminum' | 'steel' | 'brass' | 'felt';
+  finish: string;       // how a render or a spec sheet describes the surface
+  thickness: number;    // inches
+  density: number;      // lb per cubic foot
+  minHole: number;      // smallest hole that cuts cleanly (inches)
+  minWeb: number;       // narrowest bridge between holes or to a panel edge (inches)
+  maxOpenAreaPct: number;  // open area above which a panel loses too much stiffness
+  appearance: {
+    color: string;
+    metalness: number;
+    roughness: number;
+  };
+}
+
+export const MATERIALS: PanelMaterial[] = [
+  {
+    id: 'corian-dove', name: 'Corian Dove', family: 'corian', finish: 'matte grey solid-surface',
+    thickness: 0.5, density: 106, minHole: 0.25, minWeb: 0.625, maxOpenAreaPct: 50,
+    appearance: { color: '#808080', metalness: 0.05, roughness: 0.45 },
+  },
+  {
+    id: 'corian-glacier-white', name: 'Corian Glacier White', family: 'corian', finish: 'white solid-surface',
+    thickness: 0.5, density: 106, minHole: 0.25, minWeb: 0.625, maxOpenAreaPct: 50,
+    appearance: { color: '#f1f0ea', metalness: 0.05, roughness: 0.4 },
+  },
+  {
+    id: 'corian-deep-nocturne', name: 'Corian Deep Nocturne', family: 'corian', finish: 'matte black solid-surface',
+    thickness: 0.5, density: 106, minHole: 0.25, minWeb: 0.625, maxOpenAreaPct: 50,
+    appearance: { color: '#232325', metalness: 0.05, roughness: 0.45 },
+  },
+  {
+    id: 'corian-sandalwood', name: 'Corian Sandalwood', family: 'corian', finish: 'warm beige solid-surface',
+    thickness: 0.5, density: 106, minHole: 0.25, minWeb: 0.625, maxOpenAreaPct: 50,
+    appearance: { color: '#b9a58c', metalness: 0.05, roughness: 0.5 },
+  },
+  {
+    id: 'aluminum-125', name: 'Aluminum 1/8"', family: 'aluminum', finish: 'brushed aluminum',
+    thickness: 0.125, density: 169, minHole: 0.125, minWeb: 0.125, maxOpenAreaPct: 55,
+    appearance: { color: '#c4c7cc', metalness: 0.85, roughness: 0.35 },
+  },
+  {
+    id: 'steel-14ga', name: 'Steel 14 ga', family: 'steel', finish: 'powder-coated steel',
+    thickness: 0.075, density: 490, minHole: 0.125, minWeb: 0.125, maxOpenAreaPct: 60,
+    appearance: { color: '#5d6064', metalness: 0.6, roughness: 0.5 },
+  },
+  {
+    id: 'brass-063', name: 'Brass 1/16"', family: 'brass', finish: 'satin brass',
+    thickness: 0.063, density: 532, minHole: 0.125, minWeb: 0.125, maxOpenAreaPct: 50,
+    appearance: { color: '#b5964f', metalness: 0.95, roughness: 0.3 },
+  },
+  {
+    id: 'felt-375', name: 'Acoustic Felt 3/8"', family: 'felt', finish: 'acoustic PET felt',
+    thickness: 0.375, density: 12, minHole: 0.25, minWeb: 0.75, maxOpenAreaPct: 40,
+    appearance: { color: '#6f7378', metalness: 0, roughness: 0.95 },
+  },
+];
+
+export const DEFAULT_MATERIAL_ID = 'corian-dove';
+
+// Unknown ids (older saves, bad AI params) fall back to the default material
+export function getMaterial(id: string): PanelMaterial {
+  return MATERIALS.find(m => m.id === id) ?? MATERIALS.find(m => m.id === DEFAULT_MATERIAL_ID)!;
+}
+
+// Solid sheet, before perforation
+export function materialWeightPerSF(m: PanelMaterial): number {
+  return m.density * (m.thickness / 12);
+}
@@ -0,0 +1,140 @@
+import type { Panel, StockSheet } from './types';
+
+// ─── Stock-Sheet Nesting ─────────────────────────────────────────────
+// Panels are cut as their bounding rectangles (trimmed outlines and fillers included)
+// from a library of stock sheets. Packing is guillotine-style so every plan can be cut
+// on a panel saw: each placement splits the free rectangle it lands in into two.
+// Sheets are opened one at a time; for each new sheet every stock size is trial-packed
+// with the remaining panels and the size that comes out fullest is kept.
+
+export interface NestPlacement {
+  index: number;     // position in the panels array that was nested
+  label: string;
+  x: number;
+  y: number;
+  w: number;         // as cut, after any rotation
+  h: number;
+  rotated: boolean;
+}
+
+export interface NestedSheet {
+  sheet: StockSheet;
+  placements: NestPlacement[];
+  usedArea: number;  // panel area, sq in
+  yieldPct: number;
+}
+
+export interface NestingPlan {
+  sheets: NestedSheet[];
+  unplaced: string[];   // labels of panels larger than every enabled stock sheet
+  panelArea: number;    // sq in
+  sheetArea: number;    // sq in
+  yieldPct: number;
+  wasteArea: number;    // sq in
+  sheetCost: number;
+  wasteCost: number;    // share of sheet cost that ends up as drops
+}
+
+interface FreeRect { x: number; y: number; w: number; h: number }
+interface Piece { index: number; label: string; w: number; h: number }
+
+function fits(piece: Piece, sheet: StockSheet, kerf: number): boolean {
+  const w = piece.w + kerf, h = piece.h + kerf;
+  const W = sheet.w + kerf, H = sheet.h + kerf;
+  return (w <= W && h <= H) || (h <= W && w <= H);
+}
+
+// Greedily fill one sheet from `pieces` (largest first). Returns what went on the sheet.
+function packSheet(sheet: StockSheet, pieces: Piece[], kerf: number): NestPlacement[] {
+  // Kerf is added to every piece; padding the sheet by one kerf lets pieces touch the far edges
+  const free: FreeRect[] = [{ x: 0, y: 0, w: sheet.w + kerf, h: sheet.h + kerf }];
+  const placements: NestPlacement[] = [];
+
+  for (const piece of pieces) {
+    let best: { ri: number; rotated: boolean; score: number } | null = null;
+    for (let ri = 0; ri < free.length; ri++) {
+      const r = free[ri];
+      for (const rotated of [false, true]) {
+        const w = (rotated ? piece.h : piece.w) + kerf;
+        const h = (rotated ? piece.w : piece.h) + kerf;
+        if (w > r.w + 1e-9 || h > r.h + 1e-9) continue;
+        // Best short-side fit: leave the least awkward sliver
+        const score = Math.min(r.w - w, r.h - h);
+        if (!best || score < best.score) best = { ri, rotated, score };
+      }
+    }
+    if (!best) continue;
+
+    const r = free[best.ri];
+    const w = (best.rotated ? piece.h : piece.w) + kerf;
+    const h = (best.rotated ? piece.w : piece.h) + kerf;
+    placements.push({
+      index: piece.index,
+      label: piece.label,
+      x: r.x,
+      y: r.y,
+      w: w - kerf,
+      h: h - kerf,
+      rotated: best.rotated,
+    });
+
+    // Split along the shorter leftover so the larger drop stays in one piece
+    const right: FreeRect = { x: r.x + w, y: r.y, w: r.w - w, h: 0 };
+    const below: FreeRect = { x: r.x, y: r.y + h, w: 0, h: r.h - h };
+    if (r.w - w < r.h - h) {
+      right.h = h;
+      below.w = r.w;
+    } else {
+      right.h = r.h;
+      below.w = w;
+    }
+    free.splice(best.ri, 1);
+    for (const f of [right, below]) if (f.w > 1e-9 && f.h > 1e-9) free.push(f);
+  }
+  return placements;
+}
+
+export function nestPanels(panels: Panel[], library: StockSheet[], kerf: number): NestingPlan {
+  const stock = library.filter(s => s.enabled && s.w > 0 && s.h > 0);
+  let remaining: Piece[] = panels
+    .map((p, index) => ({ index, label: p.label, w: p.w, h: p.h }))
+    .sort((a, b) => b.w * b.h - a.w * a.h || Math.max(b.w, b.h) - Math.max(a.w, a.h));
+
+  const tooBig = remaining.filter(p => !stock.some(s => fits(p, s, kerf)));
+  remaining = remaining.filter(p => !tooBig.includes(p));
+
+  const sheets: NestedSheet[] = [];
+  while (remaining.length) {
+    let best: NestedSheet | null = null;
+    for (const sheet of stock) {
+      if (!fits(remaining[0], sheet, kerf)) continue;
+      const placements = packSheet(sheet, remaining, kerf);
+      const usedArea = placements.reduce((s, p) => s + p.w * p.h, 0);
+      const yieldPct = (usedArea / (sheet.w * sheet.h)) * 100;
+      // Fullest sheet wins; on a tie take the cheaper one
+      if (!best || yieldPct > best.yieldPct + 1e-6 ||
+          (Math.abs(yieldPct - best.yieldPct) <= 1e-6 && sheet.cost < best.sheet.cost)) {
+        best = { sheet, placements, usedArea, yieldPct };
+      }
+    }
+    if (!best || !best.placements.length) break;
+    sheets.push(best);
+    const placed = new Set(best.placements.map(p => p.index));
+    remaining = remaining.filter(p => !placed.has(p.index));
+  }
+
+  const panelArea = sheets.reduce((s, sh) => s + sh.usedArea, 0);
+  const sheetArea = sheets.reduce((s, sh) => s + sh.sheet.w * sh.sheet.h, 0);
+  const sheetCost = sheets.reduce((s, sh) => s + sh.sheet.cost, 0);
+  const wasteCost = sheets.reduce((s, sh) => s + sh.sheet.cost * (1 - sh.yieldPct / 100), 0);
+  return {
+    sheets,
+    unplaced: tooBig.map(p => p.label),
+    panelArea,
+    sheetArea,
+    yieldPct: sheetArea > 0 ? (panelArea / sheetArea) * 100 : 0,
+    wasteArea: sheetArea - panelArea,
+    sheetCost,
+    wasteCost,
+  };
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PANEL_STATE } from './types';
+import { computeStats, solveAndBuildPanels } from './panelEngine';
+
+describe('running bond', () => {
+  it('prices row-end cuts as stock, not custom fillers', () => {
+    const state = { ...DEFAULT_PANEL_STATE, layoutMode: 'running-bond' as const, wallH: 192, enabledHeights: [96] };
+    const { panels } = solveAndBuildPanels(state);
+    const ends = panels.filter(p => p.bondCut);
+    expect(ends.length).toBeGreaterThan(0);
+    expect(ends.every(p => !p.filler)).toBe(true);
+    expect(computeStats({ ...state, panels }).fillerCount).toBe(0);
+  });
+});
@@ -1,28 +1,48 @@
 import type { PanelState, Panel, AxisSolution, LayoutOption, LightingPreset } from './types';
+import { holeArea } from './holeShapes';
+import { keepOutContains } from './keepOuts';
+import { wallOutline, trimPanelsToWall, insidePanelOutline, panelArea } from './wallOutline';
+import { nestPanels } from './nesting';
+import { getMaterial } from './materials';
+import { priceDesign, type PriceLine } from './pricing';
 
 // ─── Image Processing ────────────────────────────────────────────────
-export function processImage(state: PanelState): { grayPixels: Float32Array; imgWidth: number; imgHeight: number } | null {
-  const img = state.sourceImage;
-  if (!img) return null;
+// Luma of each source image, so tone changes skip the canvas round trip
+const lumaCache = new WeakMap<HTMLImageElement, { luma: Float32Array; width: number; height: number }>();
+
+function imageLuma(img: HTMLImageElement): { luma: Float32Array; width: number; height: number } {
+  const cached = lumaCache.get(img);
+  if (cached) return cached;
   const c = document.createElement('canvas');
   c.width = img.naturalWidth;
   c.height = img.naturalHeight;
   const cx = c.getContext('2d')!;
   cx.drawImage(img, 0, 0);
-  const data = cx.getImageData(0, 0, c.width, c.height);
-  const px = data.data;
-  const gray = new Float32Array(c.width * c.height);
+  const px = cx.getImageData(0, 0, c.width, c.height).data;
+  const luma = new Float32Array(c.width * c.height);
+  for (let i = 0; i < luma.length; i++) {
+    const idx = i * 4;
+    luma[i] = (px[idx] * 0.299 + px[idx + 1] * 0.587 + px[idx + 2] * 0.114) / 255;
+  }
+  const result = { luma, width: c.width, height: c.height };
+  lumaCache.set(img, result);
+  return result;
+}
+
+export function processImage(state: PanelState): { grayPixels: Float32Array; imgWidth: number; imgHeight: number } | null {
+  const img = state.sourceImage;
+  if (!img) return null;
+  const { luma, width, height } = imageLuma(img);
+  const gray = new Float32Array(luma.length);
   const br = state.brightness / 100;
   const co = state.contrast / 100;
   const cf = (1 + co) / (1 - co + 0.001);
   for (let i = 0; i < gray.length; i++) {
-    const idx = i * 4;
-    let v = (px[idx] * 0.299 + px[idx + 1] * 0.587 + px[idx + 2] * 0.114) / 255;
-    v = (v + br - 0.5) * cf + 0.5;
+    let v = (luma[i] + br - 0.5) * cf + 0.5;
     if (state.invert) v = 1 - v;
     gray[i] = Math.max(0, Math.min(1, v));
   }
-  return { grayPixels: gray, imgWidth: c.width, imgHeight: c.height };
+  return { grayPixels: gray, imgWidth: width, imgHeight: height };
 }
 
 export function sampleImage(state: PanelState, u: number, v: number): number {
@@ -41,7 +61,16 @@ export function sampleImage(state: PanelState, u: number, v: number): number {
 }
 
 // ─── Layout Solver ───────────────────────────────────────────────────
-export function solveAxis(wallDim: number, gap: number, sizes: number[]): AxisSolution[] {
+export interface FillerOptions {
+  mode: PanelState['fillerMode'];
+  min: number;
+  max: number;
+}
+
+// Cut fillers to 1/16" so shop dimensions stay readable
+const FILLER_STEP = 1 / 16;
+
+export function solveAxis(wallDim: number, gap: number, sizes: number[], fillers?: FillerOptions): AxisSolution[] {
   if (!sizes.length) return [];
   const sorted = sizes.slice().sort((a, b) => b - a);
   const results: AxisSolution[] = [];
@@ -59,6 +88,23 @@ export function solveAxis(wallDim: number, gap: number, sizes: number[]): AxisSo
         numPanels,
       });
     }
+    // Close the remaining strip with custom-cut fillers. Fillers are cut so the whole run,
+    // gaps included, lands on the wall dimension, so the strip counts as fully covered.
+    if (fillers && fillers.mode !== 'none') {
+      const n = fillers.mode === 'symmetric' ? 2 : 1;
+      const gaps = (numPanels + n - 1) * gap;
+      const filler = Math.floor(((wallDim - totalDim - gaps) / n) / FILLER_STEP + 1e-6) * FILLER_STEP;
+      if (filler >= fillers.min && filler <= fillers.max && filler > 0) {
+        results.push({
+          counts: { ...counts },
+          total: totalDim + n * filler + gaps,
+          coverage: Math.min(1, (totalDim + n * filler + gaps) / wallDim),
+          numPanels: numPanels + n,
+          filler,
+          fillerCount: n,
+        });
+      }
+    }
     if (idx >= sorted.length) return;
     const size = sorted[idx];
     const maxN = Math.floor((wallDim - totalWithGaps + gap) / (size + (numPanels > 0 ? gap : 0)));
@@ -84,9 +130,10 @@ export function solveAxis(wallDim: number, gap: number, sizes: number[]): AxisSo
   const unique: AxisSolution[] = [];
   for (const r of results) {
     const key = Object.entries(r.counts)
+      .filter(([, v]) => v > 0)
       .sort(([a], [b]) => Number(a) - Number(b))
       .map(([k, v]) => `${k}:${v}`)
-      .join(',');
+      .join(',') + (r.filler ? `|${r.fillerCount}x${r.filler}` : '');
     if (!seen.has(key)) {
       seen.add(key);
       unique.push(r);
@@ -112,18 +159,71 @@ export function arrangeAxis(counts: Record<number, number>): number[] {
 }
 
 function describeCounts(counts: Record<number, number>): string {
-  const entries = Object.entries(counts).map(([k, v]) => [parseInt(k), v] as [number, number]).sort(([a], [b]) => a - b);
+  const entries = Object.entries(counts).map(([k, v]) => [parseInt(k), v] as [number, number])
+    .filter(([, n]) => n > 0)
+    .sort(([a], [b]) => a - b);
   return entries.map(([s, n]) => n === 1 ? `${s}"` : `${n}x${s}"`).join(' + ');
 }
 
+function describeAxis(sol: AxisSolution): string {
+  const base = describeCounts(sol.counts);
+  if (!sol.filler) return base;
+  const cut = `${sol.fillerCount === 2 ? '2x' : ''}${+sol.filler.toFixed(4)}" cut`;
+  return base ? `${base} + ${cut}` : cut;
+}
+
+// One axis of panels in placement order; `cut` marks custom-cut pieces, `bond` stock
+// panels cut down at the ends of a running-bond row
+type Run = { size: number; cut: boolean; bond?: boolean }[];
+
+// Stock panels arranged by arrangeAxis, with fillers at the far end or at both ends
+function arrangeRun(sol: AxisSolution): Run {
+  const run: Run = arrangeAxis(sol.counts).map(size => ({ size, cut: false }));
+  if (!sol.filler) return run;
+  const piece = { size: sol.filler, cut: true };
+  return sol.fillerCount === 2 ? [piece, ...run, { ...piece }] : [...run, piece];
+}
+
+function describeSplit(run: Run): string {
+  return run.map(p => `${+p.size.toFixed(4)}"${p.cut ? '*' : ''}`).join('+');
+}
+
+// Top-to-bottom height sequences for even and odd columns of a vertical stack
+function stackSplits(h: AxisSolution, h2: AxisSolution): [Run, Run] {
+  const a = arrangeRun(h);
+  return [a, h2 === h ? [...a].reverse() : arrangeRun(h2)];
+}
+
+// Running-bond row: the same panels shifted by half the first one, with the overhang cut
+// off the last panel and a matching cut piece filling the start. Row length is unchanged.
+function bondRow(run: Run, gap: number): Run {
+  const shift = (run[0].size + gap) / 2;
+  const last = run[run.length - 1];
+  const row: Run = [
+    { size: shift - gap, cut: run[0].cut, bond: true },
+    ...run.slice(0, -1),
+    { size: last.size - shift, cut: last.cut, bond: true },
+  ];
+  return row.filter(p => p.size > 0);
+}
+
+// "cols × rows = n" for grids; bond and stack layouts have no single column/row count
+export function describePanelCount(state: PanelState): string {
+  const n = state.panels.length;
+  if (state.layoutMode === 'running-bond') return `${n} · running bond`;
+  if (state.layoutMode === 'vertical-stack') return `${n} · stacked columns`;
+  return `${state.colWidths.length} × ${state.rowHeights.length} = ${n}`;
+}
+
 export function solveAndBuildPanels(state: PanelState): {
   layoutOptions: LayoutOption[];
   panels: Panel[];
   colWidths: number[];
   rowHeights: number[];
 } {
-  const wSolutions = solveAxis(state.wallW, state.panelGap, state.enabledWidths);
-  const hSolutions = solveAxis(state.wallH, state.panelGap, state.enabledHeights);
+  const fillers: FillerOptions = { mode: state.fillerMode, min: state.fillerMin, max: state.fillerMax };
+  const wSolutions = solveAxis(state.wallW, state.panelGap, state.enabledWidths, fillers);
+  const hSolutions = solveAxis(state.wallH, state.panelGap, state.enabledHeights, fillers);
 
   // Fallback: single-panel-full-wall so rendering never breaks
   const fallback = (dim: number, enabled: number[]): AxisSolution => {
@@ -133,29 +233,76 @@ export function solveAndBuildPanels(state: PanelState): {
   const wSafe = wSolutions.length ? wSolutions : [fallback(state.wallW, state.enabledWidths)];
   const hSafe = hSolutions.length ? hSolutions : [fallback(state.wallH, state.enabledHeights)];
 
+  const mode = state.layoutMode;
   const combos: LayoutOption[] = [];
+  const seenStacks = new Set<string>();
   const maxW = Math.min(wSafe.length, 6);
   const maxH = Math.min(hSafe.length, 6);
   for (let wi = 0; wi < maxW; wi++) {
     for (let hi = 0; hi < maxH; hi++) {
       const w = wSafe[wi], h = hSafe[hi];
-      const totalCoverage = (w.coverage + h.coverage) / 2;
-      const totalPanels = w.numPanels * h.numPanels;
+      if (mode === 'vertical-stack') {
+        // Pair this split with every split of the same overall height; odd columns use the
+        // second one (or the first reversed) so horizontal seams step from column to column
+        for (let hj = hi; hj < maxH; hj++) {
+          const h2 = hSafe[hj];
+          if (Math.abs(h2.total - h.total) > 0.5) continue;
+          const [splitA, splitB] = stackSplits(h, h2);
+          const key = `${wi}|${describeSplit(splitA)}|${describeSplit(splitB)}`;
+          if (seenStacks.has(key)) continue;
+          seenStacks.add(key);
+          const evenCols = Math.ceil(w.numPanels / 2), oddCols = w.numPanels - evenCols;
+          combos.push({
+            w,
+            h,
+            h2,
+            totalCoverage: (w.coverage + (h.coverage + h2.coverage) / 2) / 2,
+            totalPanels: evenCols * splitA.length + oddCols * splitB.length,
+            desc: `Stack · W: ${describeAxis(w)} | H: ${describeSplit(splitA)} / ${describeSplit(splitB)}`,
+          });
+        }
+        continue;
+      }
+      const rows = h.numPanels;
       combos.push({
         w,
         h,
-        totalCoverage,
-        totalPanels,
-        desc: `W: ${describeCounts(w.counts)} | H: ${describeCounts(h.counts)}`,
+        totalCoverage: (w.coverage + h.coverage) / 2,
+        // Every other bond row gains a piece: a cut panel at each end instead of one whole
+        totalPanels: w.numPanels * rows + (mode === 'running-bond' ? Math.floor(rows / 2) : 0),
+        desc: `${mode === 'running-bond' ? 'Bond · ' : ''}W: ${describeAxis(w)} | H: ${describeAxis(h)}`,
       });
     }
   }
 
-  combos.sort((a, b) => {
+  // Stacks whose columns actually stagger rank ahead of ones that read as a plain grid
+  const staggered = (o: LayoutOption) => {
+    if (!o.h2) return 0;
+    const [a, b] = stackSplits(o.h, o.h2);
+    return describeSplit(a) === describeSplit(b) ? 0 : 1;
+  };
+  // Nesting every candidate is the expensive part of a layout pass, so it only runs when
+  // options are ranked on material yield; otherwise computeStats nests the chosen layout
+  const rankByYield = state.layoutRanking === 'yield';
+  if (rankByYield) {
+    for (const o of combos) {
+      o.yieldPct = nestPanels(buildLayout(state, o).panels, state.stockSheets, state.sawKerf).yieldPct;
+    }
+  }
+
+  // Yield ranking uses coverage to break yield ties
+  const byCoverage = (a: LayoutOption, b: LayoutOption) => {
     const cd = b.totalCoverage - a.totalCoverage;
-    if (Math.abs(cd) > 0.003) return cd;
-    return a.totalPanels - b.totalPanels;
-  });
+    return Math.abs(cd) > 0.003 ? cd : 0;
+  };
+  const byYield = (a: LayoutOption, b: LayoutOption) => {
+    const yd = b.yieldPct! - a.yieldPct!;
+    return Math.abs(yd) > 0.5 ? yd : 0;
+  };
+  combos.sort((a, b) =>
+    (rankByYield ? byYield(a, b) || byCoverage(a, b) : byCoverage(a, b)) ||
+    staggered(b) - staggered(a) ||
+    a.totalPanels - b.totalPanels);
 
   const layoutOptions = combos.slice(0, 15);
 
@@ -165,42 +312,324 @@ export function solveAndBuildPanels(state: PanelState): {
     return { layoutOptions: [], panels: [], colWidths: [], rowHeights: [] };
   }
 
-  const opt = layoutOptions[Math.max(0, idx)];
-  const colWidths = arrangeAxis(opt.w.counts);
-  const rowHeights = arrangeAxis(opt.h.counts);
+  return { layoutOptions, ...buildLayout(state, layoutOptions[Math.max(0, idx)]) };
+}
+
+// Place the panels of one layout option on the wall, trimmed to the wall outline
+function buildLayout(state: PanelState, opt: LayoutOption): { panels: Panel[]; colWidths: number[]; rowHeights: number[] } {
+  const mode = state.layoutMode;
+  const cols = arrangeRun(opt.w);
+  const rows = arrangeRun(opt.h);
+  const colWidths = cols.map(p => p.size);
+  const rowHeights = rows.map(p => p.size);
 
   const gap = state.panelGap;
-  const totalW = colWidths.reduce((s, v) => s + v, 0) + (colWidths.length - 1) * gap;
-  const totalH = rowHeights.reduce((s, v) => s + v, 0) + (rowHeights.length - 1) * gap;
-  const offsetX = (state.wallW - totalW) / 2;
-  const offsetY = (state.wallH - totalH) / 2;
+  const span = (run: Run) => run.reduce((s, p) => s + p.size, 0) + (run.length - 1) * gap;
+  const offsetX = (state.wallW - span(cols)) / 2;
 
   const panels: Panel[] = [];
-  let yPos = offsetY;
-  for (let r = 0; r < rowHeights.length; r++) {
+  const place = (x: number, y: number, pw: number, ph: number, col: number, row: number, filler: boolean, bondCut = false) => {
+    panels.push({
+      x,
+      y,
+      w: pw,
+      h: ph,
+      col,
+      row,
+      label: `${String.fromCharCode(65 + row)}${col + 1}`,
+      sizeLabel: `${+pw.toFixed(4)}"x${+ph.toFixed(4)}"`,
+      holes: [],
+      ...(filler ? { filler: true } : bondCut ? { bondCut: true } : {}),
+    });
+  };
+
+  if (mode === 'vertical-stack' && opt.h2) {
+    // Columns stand side by side, each with its own height split; letters count down each column
+    const [splitA, splitB] = stackSplits(opt.h, opt.h2);
     let xPos = offsetX;
-    for (let c = 0; c < colWidths.length; c++) {
-      const pw = colWidths[c], ph = rowHeights[r];
-      panels.push({
-        x: xPos,
-        y: yPos,
-        w: pw,
-        h: ph,
-        col: c,
-        row: r,
-        label: `${String.fromCharCode(65 + r)}${c + 1}`,
-        sizeLabel: `${pw}"x${ph}"`,
-        holes: [],
-      });
-      xPos += pw + gap;
+    for (let c = 0; c < cols.length; c++) {
+      const split = c % 2 === 0 ? splitA : splitB;
+      let yPos = (state.wallH - span(split)) / 2;
+      for (let r = 0; r < split.length; r++) {
+        place(xPos, yPos, cols[c].size, split[r].size, c, r, cols[c].cut || split[r].cut);
+        yPos += split[r].size + gap;
+      }
+      xPos += cols[c].size + gap;
+    }
+  } else {
+    let yPos = (state.wallH - span(rows)) / 2;
+    for (let r = 0; r < rows.length; r++) {
+      const row = mode === 'running-bond' && r % 2 === 1 ? bondRow(cols, gap) : cols;
+      let xPos = offsetX;
+      for (let c = 0; c < row.length; c++) {
+        place(xPos, yPos, row[c].size, rows[r].size, c, r, row[c].cut || rows[r].cut, row[c].bond);
+        xPos += row[c].size + gap;
+      }
+      yPos += rows[r].size + gap;
     }
-    yPos += rowHeights[r] + gap;
   }
 
-  return { layoutOptions, panels, colWidths, rowHeights };
+  // Raked, arched and polygon walls: trim the grid to the outline
+  const outline = wallOutline(state);
+  return { panels: outline ? trimPanelsToWall(panels, outline) : panels, colWidths, rowHeights };
+}
+
+// ─── Stochastic Placement ────────────────────────────────────────────
+// Light areas of a stochastic layout relax to this multiple of the base pitch
+const STOCHASTIC_SPARSE_FACTOR = 2.5;
+
+// Small, fast seeded PRNG so the same seed always yields the same hole field (and DXF)
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Mix the design seed with the panel label so every panel gets its own stable stream
+function hashSeed(seed: number, key: string): number {
+  let h = seed | 0;
+  for (let i = 0; i < key.length; i++) h = ((h << 5) - h + key.charCodeAt(i)) | 0;
+  return h;
+}
+
+// Bridson's Poisson-disk sampling with a spatially varying radius. A candidate is
+// accepted when no existing point lies closer than the larger of the two points'
+// radii, so dense and sparse regions blend without overlaps. Points are returned in
+// a local [0,w] × [0,h] frame.
+function poissonDisk(
+  w: number,
+  h: number,
+  rMin: number,
+  rMax: number,
+  radiusAt: (x: number, y: number) => number,
+  rand: () => number,
+): [number, number][] {
+  const cell = rMin / Math.SQRT2;
+  const gw = Math.max(1, Math.ceil(w / cell)), gh = Math.max(1, Math.ceil(h / cell));
+  const lookup = new Int32Array(gw * gh).fill(-1);
+  const pts: [number, number, number][] = [];
+  const active: number[] = [];
+  const reach = Math.ceil(rMax / cell);
+  const tries = 30;
+
+  const fits = (x: number, y: number, r: number) => {
+    const gx = Math.min(gw - 1, Math.floor(x / cell)), gy = Math.min(gh - 1, Math.floor(y / cell));
+    for (let j = Math.max(0, gy - reach); j <= Math.min(gh - 1, gy + reach); j++) {
+      for (let i = Math.max(0, gx - reach); i <= Math.min(gw - 1, gx + reach); i++) {
+        const k = lookup[j * gw + i];
+        if (k < 0) continue;
+        const [px, py, pr] = pts[k];
+        const need = Math.max(r, pr);
+        if ((px - x) ** 2 + (py - y) ** 2 < need * need) return false;
+      }
+    }
+    return true;
+  };
+
+  const add = (x: number, y: number) => {
+    const idx = pts.length;
+    pts.push([x, y, radiusAt(x, y)]);
+    active.push(idx);
+    const gx = Math.min(gw - 1, Math.floor(x / cell)), gy = Math.min(gh - 1, Math.floor(y / cell));
+    lookup[gy * gw + gx] = idx;
+  };
+
+  add(rand() * w, rand() * h);
+  while (active.length) {
+    const ai = Math.floor(rand() * active.length);
+    const [px, py, pr] = pts[active[ai]];
+    let placed = false;
+    for (let t = 0; t < tries; t++) {
+      const ang = rand() * Math.PI * 2;
+      const dist = pr * (1 + rand());
+      const x = px + Math.cos(ang) * dist, y = py + Math.sin(ang) * dist;
+      if (x < 0 || x > w || y < 0 || y > h) continue;
+      if (!fits(x, y, radiusAt(x, y))) continue;
+      add(x, y);
+      placed = true;
+      break;
+    }
+    if (!placed) {
+      active[ai] = active[active.length - 1];
+      active.pop();
+    }
+  }
+  return pts.map(([x, y]) => [x, y]);
+}
+
+// ─── Wall-Space Patterns ─────────────────────────────────────────────
+const WALL_PATTERNS = new Set<PanelState['gridPattern']>(['concentric', 'spiral', 'radial']);
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// X/Y hole pitch for layouts defined in wall coordinates, matching what the per-panel
+// lattice would use on the largest panel
+function wallPitch(state: PanelState): { sx: number; sy: number } {
+  const minSp = state.minSpacing;
+  if (state.spacingMode === 'spacing') {
+    return { sx: Math.max(minSp, state.spacingX), sy: Math.max(minSp, state.spacingY) };
+  }
+  const m = state.margin;
+  const refW = (Math.max(...state.colWidths) || 48) - 2 * m;
+  const refH = (Math.max(...state.rowHeights) || 120) - 2 * m;
+  const sx = state.gridCols > 1 ? refW / (state.gridCols - 1) : refW;
+  const sy = state.gridRows > 1 ? refH / (state.gridRows - 1) : refH;
+  return { sx: Math.max(minSp, sx), sy: Math.max(minSp, sy) };
+}
+
+// Every hole center of a concentric, spiral or radial pattern, in wall inches.
+// Panels clip these against their own margin in computeAllHoles.
+function wallPatternPoints(state: PanelState): [number, number][] {
+  const { sx: px, sy: py } = wallPitch(state);
+  const s = Math.min(px, py);
+  const cx = state.patternCenterU * state.wallW, cy = state.patternCenterV * state.wallH;
+  const maxR = Math.max(
+    Math.hypot(cx, cy), Math.hypot(state.wallW - cx, cy),
+    Math.hypot(cx, state.wallH - cy), Math.hypot(state.wallW - cx, state.wallH - cy),
+  );
+  const pts: [number, number][] = [];
+
+  if (state.gridPattern !== 'spiral') pts.push([cx, cy]);
+  if (state.gridPattern === 'concentric') {
+    // Rings one pitch apart, each divided into as many holes as its circumference allows
+    for (let k = 1; k * s <= maxR; k++) {
+      const r = k * s;
+      const n = Math.floor((2 * Math.PI * r) / s);
+      const phase = k % 2 ? 0 : Math.PI / n;  // alternate rings half-step for an even look
+      for (let i = 0; i < n; i++) {
+        const a = phase + (i / n) * Math.PI * 2;
+        pts.push([cx + Math.cos(a) * r, cy + Math.sin(a) * r]);
+      }
+    }
+  } else if (state.gridPattern === 'spiral') {
+    // Vogel's phyllotaxis: r = c·√i at the golden angle. Nearest neighbours sit ≥ 1.6c apart
+    // (there is no hole at i = 0), so c = s / 1.6 keeps the pitch at or above s.
+    const c = s / 1.6;
+    const count = Math.ceil((maxR / c) ** 2);
+    for (let i = 1; i <= count; i++) {
+      const r = c * Math.sqrt(i), a = i * GOLDEN_ANGLE;
+      pts.push([cx + Math.cos(a) * r, cy + Math.sin(a) * r]);
+    }
+  } else {
+    // Spokes: the outermost ring sets the spoke count (a power of two); inner rings keep
+    // every 2^k-th spoke so holes never crowd closer than the pitch near the center
+    const spokes = 2 ** Math.ceil(Math.log2(Math.max(4, (2 * Math.PI * maxR) / s)));
+    for (let r = s; r <= maxR; r += s) {
+      const fit = Math.max(4, (2 * Math.PI * r) / s);
+      const stride = Math.max(1, spokes / 2 ** Math.floor(Math.log2(fit)));
+      for (let i = 0; i < spokes; i += stride) {
+        const a = (i / spokes) * Math.PI * 2;
+        pts.push([cx + Math.cos(a) * r, cy + Math.sin(a) * r]);
+      }
+    }
+  }
+  return pts;
 }
 
 // ─── Hole Computation ────────────────────────────────────────────────
+// Slot orientation at a wall point: the fixed slotAngle, or the local image gradient
+// direction when slotFollowGradient is set and the image isn't flat there
+function slotAngleAt(state: PanelState, wx: number, wy: number): number {
+  const fixed = (state.slotAngle * Math.PI) / 180;
+  if (!state.slotFollowGradient || !state.grayPixels) return fixed;
+  const wW = state.wallW, wH = state.wallH;
+  const step = Math.max(wW / state.imgWidth, wH / state.imgHeight);  // ≈ one source pixel, in inches
+  const u = wx / wW, v = wy / wH, du = step / wW, dv = step / wH;
+  const gx = sampleImage(state, u + du, v) - sampleImage(state, u - du, v);
+  const gy = sampleImage(state, u, v + dv) - sampleImage(state, u, v - dv);
+  if (Math.hypot(gx, gy) < 1e-3) return fixed;
+  return Math.atan2(gy, gx);
+}
+
+function nearestSize(sizes: number[], d: number): number {
+  let bestSize = sizes[0], bestDist = Math.abs(d - sizes[0]);
+  for (let si = 1; si < sizes.length; si++) {
+    const dist = Math.abs(d - sizes[si]);
+    if (dist < bestDist) {
+      bestDist = dist;
+      bestSize = sizes[si];
+    }
+  }
+  return bestSize;
+}
+
+// Error-diffusion kernels as [dx, dy, weight]. Atkinson deliberately drops 1/4 of the error.
+type DitherKernel = [number, number, number][];
+export const DITHER_KERNELS: Record<Exclude<PanelState['ditherMode'], 'none'>, DitherKernel> = {
+  'floyd-steinberg': [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16],
+  ],
+  jarvis: [
+    [1, 0, 7 / 48], [2, 0, 5 / 48],
+    [-2, 1, 3 / 48], [-1, 1, 5 / 48], [0, 1, 7 / 48], [1, 1, 5 / 48], [2, 1, 3 / 48],
+    [-2, 2, 1 / 48], [-1, 2, 3 / 48], [0, 2, 5 / 48], [1, 2, 3 / 48], [2, 2, 1 / 48],
+  ],
+  atkinson: [
+    [1, 0, 1 / 8], [2, 0, 1 / 8],
+    [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8],
+    [0, 2, 1 / 8],
+  ],
+};
+
+// Snap each point's ideal diameter to an enabled size, diffusing the open-area error
+// (ideal hole area minus snapped hole area) to neighbours not yet visited. Rows are
+// scanned serpentine. shifts[r] is where row r's first point sits, in pitch units on a
+// shared column axis (hex rows alternate by half a pitch), so a target between two
+// lattice points splits its weight across both. Points above threshold (d < 0) neither
+// receive nor pass on error, which keeps the threshold edge crisp.
+function ditherGrid(grid: { d: number }[][], sizes: number[], kernel: DitherKernel, shifts: number[]) {
+  const err = grid.map(row => new Float64Array(row.length));
+  const area = (d: number) => Math.PI * (d / 2) * (d / 2);
+
+  const spread = (r: number, pos: number, amount: number) => {
+    const row = grid[r];
+    if (!row) return;
+    const local = pos - shifts[r];
+    const lo = Math.floor(local + 1e-6), frac = Math.max(0, local - lo);
+    const targets: [number, number][] = frac < 1e-6 ? [[lo, 1]] : [[lo, 1 - frac], [lo + 1, frac]];
+    for (const [c, w] of targets) {
+      if (c < 0 || c >= row.length || row[c].d < 0) continue;
+      err[r][c] += amount * w;
+    }
+  };
+
+  for (let r = 0; r < grid.length; r++) {
+    const row = grid[r];
+    const dir = r % 2 === 0 ? 1 : -1;
+    const rowShift = shifts[r];
+    for (let i = 0; i < row.length; i++) {
+      const c = dir === 1 ? i : row.length - 1 - i;
+      const pt = row[c];
+      if (pt.d < 0) continue;
+      const want = Math.max(0, area(pt.d) + err[r][c]);
+      let best = sizes[0], bestDist = Math.abs(want - area(sizes[0]));
+      for (let si = 1; si < sizes.length; si++) {
+        const dist = Math.abs(want - area(sizes[si]));
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = sizes[si];
+        }
+      }
+      const e = want - area(best);
+      pt.d = best;
+      for (const [dx, dy, w] of kernel) {
+        const tr = r + dy;
+        // Within the current row a target is a plain index step; across rows it is a position
+        if (dy === 0) {
+          const tc = c + dx * dir;
+          if (tc >= 0 && tc < row.length && row[tc].d >= 0) err[r][tc] += e * w;
+        } else {
+          spread(tr, c + rowShift + dx * dir, e * w);
+        }
+      }
+    }
+  }
+}
+
 export function computeAllHoles(state: PanelState): { panels: Panel[]; gridInfo: { cols: number; rows: number } } {
   const panels = state.panels.map(p => ({ ...p, holes: [...p.holes] }));
 
@@ -220,6 +649,9 @@ export function computeAllHoles(state: PanelState): { panels: Panel[]; gridInfo:
 
   let lastGridInfo = { cols: 0, rows: 0 };
 
+  // Radial families are laid out once in wall coordinates so they run continuously across seams
+  const wallPoints = WALL_PATTERNS.has(state.gridPattern) ? wallPatternPoints(state) : null;
+
   for (const panel of panels) {
     const pW = panel.w, pH = panel.h;
     const areaW = pW - 2 * m, areaH = pH - 2 * m;
@@ -246,31 +678,103 @@ export function computeAllHoles(state: PanelState): { panels: Panel[]; gridInfo:
       rows = Math.min(rows, maxRows);
     }
     lastGridInfo = { cols, rows };
-    const holes: Panel['holes'] = [];
 
-    for (let r = 0; r < rows; r++) {
-      const isOdd = r % 2 === 1;
-      const cCols = (state.gridPattern === 'hex' && isOdd) ? cols - 1 : cols;
-      const sx = cols > 1 ? areaW / (cols - 1) : 0;
-      const xOff = (state.gridPattern === 'hex' && isOdd) ? sx * 0.5 : 0;
-      for (let c = 0; c < cCols; c++) {
-        const lx = m + (cols > 1 ? c * (areaW / (cols - 1)) : areaW / 2) + xOff;
-        const ly = m + (rows > 1 ? r * (areaH / (rows - 1)) : areaH / 2);
-        if (lx < 0 || lx > pW || ly < 0 || ly > pH) continue;
+    // Ideal (unsnapped) diameter at a panel-local point; -1 when above threshold
+    const idealDiameter = (lx: number, ly: number): number => {
+      const u = (panel.x + lx) / wW, v = (panel.y + ly) / wH;
+      const brightness = sampleImage(state, u, v);
+      if (brightness > thresh) return -1;
+      const t = Math.pow(Math.max(0, Math.min(1, 1 - brightness / thresh)), gam);
+      return minD + t * (maxD - minD);
+    };
+
+    const grid: { x: number; y: number; d: number }[][] = [];
+    const shifts: number[] = [];  // lattice rows only: column position of each row's first point
+    if (state.gridPattern === 'stochastic') {
+      // Base pitch is whatever the lattice would have used; darkness tightens it toward that
+      // pitch, light areas relax to STOCHASTIC_SPARSE_FACTOR × pitch
+      const sx = cols > 1 ? areaW / (cols - 1) : areaW;
+      const sy = rows > 1 ? areaH / (rows - 1) : areaH;
+      const pitch = Math.max(minSp, Math.min(sx, sy));
+      const radiusAt = (lx: number, ly: number) => {
         const u = (panel.x + lx) / wW, v = (panel.y + ly) / wH;
-        const brightness = sampleImage(state, u, v);
-        if (brightness > thresh) continue;
-        const t = Math.pow(Math.max(0, Math.min(1, 1 - brightness / thresh)), gam);
-        const rawDiam = minD + t * (maxD - minD);
-        let bestSize = sizes[0], bestDist = Math.abs(rawDiam - sizes[0]);
-        for (let si = 1; si < sizes.length; si++) {
-          const dist = Math.abs(rawDiam - sizes[si]);
-          if (dist < bestDist) {
-            bestDist = dist;
-            bestSize = sizes[si];
-          }
+        const dark = Math.max(0, Math.min(1, 1 - sampleImage(state, u, v) / thresh));
+        return pitch * (1 + (STOCHASTIC_SPARSE_FACTOR - 1) * (1 - dark));
+      };
+      const rand = mulberry32(hashSeed(state.stochasticSeed, panel.label));
+      const pts = poissonDisk(areaW, areaH, pitch, pitch * STOCHASTIC_SPARSE_FACTOR, (x, y) => radiusAt(m + x, m + y), rand);
+      grid.push(pts.map(([x, y]) => ({ x: m + x, y: m + y, d: idealDiameter(m + x, m + y) })));
+    } else if (wallPoints) {
+      const row: { x: number; y: number; d: number }[] = [];
+      for (const [wx, wy] of wallPoints) {
+        const lx = wx - panel.x, ly = wy - panel.y;
+        if (lx < m || lx > pW - m || ly < m || ly > pH - m) continue;
+        row.push({ x: lx, y: ly, d: idealDiameter(lx, ly) });
+      }
+      grid.push(row);
+    } else if (state.gridAnchor === 'wall') {
+      // One lattice anchored at the wall origin; keep the points inside this panel's margin
+      // so rows and columns line up across seams whatever the panel widths
+      const { sx, sy } = wallPitch(state);
+      const eps = 1e-6;
+      const x0 = panel.x + m, x1 = panel.x + pW - m;
+      const y0 = panel.y + m, y1 = panel.y + pH - m;
+      const j0 = Math.ceil(y0 / sy - eps), j1 = Math.floor(y1 / sy + eps);
+      const iBase = Math.ceil(x0 / sx - eps);
+      for (let j = j0; j <= j1; j++) {
+        const xOff = state.gridPattern === 'hex' && j % 2 !== 0 ? 0.5 : 0;
+        const i0 = Math.ceil(x0 / sx - xOff - eps), i1 = Math.floor(x1 / sx - xOff + eps);
+        const row: { x: number; y: number; d: number }[] = [];
+        for (let i = i0; i <= i1; i++) {
+          const lx = (i + xOff) * sx - panel.x, ly = j * sy - panel.y;
+          row.push({ x: lx, y: ly, d: idealDiameter(lx, ly) });
+        }
+        grid.push(row);
+        shifts.push(i0 + xOff - iBase);
+      }
+      lastGridInfo = { cols: Math.max(0, Math.floor(x1 / sx + eps) - iBase + 1), rows: Math.max(0, j1 - j0 + 1) };
+    } else {
+      // Sample the lattice row by row
+      for (let r = 0; r < rows; r++) {
+        const isOdd = r % 2 === 1;
+        const cCols = (state.gridPattern === 'hex' && isOdd) ? cols - 1 : cols;
+        const sx = cols > 1 ? areaW / (cols - 1) : 0;
+        const xOff = (state.gridPattern === 'hex' && isOdd) ? sx * 0.5 : 0;
+        const row: { x: number; y: number; d: number }[] = [];
+        for (let c = 0; c < cCols; c++) {
+          const lx = m + (cols > 1 ? c * (areaW / (cols - 1)) : areaW / 2) + xOff;
+          const ly = m + (rows > 1 ? r * (areaH / (rows - 1)) : areaH / 2);
+          row.push({ x: lx, y: ly, d: idealDiameter(lx, ly) });
+        }
+        grid.push(row);
+        shifts.push(state.gridPattern === 'hex' && isOdd ? 0.5 : 0);
+      }
+    }
+
+    // Error diffusion needs lattice neighbours; other patterns snap independently
+    if (state.ditherMode !== 'none' && (state.gridPattern === 'rect' || state.gridPattern === 'hex')) {
+      ditherGrid(grid, sizes, DITHER_KERNELS[state.ditherMode], shifts);
+    } else {
+      for (const row of grid) {
+        for (const pt of row) if (pt.d >= 0) pt.d = nearestSize(sizes, pt.d);
+      }
+    }
+
+    const holes: Panel['holes'] = [];
+    for (const row of grid) {
+      for (const pt of row) {
+        if (pt.d < 0 || pt.x < 0 || pt.x > pW || pt.y < 0 || pt.y > pH) continue;
+        if (!insidePanelOutline(panel, pt.x, pt.y, m)) continue;
+        if (state.keepOuts.length) {
+          const reach = (pt.d / 2) * (state.holeShape === 'slot' ? Math.max(1, state.slotRatio) : state.holeShape === 'square' ? Math.SQRT2 : 1);
+          const wx = panel.x + pt.x, wy = panel.y + pt.y;
+          if (state.keepOuts.some(z => keepOutContains(z, wx, wy, z.clearance + reach))) continue;
+        }
+        if (state.holeShape === 'slot') {
+          holes.push({ x: pt.x, y: pt.y, d: pt.d, a: slotAngleAt(state, panel.x + pt.x, panel.y + pt.y) });
+        } else {
+          holes.push({ x: pt.x, y: pt.y, d: pt.d });
         }
-        holes.push({ x: lx, y: ly, d: bestSize });
       }
     }
     panel.holes = holes;
@@ -279,21 +783,26 @@ export function computeAllHoles(state: PanelState): { panels: Panel[]; gridInfo:
   return { panels, gridInfo: lastGridInfo };
 }
 
-// ─── Pricing constants ───────────────────────────────────────────────
-export const RATE_PANEL_PER_SF = 42;
-export const RATE_BACKLIGHT_SOLID_PER_SF = 50;
-export const RATE_BACKLIGHT_PROGRAMMABLE_PER_SF = 75;
-
 // ─── Statistics ──────────────────────────────────────────────────────
+// Rates come from the pricing rules (pricing.ts); the per-line amounts are broken
+// out here for the panels that already read them
 export function computeStats(state: PanelState): {
   totalHoles: number;
   openAreaPct: number;
   sizesUsed: number;
+  sizeCounts: Record<number, number>;  // hole diameter → count across the wall
   panelSF: number;
+  panelRate: number;
   panelCost: number;
   backlightRate: number;
   backlightCost: number;
   backlightType: 'none' | 'solid' | 'programmable';
+  fillerCount: number;
+  fillerCost: number;
+  sheetsUsed: number;
+  materialYieldPct: number;
+  wasteCost: number;
+  priceLines: PriceLine[];
   estimatedTotal: number;
 } {
   const panels = state.panels;
@@ -303,42 +812,50 @@ export function computeStats(state: PanelState): {
   const sizeCounts: Record<number, number> = {};
   for (const p of panels) {
     for (const h of p.holes) {
-      openArea += Math.PI * (h.d / 2) * (h.d / 2);
+      openArea += holeArea(state.holeShape, h.d, state.slotRatio);
       sizeCounts[h.d] = (sizeCounts[h.d] || 0) + 1;
     }
   }
 
-  const totalArea = panels.reduce((s, p) => s + p.w * p.h, 0);
+  const totalArea = panels.reduce((s, p) => s + panelArea(p), 0);
   const openAreaPct = totalArea > 0 ? (openArea / totalArea) * 100 : 0;
   const sizesUsed = Object.keys(sizeCounts).length;
-  const panelSF = panels.reduce((s, p) => s + (p.w * p.h) / 144, 0);
-  const panelCost = panelSF * RATE_PANEL_PER_SF;
-
-  let backlightRate = 0;
-  let backlightType: 'none' | 'solid' | 'programmable' = 'none';
-  if (state.backlight) {
-    if (state.backlightMode === 'gradient') {
-      backlightRate = RATE_BACKLIGHT_PROGRAMMABLE_PER_SF;
-      backlightType = 'programmable';
-    } else {
-      backlightRate = RATE_BACKLIGHT_SOLID_PER_SF;
-      backlightType = 'solid';
-    }
-  }
-  const backlightCost = panelSF * backlightRate;
-  const estimatedTotal = panelCost + backlightCost;
+  const panelSF = totalArea / 144;
+
+  const backlightType: 'none' | 'solid' | 'programmable' =
+    !state.backlight ? 'none' : state.backlightMode === 'gradient' ? 'programmable' : 'solid';
+  const fillerCount = panels.filter(p => p.filler).length;
+  // Drops left on the stock sheets are bought but never installed
+  const nesting = nestPanels(panels, state.stockSheets, state.sawKerf);
+  const price = priceDesign({
+    material: state.material,
+    panelSF,
+    panelCount: panels.length,
+    customCuts: fillerCount,
+    holes: totalHoles,
+    backlight: backlightType,
+    wasteCost: nesting.wasteCost,
+    sheets: nesting.sheets.length,
+    yieldPct: nesting.yieldPct,
+    discount: state.discount,
+  });
+  const lineAmount = (kind: PriceLine['kind']) => price.lines.find(l => l.kind === kind)?.amount ?? 0;
 
   return {
-    totalHoles, openAreaPct, sizesUsed, panelSF,
-    panelCost, backlightRate, backlightCost, backlightType,
-    estimatedTotal,
+    totalHoles, openAreaPct, sizesUsed, sizeCounts, panelSF,
+    panelRate: price.panelRate, panelCost: lineAmount('panels'),
+    backlightRate: price.backlightRate, backlightCost: lineAmount('backlight'), backlightType,
+    fillerCount, fillerCost: lineAmount('custom-cut'),
+    sheetsUsed: nesting.sheets.length, materialYieldPct: nesting.yieldPct, wasteCost: nesting.wasteCost,
+    priceLines: price.lines,
+    estimatedTotal: price.total,
   };
 }
 
 // ─── FAL Render Prompt Assembly ──────────────────────────────────────
 export function buildRenderPrompt(state: PanelState): string {
   const parts: string[] = [
-    'Perforated metal panel wall, realistic architectural photography, luxury interior',
+    `Perforated ${getMaterial(state.material).finish} panel wall, realistic architectural photography, luxury interior`,
   ];
   if (state.backlight) {
     if (state.backlightMode === 'gradient') {
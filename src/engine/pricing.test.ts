@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { PRICING, priceDesign } from './pricing';
+import type { PriceInput } from './pricing';
+
+const small: PriceInput = {
+  material: 'corian-dove', panelSF: 40, panelCount: 0, customCuts: 0, holes: 0,
+  backlight: 'none', wasteCost: 0, sheets: 0, yieldPct: 100, discount: 'trade',
+};
+
+describe('priceDesign', () => {
+  it('applies the minimum order after the discount', () => {
+    const { lines, total } = priceDesign(small);
+    expect(lines.map(l => l.kind)).toEqual(['panels', 'discount', 'minimum']);
+    expect(total).toBeCloseTo(PRICING.minimumOrder);
+  });
+
+  it('leaves orders above the minimum discounted', () => {
+    const { lines, total } = priceDesign({ ...small, panelSF: 200 });
+    expect(lines.map(l => l.kind)).toEqual(['panels', 'discount']);
+    expect(total).toBeCloseTo(lines[0].amount * 0.9);
+  });
+});
@@ -0,0 +1,165 @@
+import rules from './pricing.json';
+import { getMaterial } from './materials';
+
+// ─── Pricing Rules ───────────────────────────────────────────────────
+// Every rate the app quotes with lives in pricing.json: panel rates per material,
+// backlight rates, machining, custom-cut surcharges, volume tiers, the minimum
+// order, crating, shipping, tax, the discounts and installation options a quote may
+// carry and the quote's validity and terms. computeStats, the client quote,
+// the PDF pricing strip and the chat prompt (server.js and api/chat.js import the
+// same file) all read from it, so changing a rate is a one-file edit.
+
+export interface PricingRules {
+  currency: string;
+  materialRates: Record<string, number>;  // USD per SF of panel area, by material id
+  backlightRates: { solid: number; programmable: number };  // USD per SF of panel area
+  machining: {
+    perHole: number;
+    perMachineMinute: number;
+    holesPerMinute: number;  // punch/route rate that turns a hole count into machine time
+  };
+  customCutSurcharge: number;  // per custom-cut (filler) panel
+  volumeTiers: { minSF: number; discountPct: number }[];  // on fabrication, by panel area
+  minimumOrder: number;  // fabrication is billed at no less than this, after discounts
+  crating: { panelsPerCrate: number; perCrate: number };
+  shipping: { base: number; perPanel: number };
+  taxPct: number;
+  discounts: { id: string; label: string; pct: number }[];
+  installationOptions: InstallationOption[];  // quoted on the client quote, not in the live estimate
+  quote: { validDays: number; terms: string[] };
+}
+
+export interface InstallationOption {
+  id: string;
+  label: string;
+  detail: string;
+  perSF: number;
+  perPanel: number;
+  backlitOnly: boolean;  // only offered when the wall is backlit
+}
+
+export const PRICING: PricingRules = rules;
+
+export type PriceLineKind =
+  | 'panels' | 'backlight' | 'machining' | 'custom-cut' | 'waste'
+  | 'volume' | 'minimum' | 'discount' | 'crating' | 'shipping' | 'installation' | 'tax';
+
+export interface PriceLine {
+  kind: PriceLineKind;
+  label: string;
+  detail: string;
+  qty: number;
+  unit: string;
+  amount: number;  // negative for discounts
+}
+
+export interface PriceInput {
+  material: string;
+  panelSF: number;
+  panelCount: number;
+  customCuts: number;
+  holes: number;
+  backlight: 'none' | 'solid' | 'programmable';
+  wasteCost: number;   // drops left on the nested stock sheets
+  sheets: number;
+  yieldPct: number;
+  discount: string;    // id in the rule table, '' for none
+  installation?: string[];  // installation option ids
+}
+
+export interface PriceBreakdown {
+  lines: PriceLine[];
+  panelRate: number;
+  backlightRate: number;
+  total: number;
+}
+
+export function materialRate(id: string, r: PricingRules = PRICING): number {
+  return r.materialRates[getMaterial(id).id] ?? 0;
+}
+
+const usd = (v: number) => '$' + v.toLocaleString('en-US', { maximumFractionDigits: 2 });
+const sf = (v: number) => `${v.toFixed(0)} SF`;
+
+// Fabrication lines first, then what the order as a whole adjusts (tiers, discount, then
+// the minimum so no discount takes fabrication below it), then freight and installation,
+// then tax on everything above
+export function priceDesign(input: PriceInput, r: PricingRules = PRICING): PriceBreakdown {
+  const lines: PriceLine[] = [];
+  const add = (kind: PriceLineKind, label: string, detail: string, qty: number, unit: string, amount: number) => {
+    lines.push({ kind, label, detail, qty, unit, amount });
+  };
+  const sum = () => lines.reduce((s, l) => s + l.amount, 0);
+
+  const m = getMaterial(input.material);
+  const panelRate = materialRate(m.id, r);
+  add('panels', 'Perforated panels', `${sf(input.panelSF)} × ${usd(panelRate)}/SF · ${m.name}`,
+    input.panelSF, 'SF', input.panelSF * panelRate);
+
+  const backlightRate = input.backlight === 'none' ? 0 : r.backlightRates[input.backlight];
+  if (input.backlight !== 'none') {
+    add('backlight', input.backlight === 'programmable' ? 'Programmable RGB backlight' : 'RGB backlight',
+      `${sf(input.panelSF)} × ${usd(backlightRate)}/SF${input.backlight === 'programmable' ? ' · gradient/DMX' : ' · solid'}`,
+      input.panelSF, 'SF', input.panelSF * backlightRate);
+  }
+
+  const minutes = r.machining.holesPerMinute > 0 ? input.holes / r.machining.holesPerMinute : 0;
+  const machining = input.holes * r.machining.perHole + minutes * r.machining.perMachineMinute;
+  if (machining > 0) {
+    add('machining', 'Machining',
+      r.machining.perMachineMinute > 0
+        ? `${input.holes.toLocaleString()} holes · ${Math.ceil(minutes)} machine min`
+        : `${input.holes.toLocaleString()} holes × ${usd(r.machining.perHole)}`,
+      input.holes, 'holes', machining);
+  }
+
+  if (input.customCuts > 0) {
+    add('custom-cut', 'Custom-cut panels', `${input.customCuts} × ${usd(r.customCutSurcharge)} cut surcharge`,
+      input.customCuts, 'ea', input.customCuts * r.customCutSurcharge);
+  }
+
+  if (input.wasteCost > 0) {
+    add('waste', 'Material waste', `${input.sheets} sheets · ${input.yieldPct.toFixed(0)}% yield`,
+      input.sheets, 'sheets', input.wasteCost);
+  }
+
+  const fabrication = sum();
+  const tier = [...r.volumeTiers].sort((a, b) => b.minSF - a.minSF).find(t => input.panelSF >= t.minSF);
+  if (tier && tier.discountPct > 0 && fabrication > 0) {
+    add('volume', 'Volume discount', `${tier.discountPct}% from ${tier.minSF} SF`,
+      1, 'ea', -fabrication * tier.discountPct / 100);
+  }
+
+  const discount = r.discounts.find(d => d.id === input.discount);
+  if (discount && discount.pct > 0 && fabrication > 0) {
+    add('discount', discount.label, `${discount.pct}% off fabrication`, 1, 'ea', -sum() * discount.pct / 100);
+  }
+
+  const billed = sum();
+  if (billed > 0 && billed < r.minimumOrder) {
+    add('minimum', 'Minimum order', `Fabrication billed at no less than ${usd(r.minimumOrder)} after discounts`,
+      1, 'ea', r.minimumOrder - billed);
+  }
+
+  if (input.panelCount > 0) {
+    const crates = Math.ceil(input.panelCount / Math.max(1, r.crating.panelsPerCrate));
+    add('crating', 'Crating', `${crates} crate${crates === 1 ? '' : 's'} × ${usd(r.crating.perCrate)} · ${r.crating.panelsPerCrate} panels each`,
+      crates, 'ea', crates * r.crating.perCrate);
+    add('shipping', 'Shipping', `${usd(r.shipping.base)} + ${input.panelCount} panel${input.panelCount === 1 ? '' : 's'} × ${usd(r.shipping.perPanel)}`,
+      input.panelCount, 'panels', r.shipping.base + input.panelCount * r.shipping.perPanel);
+  }
+
+  for (const opt of r.installationOptions) {
+    if (!input.installation?.includes(opt.id) || (opt.backlitOnly && input.backlight === 'none')) continue;
+    const perPanel = opt.perSF === 0;
+    add('installation', opt.label, opt.detail,
+      perPanel ? input.panelCount : input.panelSF, perPanel ? 'panels' : 'SF',
+      input.panelSF * opt.perSF + input.panelCount * opt.perPanel);
+  }
+
+  if (r.taxPct > 0 && lines.length) {
+    add('tax', 'Sales tax', `${r.taxPct}%`, 1, 'ea', sum() * r.taxPct / 100);
+  }
+
+  return { lines, panelRate, backlightRate, total: sum() };
+}
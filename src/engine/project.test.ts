@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PANEL_STATE } from './types';
+import { PROJECT_VERSION, parseProjectFile } from './project';
+
+const fileWith = (design: Record<string, unknown>) =>
+  JSON.stringify({ format: 'perfpanel', version: PROJECT_VERSION, savedAt: '', design, image: null, scene: {}, chat: [] });
+
+describe('parseProjectFile', () => {
+  it('keeps saved values of the right type', () => {
+    const { design } = parseProjectFile(fileWith({
+      wallW: 300, invert: true, material: 'aluminum', enabledWidths: [24, 36],
+      quote: { clientName: 'Ada', installation: ['standard'] },
+    }));
+    expect(design.wallW).toBe(300);
+    expect(design.invert).toBe(true);
+    expect(design.material).toBe('aluminum');
+    expect(design.enabledWidths).toEqual([24, 36]);
+    expect(design.quote).toEqual({ ...DEFAULT_PANEL_STATE.quote, clientName: 'Ada', installation: ['standard'] });
+  });
+
+  it('drops values whose type does not match the default', () => {
+    const { design } = parseProjectFile(fileWith({
+      wallW: '300', wallH: null, invert: 'yes', gamma: 'NaN', enabledWidths: 24, enabledHeights: ['96'],
+      stockSheets: { w: 48 }, keepOuts: 'none', quote: { clientName: 7, issues: {} }, unknownField: 1,
+    }));
+    expect(design.wallW).toBe(DEFAULT_PANEL_STATE.wallW);
+    expect(design.wallH).toBe(DEFAULT_PANEL_STATE.wallH);
+    expect(design.invert).toBe(DEFAULT_PANEL_STATE.invert);
+    expect(design.gamma).toBe(DEFAULT_PANEL_STATE.gamma);
+    expect(design.enabledWidths).toEqual(DEFAULT_PANEL_STATE.enabledWidths);
+    expect(design.enabledHeights).toEqual(DEFAULT_PANEL_STATE.enabledHeights);
+    expect(design.stockSheets).toEqual(DEFAULT_PANEL_STATE.stockSheets);
+    expect(design.keepOuts).toEqual([]);
+    expect(design.quote).toEqual(DEFAULT_PANEL_STATE.quote);
+    expect(design).not.toHaveProperty('unknownField');
+  });
+});
@@ -0,0 +1,197 @@
+import type { PanelState, LightingPreset, ChatMessage } from './types';
+import { DEFAULT_PANEL_STATE, MARA_GREETING } from './types';
+
+// ─── Project Files ───────────────────────────────────────────────────
+// A .perfpanel file is JSON: every user-editable PanelState field, the source
+// image as a data URL, the 3D scene settings and the Ask Mara conversation.
+// Derived fields (grayscale pixels, layouts, panels and holes) are left out and
+// rebuilt by the recompute pipeline on load, so a file stays small and always
+// matches the engine that opens it.
+//
+// Bump PROJECT_VERSION when a saved field changes meaning or name, and add a
+// migration from the previous version. Fields that are only added need no
+// migration: anything missing from an older file takes its default.
+
+export const PROJECT_EXTENSION = '.perfpanel';
+export const PROJECT_VERSION = 1;
+const PROJECT_FORMAT = 'perfpanel';
+
+// Rebuilt from the image and layout settings, never saved
+const COMPUTED_KEYS = [
+  'sourceImage', 'grayPixels', 'imgWidth', 'imgHeight',
+  'layoutOptions', 'colWidths', 'rowHeights', 'panels', 'gridInfo',
+] as const satisfies readonly (keyof PanelState)[];
+
+type ComputedKey = typeof COMPUTED_KEYS[number];
+export type ProjectDesign = Omit<PanelState, ComputedKey>;
+
+export interface ProjectScene {
+  lightingPreset: LightingPreset;
+  floorEnabled: boolean;
+  scaleFigureEnabled: boolean;
+  ceilingMode: boolean;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;        // ISO timestamp
+  design: ProjectDesign;
+  image: string | null;   // source image as a data URL
+  scene: ProjectScene;
+  chat: ChatMessage[];
+}
+
+// What the app needs to put a project back on screen; state still needs a full recompute
+export interface OpenedProject {
+  state: PanelState;
+  scene: ProjectScene;
+  chat: ChatMessage[];
+}
+
+type RawProject = Record<string, unknown>;
+
+// Keyed by the version a migration upgrades from; each returns the next version
+const MIGRATIONS: Record<number, (file: RawProject) => RawProject> = {};
+
+function isComputedKey(key: string): key is ComputedKey {
+  return (COMPUTED_KEYS as readonly string[]).includes(key);
+}
+
+export function projectDesign(state: PanelState): ProjectDesign {
+  return Object.fromEntries(Object.entries(state).filter(([k]) => !isComputedKey(k))) as ProjectDesign;
+}
+
+// Images loaded through FileReader already carry a data URL; samples are redrawn to one
+export function imageToDataUrl(img: HTMLImageElement | null): string | null {
+  if (!img) return null;
+  if (img.src.startsWith('data:')) return img.src;
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0);
+  try {
+    return canvas.toDataURL('image/jpeg', 0.92);
+  } catch {
+    return null;  // cross-origin image without CORS headers
+  }
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The embedded source image could not be decoded.'));
+    img.src = src;
+  });
+}
+
+export function buildProjectFile(state: PanelState, scene: ProjectScene, chat: ChatMessage[]): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    design: projectDesign(state),
+    image: imageToDataUrl(state.sourceImage),
+    scene,
+    chat,
+  };
+}
+
+export function projectFileName(state: PanelState): string {
+  const base = (state.quote.projectName || state.imageName || 'untitled').trim()
+    .replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+  return `${base || 'untitled'}${PROJECT_EXTENSION}`;
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Whether a saved value has the default's type: the same typeof, an array where the
+// default is one (with elements like the default's, when it has any) and an object
+// where the default is one
+function matchesDefault(def: unknown, v: unknown): boolean {
+  if (Array.isArray(def)) {
+    return Array.isArray(v) && (def.length === 0 || v.every(item => matchesDefault(def[0], item)));
+  }
+  if (isPlainObject(def)) return isPlainObject(v);
+  return typeof v === typeof def && (typeof v !== 'number' || Number.isFinite(v));
+}
+
+// Saved values over the defaults, one level deep for grouped fields such as quote.
+// Keys the app no longer knows and values of the wrong type are dropped, so a
+// hand-edited or damaged file falls back to the defaults for just those fields.
+function mergeDesign(saved: Record<string, unknown>): ProjectDesign {
+  const design = projectDesign(DEFAULT_PANEL_STATE) as unknown as Record<string, unknown>;
+  for (const [k, def] of Object.entries(design)) {
+    const v = saved[k];
+    if (!matchesDefault(def, v)) continue;
+    if (isPlainObject(def) && isPlainObject(v)) {
+      const group = { ...def };
+      for (const [gk, gdef] of Object.entries(def)) {
+        if (matchesDefault(gdef, v[gk])) group[gk] = v[gk];
+      }
+      design[k] = group;
+    } else {
+      design[k] = v;
+    }
+  }
+  return design as unknown as ProjectDesign;
+}
+
+// Parse, migrate and validate; throws with a message fit for the UI
+export function parseProjectFile(text: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a .perfpanel project.');
+  }
+  return migrateProjectFile(raw);
+}
+
+// A project object from a file or the autosave store, brought up to the current version
+export function migrateProjectFile(input: unknown): ProjectFile {
+  if (!isPlainObject(input) || input.format !== PROJECT_FORMAT || typeof input.version !== 'number') {
+    throw new Error('This file is not a .perfpanel project.');
+  }
+  if (input.version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (format v${input.version}).`);
+  }
+  let raw: RawProject = input;
+  while ((raw.version as number) < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[raw.version as number];
+    if (!migrate) throw new Error(`Projects saved in format v${raw.version} can no longer be opened.`);
+    raw = migrate(raw);
+  }
+
+  const scene = isPlainObject(raw.scene) ? raw.scene : {};
+  const chat = Array.isArray(raw.chat)
+    ? (raw.chat as ChatMessage[]).filter(m => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+    : [];
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : '',
+    design: mergeDesign(isPlainObject(raw.design) ? raw.design : {}),
+    image: typeof raw.image === 'string' && raw.image.startsWith('data:image/') ? raw.image : null,
+    scene: {
+      lightingPreset: (scene.lightingPreset as LightingPreset) ?? 'standard',
+      floorEnabled: Boolean(scene.floorEnabled),
+      scaleFigureEnabled: scene.scaleFigureEnabled === undefined ? true : Boolean(scene.scaleFigureEnabled),
+      ceilingMode: Boolean(scene.ceilingMode),
+    },
+    chat: chat.length ? chat : [MARA_GREETING],
+  };
+}
+
+export async function openProjectFile(file: ProjectFile): Promise<OpenedProject> {
+  const sourceImage = file.image ? await loadImage(file.image) : null;
+  return {
+    state: { ...DEFAULT_PANEL_STATE, ...file.design, sourceImage },
+    scene: file.scene,
+    chat: file.chat,
+  };
+}
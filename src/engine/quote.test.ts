@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PANEL_STATE } from './types';
+import { issueQuote, keepIssuedQuote, nextQuoteRevision } from './quote';
+
+describe('keepIssuedQuote', () => {
+  it('keeps issued revisions when a patch rolls the quote back', () => {
+    const draft = { ...DEFAULT_PANEL_STATE.quote, clientName: 'Ada' };
+    const issued = issueQuote({ ...DEFAULT_PANEL_STATE, quote: draft }, new Date(2026, 9, 19));
+    const current = { ...DEFAULT_PANEL_STATE, quote: issued };
+
+    const patch = keepIssuedQuote({ quote: DEFAULT_PANEL_STATE.quote, gamma: 2 }, current);
+    expect(patch.gamma).toBe(2);
+    expect(patch.quote?.clientName).toBe('');
+    expect(patch.quote?.number).toBe(issued.number);
+    expect(patch.quote?.issues).toEqual(issued.issues);
+    expect(nextQuoteRevision(patch.quote!)).toBe(2);
+  });
+
+  it('leaves patches without a quote alone', () => {
+    const patch = { margin: 2 };
+    expect(keepIssuedQuote(patch, DEFAULT_PANEL_STATE)).toBe(patch);
+  });
+});
@@ -0,0 +1,65 @@
+import type { PanelState, QuoteInfo } from './types';
+import { computeStats } from './panelEngine';
+import { PRICING, priceDesign, type PriceBreakdown } from './pricing';
+
+// ─── Client Quote ────────────────────────────────────────────────────
+// The sales document, kept apart from the shop drawing. Its number is assigned
+// the first time it is issued and stays with the project; every re-issue adds a
+// revision with the date, validity and total it went out with, so a saved project
+// carries its whole quote history.
+
+const fmtDate = (d: Date) => d.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' });
+
+// The live estimate plus whichever installation options the quote includes
+export function quotePricing(state: PanelState): PriceBreakdown {
+  const stats = computeStats(state);
+  return priceDesign({
+    material: state.material,
+    panelSF: stats.panelSF,
+    panelCount: state.panels.length,
+    customCuts: stats.fillerCount,
+    holes: stats.totalHoles,
+    backlight: stats.backlightType,
+    wasteCost: stats.wasteCost,
+    sheets: stats.sheetsUsed,
+    yieldPct: stats.materialYieldPct,
+    discount: state.discount,
+    installation: state.quote.installation,
+  });
+}
+
+// Q-YYMMDD-XXXX: the day it was first issued and a random suffix so two quotes
+// started the same day never share a number
+export function newQuoteNumber(date = new Date()): string {
+  const ymd = `${String(date.getFullYear()).slice(2)}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+  const suffix = Math.floor(Math.random() * 36 ** 4).toString(36).toUpperCase().padStart(4, '0');
+  return `Q-${ymd}-${suffix}`;
+}
+
+export function nextQuoteRevision(q: QuoteInfo): number {
+  return q.issues.length ? q.issues[q.issues.length - 1].revision + 1 : 1;
+}
+
+// Issued revisions record what the client was sent, so a patch that rolls the quote
+// back (undo, redo, history jumps) keeps the current number and issues
+export function keepIssuedQuote(patch: Partial<PanelState>, current: PanelState): Partial<PanelState> {
+  if (!patch.quote) return patch;
+  return { ...patch, quote: { ...patch.quote, number: current.quote.number, issues: current.quote.issues } };
+}
+
+// The quote as it stands after issuing it today; the last entry in issues is the new revision
+export function issueQuote(state: PanelState, date = new Date()): QuoteInfo {
+  const q = state.quote;
+  const validUntil = new Date(date);
+  validUntil.setDate(validUntil.getDate() + PRICING.quote.validDays);
+  return {
+    ...q,
+    number: q.number || newQuoteNumber(date),
+    issues: [...q.issues, {
+      revision: nextQuoteRevision(q),
+      date: fmtDate(date),
+      validUntil: fmtDate(validUntil),
+      total: quotePricing(state).total,
+    }],
+  };
+}
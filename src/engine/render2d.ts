@@ -1,4 +1,8 @@
 import type { PanelState } from './types';
+import { traceHole } from './holeShapes';
+import { keepOutOutline } from './keepOuts';
+import { wallOutline, tracePanel } from './wallOutline';
+import type { DrcReport } from './drc';
 
 function hexToRgb(hex: string): { r: number; g: number; b: number } {
   return {
@@ -26,6 +30,7 @@ export function render2d(
 ) {
   const isLight = theme === 'light';
   const borderRgba = isLight ? 'rgba(0,0,0,0.55)' : 'rgba(255,255,255,0.25)';
+  const fillerRgba = isLight ? 'rgba(200,90,0,0.9)' : 'rgba(255,160,60,0.8)';
   const outlineRgba = isLight ? 'rgba(0,0,0,0.3)' : 'rgba(255,255,255,0.12)';
   const labelMain = isLight ? 'rgba(0,0,0,0.6)' : 'rgba(255,255,255,0.3)';
   const labelSub = isLight ? 'rgba(0,0,0,0.45)' : 'rgba(255,255,255,0.2)';
@@ -93,55 +98,130 @@ export function render2d(
     ctx.save();
     ctx.translate(panel.x, panel.y);
     ctx.fillStyle = state.panelColor;
-    ctx.fillRect(0, 0, panel.w, panel.h);
+    ctx.beginPath();
+    tracePanel(ctx, panel);
+    ctx.fill();
 
     const holes = panel.holes;
     if (isGradientBL) {
       // Draw each hole with its position-based gradient color
       for (const hole of holes) {
-        const r = hole.d / 2;
         ctx.fillStyle = holeGradientColor(panel.x + hole.x, panel.y + hole.y);
         ctx.beginPath();
-        ctx.arc(hole.x, hole.y, r, 0, Math.PI * 2);
+        traceHole(ctx, state.holeShape, hole, state.slotRatio);
         ctx.fill();
       }
     } else {
       const blColor = state.backlight ? state.backlightColor : state.bgColor;
       ctx.fillStyle = blColor;
       ctx.beginPath();
-      for (const hole of holes) {
-        const r = hole.d / 2;
-        ctx.moveTo(hole.x + r, hole.y);
-        ctx.arc(hole.x, hole.y, r, 0, Math.PI * 2);
-      }
+      for (const hole of holes) traceHole(ctx, state.holeShape, hole, state.slotRatio);
       ctx.fill();
     }
 
-    // Panel border
-    ctx.strokeStyle = borderRgba;
+    // Panel border — custom-cut fillers get a dashed accent so they stand out on shop drawings
+    ctx.strokeStyle = panel.filler ? fillerRgba : borderRgba;
     ctx.lineWidth = 1.5 / camZoom;
-    ctx.strokeRect(0, 0, panel.w, panel.h);
+    if (panel.filler) ctx.setLineDash([6 / camZoom, 3 / camZoom]);
+    ctx.beginPath();
+    tracePanel(ctx, panel);
+    ctx.stroke();
+    ctx.setLineDash([]);
 
     // Labels
     if (state.showLabels) {
+      // Trimmed panels label the middle of what is left
+      const lx = panel.w / 2;
+      let ly = panel.h / 2;
+      if (panel.outline) {
+        const ys = panel.outline.map(p => p[1]);
+        ly = (Math.min(...ys) + Math.max(...ys)) / 2;
+      }
       const fs = Math.min(panel.w, panel.h) * 0.07;
       ctx.font = `bold ${fs}px sans-serif`;
       ctx.fillStyle = labelMain;
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.fillText(panel.label, panel.w / 2, panel.h / 2 - fs * 0.6);
+      ctx.fillText(panel.label, lx, ly - fs * 0.6);
       ctx.font = `${fs * 0.6}px sans-serif`;
       ctx.fillStyle = labelSub;
-      ctx.fillText(panel.sizeLabel, panel.w / 2, panel.h / 2 + fs * 0.5);
+      ctx.fillText(panel.sizeLabel, lx, ly + fs * 0.5);
+      if (panel.filler) {
+        ctx.font = `bold ${fs * 0.5}px sans-serif`;
+        ctx.fillStyle = fillerRgba;
+        ctx.fillText('CUSTOM CUT', lx, ly + fs * 1.3);
+      }
     }
     ctx.restore();
   }
 
+  // Keep-out zones — cutouts show the wall through the panel, clearance band dashed
+  const koStroke = isLight ? 'rgba(200,90,0,0.9)' : 'rgba(255,160,60,0.85)';
+  const koBand = isLight ? 'rgba(200,90,0,0.45)' : 'rgba(255,160,60,0.35)';
+  for (const zone of state.keepOuts) {
+    const outline = keepOutOutline(zone);
+    if (outline.length < 3) continue;
+    ctx.beginPath();
+    if (zone.kind === 'circle') {
+      ctx.arc(zone.x, zone.y, zone.r, 0, Math.PI * 2);
+    } else {
+      ctx.moveTo(outline[0][0], outline[0][1]);
+      for (let i = 1; i < outline.length; i++) ctx.lineTo(outline[i][0], outline[i][1]);
+      ctx.closePath();
+    }
+    if (zone.cutout) {
+      ctx.fillStyle = state.bgColor;
+      ctx.fill();
+    }
+    ctx.strokeStyle = koStroke;
+    ctx.lineWidth = 1.5 / camZoom;
+    ctx.stroke();
+
+    if (zone.clearance > 0) {
+      ctx.save();
+      ctx.setLineDash([3 / camZoom, 3 / camZoom]);
+      ctx.strokeStyle = koBand;
+      ctx.lineWidth = 1 / camZoom;
+      ctx.beginPath();
+      if (zone.kind === 'circle') {
+        ctx.arc(zone.x, zone.y, zone.r + zone.clearance, 0, Math.PI * 2);
+      } else {
+        const xs = outline.map(p => p[0]), ys = outline.map(p => p[1]);
+        const c = zone.clearance;
+        const x0 = Math.min(...xs) - c, y0 = Math.min(...ys) - c;
+        const x1 = Math.max(...xs) + c, y1 = Math.max(...ys) + c;
+        ctx.roundRect(x0, y0, x1 - x0, y1 - y0, c);
+      }
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    if (state.showLabels && zone.label) {
+      const ys = outline.map(p => p[1]);
+      const xs = outline.map(p => p[0]);
+      const fs = Math.max(2, 10 / camZoom);
+      ctx.font = `${fs}px sans-serif`;
+      ctx.fillStyle = koStroke;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(zone.label, (Math.min(...xs) + Math.max(...xs)) / 2, Math.min(...ys) - zone.clearance - 2 / camZoom);
+    }
+  }
+
   // Wall outline
   ctx.setLineDash([4 / camZoom, 4 / camZoom]);
   ctx.strokeStyle = outlineRgba;
   ctx.lineWidth = 1 / camZoom;
-  ctx.strokeRect(0, 0, wW, wH);
+  const outline = wallOutline(state);
+  if (outline) {
+    ctx.beginPath();
+    ctx.moveTo(outline[0][0], outline[0][1]);
+    for (let i = 1; i < outline.length; i++) ctx.lineTo(outline[i][0], outline[i][1]);
+    ctx.closePath();
+    ctx.stroke();
+  } else {
+    ctx.strokeRect(0, 0, wW, wH);
+  }
   ctx.setLineDash([]);
 
   // ─── Dimension Lines ────────────────────────────────────────────
@@ -230,6 +310,51 @@ export function render2d(
   drawScaleBar(ctx, w, h, camZoom);
 }
 
+// Design-rule markers drawn over a finished render with the same camera:
+// a ring around every offending hole and a dashed outline around panels that
+// break a panel-wide rule. Errors are red, warnings amber.
+export function renderDrcMarkers(
+  canvas: HTMLCanvasElement,
+  state: PanelState,
+  report: DrcReport,
+  camX: number,
+  camY: number,
+  camZoom: number,
+) {
+  if (!report.violations.length) return;
+  const ctx = canvas.getContext('2d')!;
+  ctx.save();
+  ctx.translate(camX, camY);
+  ctx.scale(camZoom, camZoom);
+  const px = 1 / camZoom;
+  for (const v of report.violations) {
+    ctx.strokeStyle = v.severity === 'error' ? 'rgba(255,77,77,0.95)' : 'rgba(255,176,32,0.95)';
+    if (v.markers.length) {
+      ctx.lineWidth = 2 * px;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      for (const m of v.markers) {
+        const r = m.r + 3 * px;
+        ctx.moveTo(m.x + r, m.y);
+        ctx.arc(m.x, m.y, r, 0, Math.PI * 2);
+      }
+      ctx.stroke();
+    } else {
+      const panel = state.panels.find(p => p.label === v.panel);
+      if (!panel) continue;
+      ctx.lineWidth = 3 * px;
+      ctx.setLineDash([8 * px, 6 * px]);
+      ctx.save();
+      ctx.translate(panel.x, panel.y);
+      ctx.beginPath();
+      tracePanel(ctx, panel);
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+  ctx.restore();
+}
+
 function drawScaleBar(ctx: CanvasRenderingContext2D, w: number, h: number, camZoom: number) {
   const niceSteps = [0.5, 1, 2, 3, 4, 5, 6, 10, 12, 24, 48, 96];
   let best = niceSteps[0];
@@ -0,0 +1,184 @@
+import type { PanelState } from './types';
+import { computeAllHoles, computeStats, processImage } from './panelEngine';
+
+// ─── Target Solver ───────────────────────────────────────────────────
+// Finds the hole-mapping settings that land the wall on a specified open area,
+// hole count or price. Parameters are searched one at a time, in the order that
+// changes the image least: gamma only reshapes the size curve, threshold also
+// decides which tones get holes, brightness and contrast (when allowed) reshape the
+// image itself, and spacing (when allowed) changes the grain of the whole wall.
+// Tone and spacing are opt-in because they change the image's character.
+//
+// Every metric rises or falls steadily with each parameter, so each one is a
+// bisection. A parameter that cannot reach the target is left at its closest end
+// and the next one continues from there.
+
+export type SolveTargetKind = 'openArea' | 'holeCount' | 'price';
+
+export interface SolveTarget {
+  kind: SolveTargetKind;
+  value: number;  // % open, holes or USD
+}
+
+export interface SolveMetrics {
+  openAreaPct: number;
+  totalHoles: number;
+  estimatedTotal: number;
+}
+
+export interface SolveResult {
+  target: SolveTarget;
+  params: Partial<PanelState>;  // only the settings that moved
+  before: SolveMetrics;
+  after: SolveMetrics;
+  reached: boolean;
+  note: string | null;
+  evaluations: number;
+}
+
+// Settings beyond gamma and threshold the solver may move
+export interface SolveAllowances {
+  tone: boolean;     // brightness and contrast
+  spacing: boolean;  // hole pitch, or grid count in count mode
+}
+
+interface Knob {
+  key: 'gamma' | 'threshold' | 'brightness' | 'contrast' | 'spacing';
+  lo: number;
+  hi: number;
+  steps: number;   // bisection iterations
+  apply: (v: number) => Partial<PanelState>;
+}
+
+const METRIC: Record<SolveTargetKind, keyof SolveMetrics> = {
+  openArea: 'openAreaPct',
+  holeCount: 'totalHoles',
+  price: 'estimatedTotal',
+};
+
+// How close counts as on target: open area in percentage points, the others relative.
+// One threshold step can add or drop a whole band of holes, so counts get more room.
+const TOLERANCE: Record<SolveTargetKind, (target: number) => number> = {
+  openArea: () => 0.25,
+  holeCount: t => Math.max(1, t * 0.02),
+  price: t => Math.max(1, t * 0.01),
+};
+
+// Hole counts and prices are ceilings ("no more than 20,000 holes"); open area is a target
+const IS_CEILING: Record<SolveTargetKind, boolean> = {
+  openArea: false,
+  holeCount: true,
+  price: true,
+};
+
+function measure(state: PanelState): SolveMetrics {
+  const stats = computeStats(state);
+  return { openAreaPct: stats.openAreaPct, totalHoles: stats.totalHoles, estimatedTotal: stats.estimatedTotal };
+}
+
+function knobsFor(state: PanelState, kind: SolveTargetKind, allow: SolveAllowances): Knob[] {
+  const knobs: Knob[] = [];
+  // Gamma never adds or removes holes, so it only helps the open-area target
+  if (kind === 'openArea') {
+    knobs.push({ key: 'gamma', lo: Math.log(0.2), hi: Math.log(5), steps: 14, apply: v => ({ gamma: +Math.exp(v).toFixed(2) }) });
+  }
+  knobs.push({ key: 'threshold', lo: 0, hi: 255, steps: 9, apply: v => ({ threshold: Math.round(v) }) });
+  if (allow.tone) {
+    // The Brightness and Contrast slider ranges
+    knobs.push({ key: 'brightness', lo: -100, hi: 100, steps: 8, apply: v => ({ brightness: Math.round(v) }) });
+    knobs.push({ key: 'contrast', lo: -100, hi: 100, steps: 8, apply: v => ({ contrast: Math.round(v) }) });
+  }
+  if (allow.spacing) {
+    // Scale the current pitch (or grid count) by up to 3× either way
+    const lo = Math.log(1 / 3), hi = Math.log(3);
+    if (state.spacingMode === 'spacing') {
+      const snap = (v: number) => Math.max(state.minSpacing, Math.round(v * 8) / 8);
+      knobs.push({
+        key: 'spacing', lo, hi, steps: 12,
+        apply: v => ({ spacingX: snap(state.spacingX * Math.exp(v)), spacingY: snap(state.spacingY * Math.exp(v)) }),
+      });
+    } else {
+      knobs.push({
+        key: 'spacing', lo, hi, steps: 12,
+        apply: v => ({
+          gridCols: Math.max(2, Math.round(state.gridCols / Math.exp(v))),
+          gridRows: Math.max(2, Math.round(state.gridRows / Math.exp(v))),
+        }),
+      });
+    }
+  }
+  return knobs;
+}
+
+export function solveForTarget(state: PanelState, target: SolveTarget, allow: SolveAllowances): SolveResult | null {
+  if (!state.grayPixels) return null;
+  const key = METRIC[target.kind];
+  const tol = TOLERANCE[target.kind](target.value);
+  const ceiling = IS_CEILING[target.kind];
+  let evaluations = 0;
+
+  const evaluate = (patch: Partial<PanelState>): SolveMetrics => {
+    evaluations++;
+    let s = { ...state, ...patch };
+    // Tone lives in the grayscale pixels, so a tone change reprocesses the image
+    if (s.brightness !== state.brightness || s.contrast !== state.contrast) s = { ...s, ...processImage(s) };
+    return measure({ ...s, panels: computeAllHoles(s).panels });
+  };
+  // Lower is better; overshooting a ceiling is worse than any miss below it
+  const score = (m: SolveMetrics) => {
+    const v = m[key];
+    const miss = Math.abs(v - target.value);
+    return ceiling && v > target.value ? miss + 1e12 : miss;
+  };
+
+  const before = measure(state);
+  let params: Partial<PanelState> = {};
+  let best = { params, metrics: before };
+  let moved = false;
+
+  for (const knob of knobsFor(state, target.kind, allow)) {
+    if (Math.abs(best.metrics[key] - target.value) <= tol && !(ceiling && best.metrics[key] > target.value)) break;
+    const at = (v: number) => {
+      const patch = { ...params, ...knob.apply(v) };
+      const metrics = evaluate(patch);
+      if (score(metrics) < score(best.metrics)) best = { params: patch, metrics };
+      return metrics[key];
+    };
+    let lo = knob.lo, hi = knob.hi;
+    const fLo = at(lo), fHi = at(hi);
+    if (fLo !== fHi) moved = true;
+    const rising = fHi > fLo;
+    // Out of this knob's reach: keep the closest end and hand over to the next knob
+    if ((target.value - fLo) * (target.value - fHi) > 0) {
+      params = best.params;
+      continue;
+    }
+    for (let i = 0; i < knob.steps; i++) {
+      const mid = (lo + hi) / 2;
+      const f = at(mid);
+      if (Math.abs(f - target.value) <= tol && !(ceiling && f > target.value)) break;
+      if ((f < target.value) === rising) lo = mid; else hi = mid;
+    }
+    params = best.params;
+  }
+
+  const after = best.metrics;
+  const reached = ceiling
+    ? after[key] <= target.value && target.value - after[key] <= tol
+    : Math.abs(after[key] - target.value) <= tol;
+  let note: string | null = null;
+  if (!moved && target.kind === 'price') {
+    note = 'Price does not depend on the hole pattern at the current rates; change the wall, panels or material instead.';
+  } else if (!reached) {
+    note = allow.spacing
+      ? 'Closest result within the search range.'
+      : 'Closest result without changing spacing — allow spacing changes to go further.';
+  }
+
+  // Report only what actually changed
+  const changed: Partial<PanelState> = {};
+  for (const [k, v] of Object.entries(best.params) as [keyof PanelState, unknown][]) {
+    if (state[k] !== v) (changed as Record<string, unknown>)[k] = v;
+  }
+  return { target, params: changed, before, after, reached, note, evaluations };
+}
@@ -1,7 +1,10 @@
+import { DEFAULT_MATERIAL_ID } from './materials';
+
 export interface PanelHole {
   x: number;
   y: number;
   d: number;
+  a?: number;  // rotation in radians (slots only)
 }
 
 export interface Panel {
@@ -14,13 +17,71 @@ export interface Panel {
   label: string;
   sizeLabel: string;
   holes: PanelHole[];
+  outline?: [number, number][];  // panel-local trimmed shape; absent when the full rectangle is used
+  filler?: boolean;  // custom-cut to a non-stock width or height
+  bondCut?: boolean;  // running bond: a stock panel cut down at a row end, priced as stock
+}
+
+// Area where holes are suppressed (outlets, sprinklers, doors…), in wall inches.
+// rect: (x, y) is the top-left corner; circle: (x, y) is the center;
+// polygon: points are relative to (x, y) so dragging only moves the origin.
+export interface KeepOut {
+  id: string;
+  label: string;
+  kind: 'rect' | 'circle' | 'polygon';
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  r: number;
+  points: [number, number][];
+  clearance: number;  // extra hole-free band around the shape
+  cutout: boolean;    // true = panel material is removed, not just left unperforated
+}
+
+// A stock sheet size panels are cut from
+export interface StockSheet {
+  id: string;
+  name: string;
+  w: number;     // inches
+  h: number;     // inches
+  cost: number;  // USD per sheet
+  enabled: boolean;
+}
+
+// One row of the shop drawing revision block
+export interface DrawingRevision {
+  rev: string;          // A, B, C…
+  date: string;         // as printed, MM/DD/YYYY
+  description: string;
+}
+
+// One issued copy of the client quote
+export interface QuoteIssue {
+  revision: number;     // 1 for the first issue
+  date: string;         // as printed, MM/DD/YYYY
+  validUntil: string;   // as printed
+  total: number;
+}
+
+export interface QuoteInfo {
+  number: string;       // assigned on first issue and kept for the project
+  clientName: string;
+  clientCompany: string;
+  clientEmail: string;
+  projectName: string;
+  projectAddress: string;
+  installation: string[];  // installation option ids from the pricing rules
+  issues: QuoteIssue[];    // oldest first
 }
 
 export interface LayoutOption {
   w: AxisSolution;
   h: AxisSolution;
+  h2?: AxisSolution;  // vertical-stack: height split used by every other column
   totalCoverage: number;
   totalPanels: number;
+  yieldPct?: number;  // material yield on the stock sheet library; only set when ranking by yield
   desc: string;
 }
 
@@ -28,7 +89,9 @@ export interface AxisSolution {
   counts: Record<number, number>;
   total: number;
   coverage: number;
-  numPanels: number;
+  numPanels: number;   // includes fillers
+  filler?: number;     // custom-cut filler size, when the run is closed with fillers
+  fillerCount?: number;  // 1 = one end, 2 = both ends
 }
 
 export interface PanelState {
@@ -45,12 +108,25 @@ export interface PanelState {
   // Wall dimensions (in inches)
   wallW: number;
   wallH: number;
+  wallShape: 'rect' | 'raked' | 'arch' | 'polygon';
+  rakeLeftH: number;   // raked: wall height at the left edge (inches)
+  rakeRightH: number;  // raked: wall height at the right edge (inches)
+  archRise: number;    // arch: rise of the arch above its springing line (inches)
+  wallPolygon: [number, number][];  // polygon: wall outline in wall inches, y down from the top
   panelGap: number;
 
   // Panel layout
   enabledWidths: number[];
   enabledHeights: number[];
+  layoutMode: 'grid' | 'running-bond' | 'vertical-stack';
+  fillerMode: 'none' | 'single' | 'symmetric';
+  fillerMin: number;  // smallest custom-cut filler worth fabricating (inches)
+  fillerMax: number;  // largest filler before a stock panel should be used instead (inches)
+  layoutRanking: 'coverage' | 'yield';
+  stockSheets: StockSheet[];
+  sawKerf: number;  // inches lost per cut when nesting
   margin: number;
+  keepOuts: KeepOut[];
 
   // Grid settings
   spacingMode: 'spacing' | 'count';
@@ -60,15 +136,29 @@ export interface PanelState {
   minSpacing: number;
   gridCols: number;
   gridRows: number;
-  gridPattern: 'rect' | 'hex';
+  gridPattern: 'rect' | 'hex' | 'stochastic' | 'concentric' | 'spiral' | 'radial';
+  gridAnchor: 'panel' | 'wall';  // rect/hex: restart the lattice per panel, or one lattice across the wall
+  stochasticSeed: number;
+  patternCenterU: number;  // center of concentric/spiral/radial patterns, 0–1 across the wall
+  patternCenterV: number;
 
   // Hole settings
   standardHoleSizes: number[];
   enabledHoleSizes: number[];
-  holeShape: 'circle' | 'square';
+  holeShape: 'circle' | 'square' | 'slot' | 'hexagon' | 'triangle';
+  slotRatio: number;          // slot length ÷ width
+  slotAngle: number;          // degrees, 0 = horizontal
+  slotFollowGradient: boolean;
+  ditherMode: 'none' | 'floyd-steinberg' | 'jarvis' | 'atkinson';
   threshold: number;
   gamma: number;
 
+  // Material
+  material: string;  // id in the material library (materials.ts)
+
+  // Pricing
+  discount: string;  // discount id in the pricing rules (pricing.json), '' for none
+
   // Visualization
   panelColor: string;
   bgColor: string;
@@ -80,6 +170,10 @@ export interface PanelState {
   backlightIntensity: number;
   showLabels: boolean;
 
+  // Documents
+  revisions: DrawingRevision[];
+  quote: QuoteInfo;
+
   // Computed
   layoutOptions: LayoutOption[];
   selectedLayoutIdx: number;
@@ -92,11 +186,27 @@ export interface PanelState {
 export const STANDARD_WIDTHS = [24, 36, 48];
 export const STANDARD_HEIGHTS = [48, 60, 72, 96, 120, 144];
 export const STANDARD_HOLE_SIZES = [1.5, 1.25, 1.0, 0.75, 0.625, 0.5, 0.25];
-export const PRICE_PER_SF = 42;
-export const SCALE = 0.1; // 1 inch = 0.1 units in 3D
+export const SCALE = 0.1;
+
+export const DEFAULT_STOCK_SHEETS: StockSheet[] = [
+  { id: 'corian-30x144', name: 'Corian 30×144', w: 30, h: 144, cost: 540, enabled: true },
+  { id: 'corian-48x96', name: 'Corian 48×96', w: 48, h: 96, cost: 610, enabled: true },
+  { id: 'corian-60x144', name: 'Corian 60×144', w: 60, h: 144, cost: 1150, enabled: true },
+]; // 1 inch = 0.1 units in 3D
 
 export type LightingPreset = 'standard' | 'dramatic' | 'sunset' | 'cool' | 'night';
 
+// One bubble in the Ask Mara conversation
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export const MARA_GREETING: ChatMessage = {
+  role: 'assistant',
+  content: "I'm Mara. Tell me how to tune your panels — size, density, lighting — and I'll adjust the sliders live.",
+};
+
 export const DEFAULT_PANEL_STATE: PanelState = {
   sourceImage: null,
   imageName: '',
@@ -108,10 +218,23 @@ export const DEFAULT_PANEL_STATE: PanelState = {
   invert: false,
   wallW: 240,   // 20 feet in inches
   wallH: 120,   // 10 feet in inches
+  wallShape: 'rect',
+  rakeLeftH: 96,
+  rakeRightH: 120,
+  archRise: 24,
+  wallPolygon: [],
   panelGap: 0.25,
   enabledWidths: [24, 48],
   enabledHeights: [96, 120, 144],
+  layoutMode: 'grid',
+  fillerMode: 'none',
+  fillerMin: 6,
+  fillerMax: 24,
+  layoutRanking: 'coverage',
+  stockSheets: DEFAULT_STOCK_SHEETS.map(s => ({ ...s })),
+  sawKerf: 0.125,
   margin: 1,
+  keepOuts: [],
   spacingMode: 'spacing',
   spacingX: 2,
   spacingY: 2,
@@ -120,11 +243,21 @@ export const DEFAULT_PANEL_STATE: PanelState = {
   gridCols: 46,
   gridRows: 118,
   gridPattern: 'rect',
+  gridAnchor: 'panel',
+  stochasticSeed: 1,
+  patternCenterU: 0.5,
+  patternCenterV: 0.5,
   standardHoleSizes: [...STANDARD_HOLE_SIZES],
   enabledHoleSizes: [...STANDARD_HOLE_SIZES],
   holeShape: 'circle',
+  slotRatio: 3,
+  slotAngle: 0,
+  slotFollowGradient: false,
+  ditherMode: 'none',
   threshold: 245,
   gamma: 1.0,
+  material: DEFAULT_MATERIAL_ID,
+  discount: '',
   panelColor: '#808080',
   bgColor: '#111111',
   backlight: true,
@@ -134,6 +267,17 @@ export const DEFAULT_PANEL_STATE: PanelState = {
   backlightGradientAngle: 0,
   backlightIntensity: 1.0,
   showLabels: true,
+  revisions: [],
+  quote: {
+    number: '',
+    clientName: '',
+    clientCompany: '',
+    clientEmail: '',
+    projectName: '',
+    projectAddress: '',
+    installation: [],
+    issues: [],
+  },
   layoutOptions: [],
   selectedLayoutIdx: 0,
   colWidths: [],
@@ -0,0 +1,97 @@
+import type { Panel, PanelState } from './types';
+import { clipToRect, distToPolygonEdge, pointInPolygon, polygonArea, type Polygon } from './geometry';
+
+// ─── Wall Outline ────────────────────────────────────────────────────
+// Gable ends, stair walls and arched openings are described as a polygon in
+// wall inches (y down from the top of the wallW × wallH bounding box).
+// Panels are still solved on the bounding box, then trimmed to the outline.
+
+const ARCH_SEGMENTS = 64;
+
+// Trimmed slivers smaller than this (sq in) are not worth fabricating
+const MIN_TRIMMED_AREA = 4;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+// Outline for the current wall shape, or null when it is the plain rectangle
+export function wallOutline(state: PanelState): Polygon | null {
+  const W = state.wallW, H = state.wallH;
+  switch (state.wallShape) {
+    case 'raked': {
+      const l = clamp(state.rakeLeftH, 0, H), r = clamp(state.rakeRightH, 0, H);
+      if (l >= H && r >= H) return null;
+      return [[0, H - l], [W, H - r], [W, H], [0, H]];
+    }
+    case 'arch': {
+      // Circular segment spanning the full width with its crown at the top of the wall;
+      // the rise is capped at a semicircle so the arch stays inside the bounding box
+      const rise = clamp(state.archRise, 0, Math.min(H, W / 2));
+      if (rise <= 0) return null;
+      const R = (W * W / 4 + rise * rise) / (2 * rise);
+      const half = 2 * Math.atan((2 * rise) / W);
+      const pts: Polygon = [];
+      for (let i = 0; i <= ARCH_SEGMENTS; i++) {
+        const a = -half + (2 * half * i) / ARCH_SEGMENTS;
+        pts.push([W / 2 + R * Math.sin(a), R - R * Math.cos(a)]);
+      }
+      pts.push([W, H], [0, H]);
+      return pts;
+    }
+    case 'polygon':
+      return state.wallPolygon.length >= 3 ? state.wallPolygon.map(([x, y]) => [x, y]) : null;
+    default:
+      return null;
+  }
+}
+
+// Ready-made polygons for the outline editor, scaled to the wall's bounding box
+export const WALL_POLYGON_PRESETS: { name: string; points: (W: number, H: number) => Polygon }[] = [
+  { name: 'Gable', points: (W, H) => [[0, H * 0.4], [W / 2, 0], [W, H * 0.4], [W, H], [0, H]] },
+  { name: 'Stair', points: (W, H) => [[0, H * 0.45], [W, 0], [W, H * 0.55], [0, H]] },
+  { name: 'Soffit', points: (W, H) => [[0, 0], [W * 0.6, 0], [W * 0.6, H * 0.25], [W, H * 0.25], [W, H], [0, H]] },
+];
+
+// Clip every panel to the outline. Panels entirely inside keep their rectangle,
+// panels crossing it get a panel-local `outline`, and panels left with no usable
+// material are dropped.
+export function trimPanelsToWall(panels: Panel[], outline: Polygon): Panel[] {
+  const out: Panel[] = [];
+  for (const p of panels) {
+    const clipped = clipToRect(outline, p.x, p.y, p.x + p.w, p.y + p.h)
+      .filter((pt, i, arr) => {
+        const prev = arr[(i + arr.length - 1) % arr.length];
+        return Math.abs(pt[0] - prev[0]) > 1e-9 || Math.abs(pt[1] - prev[1]) > 1e-9;
+      });
+    if (clipped.length < 3) continue;
+    const area = polygonArea(clipped);
+    if (area < MIN_TRIMMED_AREA) continue;
+    if (area >= p.w * p.h * (1 - 1e-9)) {
+      out.push(p);
+      continue;
+    }
+    out.push({ ...p, outline: clipped.map(([x, y]) => [x - p.x, y - p.y]) });
+  }
+  return out;
+}
+
+// Material area of a panel in square inches
+export function panelArea(panel: Panel): number {
+  return panel.outline ? polygonArea(panel.outline) : panel.w * panel.h;
+}
+
+// True when a panel-local point sits on the panel at least `inset` inches from a trimmed edge
+export function insidePanelOutline(panel: Panel, x: number, y: number, inset: number): boolean {
+  if (!panel.outline) return true;
+  return pointInPolygon(x, y, panel.outline) && distToPolygonEdge(x, y, panel.outline) >= inset;
+}
+
+// Trace the panel's shape (trimmed outline or full rectangle) in panel-local coordinates
+export function tracePanel(ctx: CanvasRenderingContext2D, panel: Panel) {
+  if (!panel.outline) {
+    ctx.rect(0, 0, panel.w, panel.h);
+    return;
+  }
+  ctx.moveTo(panel.outline[0][0], panel.outline[0][1]);
+  for (let i = 1; i < panel.outline.length; i++) ctx.lineTo(panel.outline[i][0], panel.outline[i][1]);
+  ctx.closePath();
+}
@@ -0,0 +1,81 @@
+// ─── ZIP Archive ─────────────────────────────────────────────────────
+// Minimal ZIP writer for bundling exports in the browser. Entries are stored
+// uncompressed (method 0): DXF/SVG/CSV downloads are small enough that skipping
+// deflate keeps this dependency-free, and every unzip tool accepts stored entries.
+
+export interface ZipEntry {
+  name: string;       // path inside the archive, '/' separated
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time, local time, 2-second resolution
+function dosDateTime(d: Date): [number, number] {
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2);
+  const date = ((Math.max(1980, d.getFullYear()) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return [time, date];
+}
+
+export function buildZip(entries: ZipEntry[], modified = new Date()): Uint8Array<ArrayBuffer> {
+  const enc = new TextEncoder();
+  const [time, date] = dosDateTime(modified);
+  const files = entries.map(e => ({ name: enc.encode(e.name), data: e.data, crc: crc32(e.data), offset: 0 }));
+
+  const localSize = files.reduce((s, f) => s + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((s, f) => s + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+  const u16 = (v: number) => { view.setUint16(pos, v, true); pos += 2; };
+  const u32 = (v: number) => { view.setUint32(pos, v, true); pos += 4; };
+  const bytes = (b: Uint8Array) => { out.set(b, pos); pos += b.length; };
+
+  // Bit 11 marks names as UTF-8
+  const FLAGS = 0x0800;
+
+  for (const f of files) {
+    f.offset = pos;
+    u32(0x04034b50);
+    u16(20); u16(FLAGS); u16(0);
+    u16(time); u16(date);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0);
+    bytes(f.name);
+    bytes(f.data);
+  }
+
+  const centralStart = pos;
+  for (const f of files) {
+    u32(0x02014b50);
+    u16(20); u16(20); u16(FLAGS); u16(0);
+    u16(time); u16(date);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0); u16(0);
+    u16(0); u16(0); u32(0);
+    u32(f.offset);
+    bytes(f.name);
+  }
+
+  u32(0x06054b50);
+  u16(0); u16(0);
+  u16(files.length); u16(files.length);
+  u32(centralSize);
+  u32(centralStart);
+  u16(0);
+  return out;
+}
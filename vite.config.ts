@@ -2,8 +2,12 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react(), tailwindcss()],
+  build: {
+    // The server build only carries engine code for server.js and api/
+    copyPublicDir: !isSsrBuild,
+  },
   server: {
     port: 5174,
     proxy: {
@@ -13,4 +17,4 @@ export default defineConfig({
       },
     },
   },
-})
+}))